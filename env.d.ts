@@ -1,15 +1,33 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: 2bbb1f7fdd82a20143ec6d2cf657c2d8)
+// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: f9d3c3f8c917272d96d3bf95220aadc5)
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/server");
-		durableNamespaces: "Chat";
+		durableNamespaces: "Chat" | "TaskManager";
 	}
 	interface Env {
 		OPENAI_API_KEY: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
+		TaskManager: DurableObjectNamespace<import("./src/server").TaskManager>;
 		AI: Ai;
 		ASSETS: Fetcher;
+		// Optional secrets and variables, see .dev.vars.example
+		ACCESS_TEAM_DOMAIN?: string;
+		ACCESS_AUD?: string;
+		ALLOW_ANONYMOUS?: string;
+		MCP_TOKEN_KEY?: string;
+		GATEWAY_BASE_URL?: string;
+		CHAT_MODEL?: string;
+		RESEARCH_MODEL?: string;
+		SUMMARIZATION_MODEL?: string;
+		OPENAI_COMPATIBLE_BASE_URL?: string;
+		OPENAI_COMPATIBLE_API_KEY?: string;
+		ISSUE_TRACKER?: string;
+		GITHUB_ISSUES_REPOSITORIES?: string;
+		// A cron expression turns on automatic research of newly assigned tasks
+		AUTO_RESEARCH_CRON?: string;
+		LINEAR_WEBHOOK_SECRET?: string;
+		GITHUB_WEBHOOK_SECRET?: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -0,0 +1,187 @@
+import { redactSecrets } from "./secrets";
+import {
+  AUDIT_DECISIONS,
+  AUDIT_SOURCES,
+  AUDIT_STATUSES,
+  type AuditDecision,
+  type AuditLogEntry,
+  type AuditSource,
+  type AuditStatus
+} from "./shared";
+
+/**
+ * Audit log
+ *
+ * Tool calls write to real Linear and GitHub workspaces, so every call the
+ * chat model or research makes, and every issue tracker write (research
+ * comments, claims and state changes), is recorded in the Chat agent's
+ * audit_log table: its input, whether it ran on its own or who approved or denied it,
+ * how long it took and what it returned or why it failed.
+ */
+
+export interface AuditQuery {
+  // Matched against the tool's name, case-insensitively
+  tool?: string;
+  server?: string;
+  source?: AuditSource;
+  decision?: AuditDecision;
+  status?: AuditStatus;
+  actor?: string;
+  workflowId?: string;
+  // Calls started at or after/before these times, in milliseconds
+  since?: number;
+  until?: number;
+  // Offset of the page, from a previous page's nextCursor
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * A tool call to record; the agent adds the tool's server and status
+ */
+export type AuditRecordInput = Omit<
+  AuditLogEntry,
+  | "id"
+  | "server"
+  | "tool"
+  | "status"
+  | "modified"
+  | "originalInput"
+  | "output"
+  | "error"
+> & {
+  // The model's arguments, when the user edited them
+  originalInput?: unknown;
+  output?: unknown;
+  error?: string;
+};
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 100;
+export const MAX_AUDIT_PAGE_SIZE = 1000;
+
+// Rows an export contains at most, newest first
+export const MAX_AUDIT_EXPORT_ROWS = 10_000;
+
+// Entries older than this are removed as new ones are recorded
+export const AUDIT_LOG_RETENTION = 90 * 24 * 60 * 60 * 1000;
+
+const MAX_OUTPUT_LENGTH = 10_000;
+
+/**
+ * A time from a query parameter: milliseconds since the epoch, or a date
+ * Date.parse understands (e.g. 2025-01-31 or 2025-01-31T12:00:00Z)
+ */
+function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Read audit log filters from request query parameters
+ * (tool, server, source, decision, status, actor, workflowId, since, until,
+ * cursor, limit). Unknown values for the enumerated filters are ignored
+ */
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const oneOf = <T extends string>(name: string, values: T[]) => {
+    const value = text(name) as T | undefined;
+    return value && values.includes(value) ? value : undefined;
+  };
+  const limit = Number.parseInt(params.get("limit") ?? "", 10);
+
+  return {
+    tool: text("tool"),
+    server: text("server"),
+    source: oneOf("source", AUDIT_SOURCES),
+    decision: oneOf("decision", AUDIT_DECISIONS),
+    status: oneOf("status", AUDIT_STATUSES),
+    actor: text("actor"),
+    workflowId: text("workflowId"),
+    since: parseTime(text("since")),
+    until: parseTime(text("until")),
+    cursor: text("cursor"),
+    limit: Number.isNaN(limit)
+      ? DEFAULT_AUDIT_PAGE_SIZE
+      : Math.min(Math.max(limit, 1), MAX_AUDIT_PAGE_SIZE)
+  };
+}
+
+/**
+ * A tool's result as stored in the audit log: JSON without secrets, cut to
+ * a length that keeps rows small
+ */
+export function auditOutput(output: unknown): string | null {
+  if (output === undefined) return null;
+  let text: string;
+  try {
+    text = typeof output === "string" ? output : JSON.stringify(output);
+  } catch {
+    text = String(output);
+  }
+  text = redactSecrets(text);
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH)}…`
+    : text;
+}
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  "id",
+  "startedAt",
+  "durationMs",
+  "source",
+  "workflowId",
+  "toolCallId",
+  "toolName",
+  "server",
+  "tool",
+  "decision",
+  "actor",
+  "status",
+  "input",
+  "modified",
+  "originalInput",
+  "output",
+  "error"
+];
+
+function csvField(entry: AuditLogEntry, column: keyof AuditLogEntry): string {
+  const value = entry[column];
+  let text: string;
+  if (value === null || value === undefined) {
+    text = "";
+  } else if (column === "startedAt") {
+    text = new Date(value as number).toISOString();
+  } else if (column === "input" || column === "originalInput") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  // Keep spreadsheets from running values that look like formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Audit log entries as CSV with a header row; inputs are JSON and times are
+ * ISO 8601
+ */
+export function toAuditCsv(entries: AuditLogEntry[]): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => csvField(entry, column)).join(",")
+    )
+  ]
+    .map((line) => `${line}\r\n`)
+    .join("");
+}
+
+/**
+ * Audit log entries as JSON Lines, one entry per line
+ */
+export function toAuditJsonl(entries: AuditLogEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
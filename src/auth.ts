@@ -0,0 +1,266 @@
+/**
+ * User identity for agent routes
+ *
+ * Requests are authenticated with Cloudflare Access: the Worker validates the
+ * JWT Access adds to every request it lets through, and maps the user to
+ * their own Chat and TaskManager instances. Agent routes are rejected unless
+ * they name the signed-in user's instance.
+ *
+ * Local development can set ALLOW_ANONYMOUS="true" instead, which lets any
+ * request use any instance ("default" unless another name is given).
+ */
+
+import type { AuthSession, AuthUser } from "./shared";
+
+export interface AuthEnv {
+  // Access team domain, e.g. "acme.cloudflareaccess.com"
+  ACCESS_TEAM_DOMAIN?: string;
+  // Application Audience (AUD) tag of the Access application
+  ACCESS_AUD?: string;
+  ALLOW_ANONYMOUS?: string;
+}
+
+export const ANONYMOUS_AGENT_NAME = "default";
+
+// Access signing keys are rotated every six weeks; refetch them hourly
+const ACCESS_KEYS_MAX_AGE = 60 * 60 * 1000;
+
+// Allowed difference between our clock and Access when checking exp and nbf
+const CLOCK_SKEW_SECONDS = 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const accessKeys = new Map<
+  string,
+  { keys: Map<string, CryptoKey>; fetchedAt: number }
+>();
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function isAccessConfigured(env: AuthEnv) {
+  return !!env.ACCESS_TEAM_DOMAIN && !!env.ACCESS_AUD;
+}
+
+function isAnonymousAllowed(env: AuthEnv) {
+  return env.ALLOW_ANONYMOUS === "true";
+}
+
+/**
+ * Get the team's Access signing keys by key ID
+ * Cached per team; `refresh` forces a refetch, e.g. for an unknown key ID
+ */
+async function getAccessKeys(teamDomain: string, refresh = false) {
+  const cached = accessKeys.get(teamDomain);
+  if (
+    cached &&
+    !refresh &&
+    Date.now() - cached.fetchedAt < ACCESS_KEYS_MAX_AGE
+  ) {
+    return cached.keys;
+  }
+
+  const response = await fetch(`https://${teamDomain}/cdn-cgi/access/certs`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Access keys: ${response.status}`);
+  }
+  const { keys: jwks } = (await response.json()) as {
+    keys: (JsonWebKey & { kid: string })[];
+  };
+
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of jwks) {
+    keys.set(
+      jwk.kid,
+      await crypto.subtle.importKey(
+        "jwk",
+        jwk,
+        { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+        false,
+        ["verify"]
+      )
+    );
+  }
+  accessKeys.set(teamDomain, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+/**
+ * Verify a Cloudflare Access JWT and return its claims
+ * Returns null when the signature, issuer, audience or lifetime is invalid
+ */
+export async function verifyAccessJwt(
+  token: string,
+  env: AuthEnv
+): Promise<{ sub: string; email?: string } | null> {
+  const teamDomain = env.ACCESS_TEAM_DOMAIN!;
+  const [headerPart, payloadPart, signaturePart] = token.split(".");
+  if (!headerPart || !payloadPart || !signaturePart) {
+    return null;
+  }
+
+  let header: { alg?: string; kid?: string };
+  let payload: {
+    sub?: string;
+    email?: string;
+    iss?: string;
+    aud?: string | string[];
+    exp?: number;
+    nbf?: number;
+  };
+  try {
+    header = JSON.parse(decoder.decode(base64UrlDecode(headerPart)));
+    payload = JSON.parse(decoder.decode(base64UrlDecode(payloadPart)));
+  } catch {
+    return null;
+  }
+  if (header.alg !== "RS256" || !header.kid) {
+    return null;
+  }
+
+  let key = (await getAccessKeys(teamDomain)).get(header.kid);
+  if (!key) {
+    key = (await getAccessKeys(teamDomain, true)).get(header.kid);
+  }
+  if (!key) {
+    return null;
+  }
+
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    base64UrlDecode(signaturePart),
+    encoder.encode(`${headerPart}.${payloadPart}`)
+  );
+  if (!valid) {
+    return null;
+  }
+
+  const now = Date.now() / 1000;
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (
+    payload.iss !== `https://${teamDomain}` ||
+    !audiences.includes(env.ACCESS_AUD) ||
+    !payload.sub ||
+    typeof payload.exp !== "number" ||
+    payload.exp < now - CLOCK_SKEW_SECONDS ||
+    (typeof payload.nbf === "number" && payload.nbf > now + CLOCK_SKEW_SECONDS)
+  ) {
+    return null;
+  }
+
+  return { sub: payload.sub, email: payload.email };
+}
+
+/**
+ * Name of a user's agent instances, derived from their Access user ID so it
+ * is stable across sessions and safe to use in URLs
+ */
+export async function agentNameForUser(userId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(userId));
+  const hex = [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `user-${hex.slice(0, 32)}`;
+}
+
+function accessToken(request: Request): string | null {
+  const header = request.headers.get("Cf-Access-Jwt-Assertion");
+  if (header) {
+    return header;
+  }
+  // Browsers also send the token in the CF_Authorization cookie
+  const cookie = request.headers.get("Cookie") ?? "";
+  const match = cookie.match(/(?:^|;\s*)CF_Authorization=([^;]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Get the user a request is made by, or null when it is not authenticated
+ */
+export async function authenticateRequest(
+  request: Request,
+  env: AuthEnv
+): Promise<AuthUser | null> {
+  if (!isAccessConfigured(env)) {
+    return null;
+  }
+  const token = accessToken(request);
+  if (!token) {
+    return null;
+  }
+
+  const claims = await verifyAccessJwt(token, env);
+  if (!claims) {
+    return null;
+  }
+  return {
+    id: claims.sub,
+    email: claims.email ?? null,
+    agentName: await agentNameForUser(claims.sub)
+  };
+}
+
+/**
+ * Serve GET /auth/session: the signed-in user and the agent name to use
+ */
+export async function handleSessionRequest(
+  request: Request,
+  env: AuthEnv
+): Promise<Response> {
+  const user = await authenticateRequest(request, env);
+  if (user) {
+    return Response.json({
+      user,
+      agentName: user.agentName
+    } satisfies AuthSession);
+  }
+  if (isAnonymousAllowed(env)) {
+    return Response.json({
+      user: null,
+      agentName: ANONYMOUS_AGENT_NAME
+    } satisfies AuthSession);
+  }
+  return Response.json({ error: "Not signed in" }, { status: 401 });
+}
+
+/**
+ * Check that a request to /agents/<agent>/<name>/... may use that instance
+ * Returns an error Response to send back, or null to let the request through
+ */
+export async function authorizeAgentRequest(
+  request: Request,
+  env: AuthEnv
+): Promise<Response | null> {
+  const user = await authenticateRequest(request, env);
+  if (!user) {
+    if (isAnonymousAllowed(env)) {
+      return null;
+    }
+    return Response.json(
+      {
+        error: isAccessConfigured(env)
+          ? "Not signed in"
+          : "Authentication is not configured. Set ACCESS_TEAM_DOMAIN and ACCESS_AUD, or ALLOW_ANONYMOUS=true for local development"
+      },
+      { status: 401 }
+    );
+  }
+
+  const [, , , name] = new URL(request.url).pathname.split("/");
+  if (name !== user.agentName) {
+    return Response.json(
+      { error: "This agent belongs to another user" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
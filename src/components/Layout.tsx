@@ -5,7 +5,7 @@ import { useAgent } from "agents/react";
 import { isToolUIPart } from "ai";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
-import type { tools } from "@/tools";
+import { useSession } from "@/providers/SessionProvider";
 
 // Component imports
 import { Button } from "@/components/button/Button";
@@ -16,6 +16,9 @@ import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
 import { RepositorySelector } from "@/components/repository-selector/RepositorySelector";
+import { ResearchProgress } from "@/components/research-progress/ResearchProgress";
+import useResearchProgress from "@/hooks/useResearchProgress";
+import useToolPolicy from "@/hooks/useToolPolicy";
 
 // Icon imports
 import {
@@ -31,7 +34,7 @@ import {
   Lightning
 } from "@phosphor-icons/react";
 
-interface Repository {
+export interface Repository {
   id: string;
   name: string;
   full_name: string;
@@ -42,38 +45,15 @@ interface Repository {
   private: boolean;
 }
 
-// List of local tools that require human confirmation
-const localToolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation"
-];
-
-// MCP tool patterns that require human confirmation
-const mcpToolsRequiringConfirmation = [
-  "update_issue",
-  "create_issue",
-  "delete_issue",
-  "create_comment",
-  "update_comment",
-  "delete_comment",
-  "assign_issue"
-];
-
-// Check if a tool requires confirmation (works for both local and MCP tools)
-function toolRequiresConfirmation(toolName: string): boolean {
-  // Check local tools
-  if (localToolsRequiringConfirmation.includes(toolName as keyof typeof tools)) {
-    return true;
-  }
-  // Check MCP tool patterns
-  return mcpToolsRequiringConfirmation.some((pattern) =>
-    toolName.toLowerCase().includes(pattern.toLowerCase())
-  );
+// Shared with the sidebar pages through `useOutletContext`
+export interface LayoutContext {
+  selectedRepository: Repository | null;
 }
 
-// Track processed Linear tool completions to avoid duplicate events
-const processedLinearTools = new Set<string>();
-
 export default function Layout() {
+  const { agentName } = useSession();
+  const { requiresConfirmation: toolRequiresConfirmation, getInputSchema } =
+    useToolPolicy(agentName);
   // Theme state
   const [theme, setTheme] = useState<"dark" | "light">(() => {
     const savedTheme = localStorage.getItem("theme");
@@ -140,9 +120,17 @@ export default function Layout() {
 
   // Agent setup
   const agent = useAgent({
-    agent: "chat"
+    agent: "chat",
+    name: agentName
   });
 
+  // Live progress of background research workflows
+  const researchProgress = useResearchProgress(agent);
+  const activeResearch = researchProgress.filter(
+    (workflow) =>
+      workflow.status === "pending" || workflow.status === "in_progress"
+  );
+
   const [agentInput, setAgentInput] = useState("");
   const handleAgentInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -197,82 +185,6 @@ export default function Layout() {
     agent
   });
 
-  // Wrapper to dispatch Linear update events
-  const handleToolResult = (params: {
-    tool: string;
-    toolCallId: string;
-    output: unknown;
-  }) => {
-    console.log("[Layout] Tool result received:", params.tool);
-    addToolResult(params);
-
-    // Check if this is a Linear tool that modifies data
-    const linearModifyingTools = [
-      "issue_write",
-      "sub_issue_write",
-      "list_issues",
-      "update",
-      "create",
-      "assign"
-    ];
-
-    const isLinearTool = linearModifyingTools.some((pattern) =>
-      params.tool.toLowerCase().includes(pattern)
-    );
-    console.log(
-      "[Layout] Is Linear tool?",
-      isLinearTool,
-      "Tool name:",
-      params.tool
-    );
-
-    if (isLinearTool) {
-      console.log(
-        "[Layout] Linear tool executed, dispatching update event:",
-        params.tool
-      );
-      window.dispatchEvent(new CustomEvent("linear-updated"));
-    }
-  };
-
-  // Watch for Linear tool completions
-  useEffect(() => {
-    // Check the latest message for completed Linear tools
-    const latestMessage = agentMessages[agentMessages.length - 1];
-    if (!latestMessage) return;
-
-    latestMessage.parts?.forEach((part) => {
-      if (part.type.startsWith("tool-")) {
-        const toolName = part.type.replace("tool-", "");
-        const toolCallId = (part as any).toolCallId || "";
-        const uniqueId = `${toolCallId}-${toolName}`;
-
-        // Skip if already processed
-        if (processedLinearTools.has(uniqueId)) return;
-
-        const linearModifyingTools = [
-          "issue_write",
-          "sub_issue_write",
-          "update",
-          "create",
-          "assign"
-        ];
-
-        const isLinearTool = linearModifyingTools.some((pattern) =>
-          toolName.toLowerCase().includes(pattern)
-        );
-        const isCompleted = (part as any).state === "output-available";
-
-        if (isLinearTool && isCompleted) {
-          console.log("[Layout] Linear tool completed:", toolName);
-          processedLinearTools.add(uniqueId);
-          console.log("[Layout] Dispatching linear-updated event");
-          window.dispatchEvent(new CustomEvent("linear-updated"));
-        }
-      }
-    });
-  }, [agentMessages]);
-
   // Scroll to bottom on mount
   useEffect(() => {
     scrollToBottom();
@@ -477,16 +389,17 @@ export default function Layout() {
                                   toolUIPart={part}
                                   toolCallId={toolCallId}
                                   needsConfirmation={needsConfirmation}
+                                  inputSchema={getInputSchema(toolName)}
                                   showDebug={showDebug}
                                   onSubmit={({ toolCallId, result }) => {
-                                    handleToolResult({
+                                    addToolResult({
                                       tool: part.type.replace("tool-", ""),
                                       toolCallId,
                                       output: result
                                     });
                                   }}
                                   addToolResult={(toolCallId, result) => {
-                                    handleToolResult({
+                                    addToolResult({
                                       tool: part.type.replace("tool-", ""),
                                       toolCallId,
                                       output: result
@@ -504,6 +417,7 @@ export default function Layout() {
                 </div>
               );
             })}
+            <ResearchProgress workflows={activeResearch} />
             <div ref={messagesEndRef} />
           </div>
 
@@ -591,7 +505,7 @@ export default function Layout() {
 
         {/* Sidebar Content (1/3) - React Router Outlet */}
         <div className="flex-1 overflow-y-auto bg-neutral-50 dark:bg-neutral-950">
-          <Outlet />
+          <Outlet context={{ selectedRepository }} />
         </div>
       </div>
     </div>
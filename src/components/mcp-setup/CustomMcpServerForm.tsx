@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Plus, Trash } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import {
+  MCP_AUTH_TYPES,
+  MCP_TRANSPORT_TYPES,
+  type McpAuthType,
+  type McpTransportType
+} from "@/shared";
+
+/**
+ * Body of POST /mcp-servers
+ */
+export interface McpServerRequest {
+  name: string;
+  serverUrl: string;
+  transport?: McpTransportType;
+  authType?: McpAuthType;
+  authToken?: string;
+  headers?: Record<string, string>;
+}
+
+interface CustomMcpServerFormProps {
+  // Resolves to whether the server was added
+  onSubmit: (server: McpServerRequest) => Promise<boolean>;
+  onCancel: () => void;
+  submitting: boolean;
+}
+
+const TRANSPORT_LABELS: Record<McpTransportType, string> = {
+  auto: "Auto (streamable HTTP, then SSE)",
+  "streamable-http": "Streamable HTTP",
+  sse: "SSE"
+};
+
+const AUTH_LABELS: Record<McpAuthType, string> = {
+  oauth: "OAuth",
+  token: "Personal access token",
+  none: "None"
+};
+
+const inputClasses =
+  "px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100";
+
+/**
+ * Add any MCP server by URL, with its transport, how it authenticates and
+ * extra headers to send
+ */
+export function CustomMcpServerForm({
+  onSubmit,
+  onCancel,
+  submitting
+}: CustomMcpServerFormProps) {
+  const [name, setName] = useState("");
+  const [serverUrl, setServerUrl] = useState("");
+  const [transport, setTransport] = useState<McpTransportType>("auto");
+  const [authType, setAuthType] = useState<McpAuthType>("oauth");
+  const [authToken, setAuthToken] = useState("");
+  const [headers, setHeaders] = useState<{ name: string; value: string }[]>([]);
+
+  const updateHeader = (
+    index: number,
+    header: { name: string; value: string }
+  ) => setHeaders(headers.map((h, i) => (i === index ? header : h)));
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const added = await onSubmit({
+      name: name.trim(),
+      serverUrl: serverUrl.trim(),
+      transport,
+      authType,
+      authToken: authType === "token" ? authToken : undefined,
+      headers: Object.fromEntries(
+        headers
+          .filter((header) => header.name.trim())
+          .map((header) => [header.name.trim(), header.value])
+      )
+    });
+    if (added) {
+      onCancel();
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <form onSubmit={submit} className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Server name"
+            className={`w-40 ${inputClasses}`}
+          />
+          <input
+            type="url"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            placeholder="https://example.com/mcp"
+            aria-label="Server URL"
+            className={`flex-1 min-w-48 ${inputClasses}`}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={transport}
+            onChange={(e) => setTransport(e.target.value as McpTransportType)}
+            aria-label="Transport"
+            className={inputClasses}
+          >
+            {MCP_TRANSPORT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {TRANSPORT_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={authType}
+            onChange={(e) => setAuthType(e.target.value as McpAuthType)}
+            aria-label="Authentication"
+            className={inputClasses}
+          >
+            {MCP_AUTH_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {AUTH_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {authType === "token" && (
+          <input
+            type="password"
+            value={authToken}
+            onChange={(e) => setAuthToken(e.target.value)}
+            placeholder="Token, sent as a Bearer token"
+            aria-label="Token"
+            className={`w-full ${inputClasses}`}
+          />
+        )}
+
+        <div className="space-y-2">
+          {headers.map((header, index) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: rows have no ID and are only appended or removed
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={header.name}
+                onChange={(e) =>
+                  updateHeader(index, { ...header, name: e.target.value })
+                }
+                placeholder="Header"
+                aria-label="Header name"
+                className={`w-40 ${inputClasses}`}
+              />
+              <input
+                type="password"
+                value={header.value}
+                onChange={(e) =>
+                  updateHeader(index, { ...header, value: e.target.value })
+                }
+                placeholder="Value"
+                aria-label="Header value"
+                className={`flex-1 ${inputClasses}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                shape="square"
+                onClick={() =>
+                  setHeaders(headers.filter((_, i) => i !== index))
+                }
+                aria-label="Remove header"
+              >
+                <Trash size={16} />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setHeaders([...headers, { name: "", value: "" }])}
+          >
+            <Plus size={14} />
+            Add header
+          </Button>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            disabled={
+              submitting ||
+              !name.trim() ||
+              !serverUrl.trim() ||
+              (authType === "token" && !authToken.trim())
+            }
+          >
+            {authType === "oauth" ? "Add and authorize" : "Add server"}
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
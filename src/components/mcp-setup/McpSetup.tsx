@@ -2,20 +2,46 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { Loader } from "@/components/loader/Loader";
+import {
+  CustomMcpServerForm,
+  type McpServerRequest
+} from "@/components/mcp-setup/CustomMcpServerForm";
+import {
+  McpToolBrowser,
+  type McpTool
+} from "@/components/mcp-setup/McpToolBrowser";
 
 interface McpServer {
   id: string;
   name: string;
-  url: string;
-  state: "authenticating" | "connecting" | "ready" | "discovering" | "failed";
-  authUrl?: string;
-  tools?: Array<{ name: string; description: string }>;
+  server_url: string;
+  state:
+    | "authenticating"
+    | "connecting"
+    | "connected"
+    | "ready"
+    | "discovering"
+    | "failed";
+  auth_url?: string | null;
+  // Why the last OAuth callback failed
+  error?: string;
 }
 
 interface McpSetupProps {
   agentId: string;
 }
 
+// How often to check a server's state while it's being authorized, and for
+// how long before giving up
+const AUTHORIZE_POLL_INTERVAL = 1500;
+const AUTHORIZE_TIMEOUT = 5 * 60 * 1000;
+
+const openAuthorizeWindow = (url = "") =>
+  window.open(url, "mcp-authorize", "popup,width=600,height=720");
+
+// Key in `errors` for the add custom server form
+const CUSTOM_SERVER_FORM = "custom-server-form";
+
 export function McpSetup({ agentId }: McpSetupProps) {
   const [servers, setServers] = useState<McpServer[]>([]);
   const [loading, setLoading] = useState(true);
@@ -23,12 +49,23 @@ export function McpSetup({ agentId }: McpSetupProps) {
   const [hoveredServer, setHoveredServer] = useState<string | null>(null);
   const [githubToken, setGithubToken] = useState<string>("");
   const [linearToken, setLinearToken] = useState<string>("");
+  // Connection errors by server name, shown on the server's card
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Discovered tools of every connected server
+  const [tools, setTools] = useState<(McpTool & { serverId: string })[]>([]);
+  const [addingCustom, setAddingCustom] = useState(false);
+
+  const setServerError = (name: string, error: string | null) =>
+    setErrors((current) => {
+      const { [name]: _, ...rest } = current;
+      return error ? { ...rest, [name]: error } : rest;
+    });
 
   useEffect(() => {
     fetchServers();
   }, [agentId]);
 
-  const fetchServers = async () => {
+  const fetchServers = async (): Promise<McpServer[]> => {
     console.log(
       `[UI] Fetching servers from /agents/chat/${agentId}/mcp-servers`
     );
@@ -38,6 +75,7 @@ export function McpSetup({ agentId }: McpSetupProps) {
       if (response.ok) {
         const data = (await response.json()) as {
           servers?: Record<string, McpServer> | McpServer[];
+          tools?: (McpTool & { serverId: string })[];
         };
         console.log(`[UI] Servers data:`, data);
 
@@ -57,45 +95,108 @@ export function McpSetup({ agentId }: McpSetupProps) {
 
         console.log(`[UI] Converted servers to array:`, serversArray);
         setServers(serversArray);
+        setTools(data.tools ?? []);
+        return serversArray;
       }
     } catch (error) {
       console.error("Failed to fetch MCP servers:", error);
     } finally {
       setLoading(false);
     }
+    return [];
   };
 
-  const connectServer = async (name: string, url: string) => {
-    console.log(`[UI] ====== connectServer called ======`);
-    console.log(`[UI] name: ${name}, url: ${url}`);
-
-    // Get the appropriate token for this server
-    const token =
-      name === "GitHub"
-        ? githubToken
-        : name === "Linear"
-          ? linearToken
-          : undefined;
-
-    console.log(`[UI] Connecting to ${name}`);
-    console.log(`[UI] Token present: ${!!token}`);
-
-    if (!token) {
-      alert(`Please enter a ${name} Personal Access Token first`);
-      return;
+  /**
+   * Poll a server being authorized until it's ready, fails, or the
+   * authorization window is closed without finishing
+   */
+  const waitForAuthorization = async (
+    name: string,
+    serverId: string,
+    authorizeWindow: Window | null
+  ) => {
+    const deadline = Date.now() + AUTHORIZE_TIMEOUT;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, AUTHORIZE_POLL_INTERVAL)
+      );
+      const windowClosed = !!authorizeWindow?.closed;
+      const server = (await fetchServers()).find((s) => s.id === serverId);
+      if (!server) {
+        setServerError(name, "The server was removed");
+        return;
+      }
+      if (server.error || server.state === "failed") {
+        setServerError(name, server.error || "Failed to connect");
+        return;
+      }
+      if (server.state === "ready") {
+        setServerError(name, null);
+        return;
+      }
+      // The callback page closes itself on success, so keep polling a
+      // little while after that until the connection is ready
+      if (windowClosed && server.state === "authenticating") {
+        setServerError(
+          name,
+          "The authorization window was closed before finishing"
+        );
+        return;
+      }
     }
+    setServerError(name, "Timed out waiting for authorization");
+  };
+
+  // Reopen the authorization page for a server still waiting on OAuth
+  const authorizeServer = async (server: McpServer) => {
+    if (!server.auth_url) return;
+    setServerError(server.name, null);
+    setConnecting(server.name);
+    try {
+      await waitForAuthorization(
+        server.name,
+        server.id,
+        openAuthorizeWindow(server.auth_url)
+      );
+    } finally {
+      setConnecting(null);
+    }
+  };
+
+  /**
+   * Add a server and, when it uses OAuth, open its authorization page and
+   * wait for it in the background. Errors adding it go to `errorKey` (the
+   * server's card by default); resolves to whether the server was added
+   */
+  const connectServer = async (
+    server: McpServerRequest,
+    errorKey = server.name
+  ): Promise<boolean> => {
+    const { name } = server;
+    const authType = server.authType ?? (server.authToken ? "token" : "oauth");
+    console.log(`[UI] ====== connectServer called ======`);
+    console.log(`[UI] name: ${name}, url: ${server.serverUrl}`);
+    console.log(`[UI] Connecting to ${name} with ${authType} auth`);
 
     // Check if already connected
     const serverList = Array.isArray(servers) ? servers : [];
-    const alreadyConnected = serverList.find((s) => s.name === name);
+    const alreadyConnected = serverList.find(
+      (s) => s.name.toLowerCase() === name.toLowerCase()
+    );
     if (alreadyConnected) {
-      alert(
-        `${name} is already connected! Disconnect it first if you want to reconnect.`
+      setServerError(
+        errorKey,
+        `${name} is already connected. Disconnect it first if you want to reconnect.`
       );
-      return;
+      return false;
     }
 
+    setServerError(errorKey, null);
     setConnecting(name);
+    // Open the authorization window while still handling the click, so
+    // popup blockers allow it; it's pointed at the authorization URL once
+    // the server returns one
+    const authorizeWindow = authType === "oauth" ? openAuthorizeWindow() : null;
     try {
       console.log(
         `[UI] Sending request to /agents/chat/${agentId}/mcp-servers`
@@ -103,47 +204,54 @@ export function McpSetup({ agentId }: McpSetupProps) {
       const response = await fetch(`/agents/chat/${agentId}/mcp-servers`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, serverUrl: url, authToken: token })
+        body: JSON.stringify(server)
       });
 
       console.log(`[UI] Response status: ${response.status}`);
 
-      if (response.ok) {
-        const data = (await response.json()) as {
-          serverId?: string;
-          authUrl?: string;
-          error?: string;
-        };
-        console.log(`[UI] Response data:`, data);
-
-        if (data.error) {
-          throw new Error(data.error);
-        }
+      const data = (await response.json().catch(() => ({}))) as {
+        serverId?: string;
+        authUrl?: string;
+        error?: string;
+      };
+      if (!response.ok || data.error) {
+        throw new Error(data.error || "Connection failed");
+      }
 
-        // If authUrl is returned but we provided a token, ignore it
-        // The server should connect with the Bearer token
-        if (data.authUrl && !token) {
-          console.log(`[UI] Opening auth URL: ${data.authUrl}`);
-          // Only open OAuth if no token was provided
-          window.open(data.authUrl, "_blank");
+      if (data.authUrl && data.serverId) {
+        console.log(`[UI] Opening auth URL: ${data.authUrl}`);
+        if (authorizeWindow) {
+          authorizeWindow.location.href = data.authUrl;
         }
-        // Refresh to see if connection succeeded
-        console.log(`[UI] Fetching updated server list`);
         await fetchServers();
-      } else {
-        const errorText = await response.text();
-        console.error(`[UI] Error response:`, errorText);
-        throw new Error(errorText || "Connection failed");
+        // The server's card shows it connecting until authorization settles
+        waitForAuthorization(
+          name,
+          data.serverId,
+          authorizeWindow ?? openAuthorizeWindow(data.authUrl)
+        ).finally(() => setConnecting(null));
+        return true;
       }
+
+      authorizeWindow?.close();
+      // Refresh to see if connection succeeded
+      console.log(`[UI] Fetching updated server list`);
+      await fetchServers();
+      setConnecting(null);
+      return true;
     } catch (error) {
       console.error("[UI] Failed to connect MCP server:", error);
-      alert(`Failed to connect: ${error}`);
-    } finally {
+      authorizeWindow?.close();
+      setServerError(
+        errorKey,
+        error instanceof Error ? error.message : "Connection failed"
+      );
       setConnecting(null);
+      return false;
     }
   };
 
-  const disconnectServer = async (serverId: string) => {
+  const disconnectServer = async (name: string, serverId: string) => {
     console.log(`[UI] Disconnecting server ${serverId}`);
     try {
       const response = await fetch(
@@ -156,15 +264,16 @@ export function McpSetup({ agentId }: McpSetupProps) {
 
       if (response.ok) {
         console.log(`[UI] Successfully disconnected, refreshing server list`);
+        setServerError(name, null);
         await fetchServers();
       } else {
         const errorText = await response.text();
         console.error(`[UI] Failed to disconnect:`, errorText);
-        alert(`Failed to disconnect: ${errorText}`);
+        setServerError(name, `Failed to disconnect: ${errorText}`);
       }
     } catch (error) {
       console.error("Failed to disconnect MCP server:", error);
-      alert(`Failed to disconnect: ${error}`);
+      setServerError(name, `Failed to disconnect: ${error}`);
     }
   };
 
@@ -191,6 +300,12 @@ export function McpSetup({ agentId }: McpSetupProps) {
 
   // Ensure servers is an array
   const serverList = Array.isArray(servers) ? servers : [];
+  const customServers = serverList.filter(
+    (server) =>
+      !predefinedServers.some((predefined) => predefined.name === server.name)
+  );
+  const toolsOf = (serverId: string) =>
+    tools.filter((tool) => tool.serverId === serverId);
 
   const capitalizeState = (state: string) => {
     return state.charAt(0).toUpperCase() + state.slice(1);
@@ -213,6 +328,8 @@ export function McpSetup({ agentId }: McpSetupProps) {
           const isConnecting = connecting === server.name;
           const isHovered = hoveredServer === server.name;
           const needsToken = !connected;
+          const token = server.name === "GitHub" ? githubToken : linearToken;
+          const error = errors[server.name];
 
           // State machine for button appearance
           type ButtonState =
@@ -221,6 +338,7 @@ export function McpSetup({ agentId }: McpSetupProps) {
             | { type: "ready" }
             | { type: "ready-hovered" }
             | { type: "failed" }
+            | { type: "authenticating" }
             | { type: "in-progress" };
 
           const getButtonState = (): ButtonState => {
@@ -230,6 +348,8 @@ export function McpSetup({ agentId }: McpSetupProps) {
               return { type: "ready-hovered" };
             if (connected.state === "ready") return { type: "ready" };
             if (connected.state === "failed") return { type: "failed" };
+            if (connected.state === "authenticating" && connected.auth_url)
+              return { type: "authenticating" };
             return { type: "in-progress" };
           };
 
@@ -238,9 +358,10 @@ export function McpSetup({ agentId }: McpSetupProps) {
           const getButtonProps = (state: ButtonState) => {
             switch (state.type) {
               case "disconnected":
+              case "authenticating":
                 return {
-                  text: "Connect",
-                  variant: "secondary" as const,
+                  text: "Authorize",
+                  variant: "primary" as const,
                   className: ""
                 };
               case "connecting":
@@ -311,21 +432,35 @@ export function McpSetup({ agentId }: McpSetupProps) {
                     <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
                       {server.description}
                     </p>
-                    {connected?.tools && connected.tools.length > 0 && (
-                      <p className="text-sm text-neutral-500 dark:text-neutral-500 mt-2">
-                        {connected.tools.length} tools available
-                      </p>
+                    {connected && (
+                      <McpToolBrowser tools={toolsOf(connected.id)} />
                     )}
                   </div>
                   <div className="flex gap-2">
+                    {buttonState.type === "authenticating" && connected && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          disconnectServer(connected.name, connected.id)
+                        }
+                      >
+                        Cancel
+                      </Button>
+                    )}
                     <Button
                       size="sm"
                       variant={buttonProps.variant}
                       className={buttonProps.className}
                       onClick={() =>
-                        connected
-                          ? disconnectServer(connected.id)
-                          : connectServer(server.name, server.url)
+                        !connected
+                          ? connectServer({
+                              name: server.name,
+                              serverUrl: server.url
+                            })
+                          : buttonState.type === "authenticating"
+                            ? authorizeServer(connected)
+                            : disconnectServer(connected.name, connected.id)
                       }
                       onMouseEnter={() => setHoveredServer(server.name)}
                       onMouseLeave={() => setHoveredServer(null)}
@@ -336,28 +471,48 @@ export function McpSetup({ agentId }: McpSetupProps) {
                   </div>
                 </div>
 
+                {error && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {error}
+                  </p>
+                )}
+
                 {needsToken && (
                   <div className="pt-2">
                     <label className="block text-sm font-medium mb-1">
                       {server.name === "GitHub"
-                        ? "GitHub Personal Access Token"
-                        : "Linear API Key"}
+                        ? "Or use a GitHub Personal Access Token"
+                        : "Or use a Linear API Key"}
                     </label>
-                    <input
-                      type="password"
-                      value={
-                        server.name === "GitHub" ? githubToken : linearToken
-                      }
-                      onChange={(e) =>
-                        server.name === "GitHub"
-                          ? setGithubToken(e.target.value)
-                          : setLinearToken(e.target.value)
-                      }
-                      placeholder={
-                        server.name === "GitHub" ? "ghp_..." : "lin_api_..."
-                      }
-                      className="w-full px-3 py-2 border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
-                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="password"
+                        value={token}
+                        onChange={(e) =>
+                          server.name === "GitHub"
+                            ? setGithubToken(e.target.value)
+                            : setLinearToken(e.target.value)
+                        }
+                        placeholder={
+                          server.name === "GitHub" ? "ghp_..." : "lin_api_..."
+                        }
+                        className="flex-1 px-3 py-2 border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                      />
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() =>
+                          connectServer({
+                            name: server.name,
+                            serverUrl: server.url,
+                            authToken: token
+                          })
+                        }
+                        disabled={isConnecting || !token.trim()}
+                      >
+                        Connect with token
+                      </Button>
+                    </div>
                     <p className="text-xs text-neutral-500 mt-1">
                       Create a token at{" "}
                       <a
@@ -382,6 +537,96 @@ export function McpSetup({ agentId }: McpSetupProps) {
           );
         })}
       </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Custom Servers</h3>
+          {!addingCustom && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                setServerError(CUSTOM_SERVER_FORM, null);
+                setAddingCustom(true);
+              }}
+            >
+              Add custom server
+            </Button>
+          )}
+        </div>
+
+        {customServers.map((server) => (
+          <Card key={server.id} className="p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold">{server.name}</h4>
+                  <span
+                    className={`text-sm ${
+                      server.state === "ready"
+                        ? "text-green-600 dark:text-green-400"
+                        : server.state === "failed"
+                          ? "text-red-600 dark:text-red-400"
+                          : "text-yellow-600 dark:text-yellow-400"
+                    }`}
+                  >
+                    • {capitalizeState(server.state)}
+                  </span>
+                </div>
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-1 break-all">
+                  {server.server_url}
+                </p>
+                {errors[server.name] && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                    {errors[server.name]}
+                  </p>
+                )}
+                <McpToolBrowser tools={toolsOf(server.id)} />
+              </div>
+              <div className="flex gap-2">
+                {server.state === "authenticating" && server.auth_url && (
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    onClick={() => authorizeServer(server)}
+                    disabled={connecting === server.name}
+                  >
+                    Authorize
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => disconnectServer(server.name, server.id)}
+                >
+                  {server.state === "authenticating" ? "Cancel" : "Disconnect"}
+                </Button>
+              </div>
+            </div>
+          </Card>
+        ))}
+
+        {addingCustom && (
+          <>
+            <CustomMcpServerForm
+              onSubmit={(server) => connectServer(server, CUSTOM_SERVER_FORM)}
+              onCancel={() => setAddingCustom(false)}
+              submitting={connecting !== null}
+            />
+            {errors[CUSTOM_SERVER_FORM] && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {errors[CUSTOM_SERVER_FORM]}
+              </p>
+            )}
+          </>
+        )}
+
+        {customServers.length === 0 && !addingCustom && (
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Connect any other MCP server by URL
+          </p>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { CaretDown, CaretRight } from "@phosphor-icons/react";
+
+export interface McpTool {
+  name: string;
+  description?: string;
+}
+
+interface McpToolBrowserProps {
+  tools: McpTool[];
+}
+
+/**
+ * Collapsible list of the tools an MCP server exposes, with a filter for
+ * servers that have many
+ */
+export function McpToolBrowser({ tools }: McpToolBrowserProps) {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState("");
+
+  if (tools.length === 0) {
+    return null;
+  }
+
+  const query = filter.trim().toLowerCase();
+  const visibleTools = query
+    ? tools.filter(
+        (tool) =>
+          tool.name.toLowerCase().includes(query) ||
+          tool.description?.toLowerCase().includes(query)
+      )
+    : tools;
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-sm text-neutral-500 hover:text-neutral-900 dark:hover:text-neutral-100"
+      >
+        {open ? <CaretDown size={12} /> : <CaretRight size={12} />}
+        {tools.length} tools available
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {tools.length > 5 && (
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter tools"
+              className="w-full px-3 py-1.5 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+            />
+          )}
+          <ul className="max-h-72 overflow-y-auto divide-y divide-neutral-200 dark:divide-neutral-800 border border-neutral-200 dark:border-neutral-800 rounded-md">
+            {visibleTools.map((tool) => (
+              <li key={tool.name} className="px-3 py-2">
+                <p className="text-sm font-mono">{tool.name}</p>
+                {tool.description && (
+                  <p className="text-xs text-neutral-600 dark:text-neutral-400 mt-0.5 whitespace-pre-line">
+                    {tool.description}
+                  </p>
+                )}
+              </li>
+            ))}
+            {visibleTools.length === 0 && (
+              <li className="px-3 py-2 text-sm text-neutral-500">
+                No tools match "{filter}"
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
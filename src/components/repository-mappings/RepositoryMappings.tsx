@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback } from "react";
+import { Trash } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import {
+  REPOSITORY_MAPPING_FIELDS,
+  type RepositoryMapping,
+  type RepositoryMappingField
+} from "@/shared";
+
+interface RepositoryMappingsProps {
+  agentId: string;
+}
+
+const FIELD_LABELS: Record<RepositoryMappingField, string> = {
+  project: "Project",
+  team: "Team",
+  label: "Label"
+};
+
+const inputClasses =
+  "px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100";
+
+interface MappingDraft {
+  field: RepositoryMappingField;
+  value: string;
+  // Comma-separated full names
+  repositories: string;
+}
+
+const EMPTY_DRAFT: MappingDraft = {
+  field: "project",
+  value: "",
+  repositories: ""
+};
+
+/**
+ * Map issue tracker teams, projects and labels to GitHub repositories, so
+ * research for a task defaults to the right repositories
+ */
+export function RepositoryMappings({ agentId }: RepositoryMappingsProps) {
+  const [mappings, setMappings] = useState<RepositoryMapping[]>([]);
+  const [draft, setDraft] = useState<MappingDraft>(EMPTY_DRAFT);
+  // ID of the mapping being edited, if any
+  const [editing, setEditing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMappings = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/agents/chat/${agentId}/repository-mappings`
+      );
+      if (response.ok) {
+        setMappings((await response.json()) as RepositoryMapping[]);
+      }
+    } catch (err) {
+      console.error("Failed to fetch repository mappings:", err);
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchMappings();
+  }, [fetchMappings]);
+
+  const saveMapping = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editing
+          ? `/agents/chat/${agentId}/repository-mappings/${editing}`
+          : `/agents/chat/${agentId}/repository-mappings`,
+        {
+          method: editing ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            field: draft.field,
+            value: draft.value,
+            repositories: draft.repositories.split(",")
+          })
+        }
+      );
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        throw new Error(errorData.error || "Failed to save mapping");
+      }
+      setDraft(EMPTY_DRAFT);
+      setEditing(null);
+      await fetchMappings();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save mapping");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteMapping = async (mappingId: string) => {
+    try {
+      const response = await fetch(
+        `/agents/chat/${agentId}/repository-mappings/${mappingId}`,
+        { method: "DELETE" }
+      );
+      if (response.ok) {
+        await fetchMappings();
+      }
+    } catch (err) {
+      console.error("Failed to delete repository mapping:", err);
+    }
+  };
+
+  const editMapping = (mapping: RepositoryMapping) => {
+    setEditing(mapping.id);
+    setError(null);
+    setDraft({
+      field: mapping.field,
+      value: mapping.value,
+      repositories: mapping.repositories.join(", ")
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setError(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Repository Mappings</h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Research for a task uses the repositories its project, team or label
+          maps to
+        </p>
+      </div>
+
+      {mappings.length > 0 && (
+        <Card className="p-0 divide-y divide-neutral-200 dark:divide-neutral-800">
+          {mappings.map((mapping) => (
+            <div
+              key={mapping.id}
+              className="p-3 flex items-center justify-between gap-4"
+            >
+              <button
+                type="button"
+                onClick={() => editMapping(mapping)}
+                className="text-left text-sm flex-1 min-w-0"
+              >
+                <span className="text-neutral-500">
+                  {FIELD_LABELS[mapping.field]}
+                </span>{" "}
+                <span className="font-medium">{mapping.value}</span>
+                <span className="text-neutral-500"> → </span>
+                <span className="break-all">
+                  {mapping.repositories.join(", ")}
+                </span>
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                shape="square"
+                onClick={() => deleteMapping(mapping.id)}
+                aria-label={`Delete mapping for ${mapping.value}`}
+              >
+                <Trash size={16} />
+              </Button>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      <Card className="p-4">
+        <form onSubmit={saveMapping} className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={draft.field}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  field: e.target.value as RepositoryMappingField
+                })
+              }
+              className={inputClasses}
+            >
+              {REPOSITORY_MAPPING_FIELDS.map((field) => (
+                <option key={field} value={field}>
+                  {FIELD_LABELS[field]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.value}
+              onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+              placeholder={`${FIELD_LABELS[draft.field]} name`}
+              className={`flex-1 min-w-32 ${inputClasses}`}
+            />
+          </div>
+          <input
+            type="text"
+            value={draft.repositories}
+            onChange={(e) =>
+              setDraft({ ...draft, repositories: e.target.value })
+            }
+            placeholder="owner/repo, owner/other-repo"
+            className={`w-full ${inputClasses}`}
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={cancelEdit}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="submit"
+              variant="primary"
+              size="sm"
+              disabled={
+                saving || !draft.value.trim() || !draft.repositories.trim()
+              }
+            >
+              {editing ? "Save mapping" : "Add mapping"}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import {
   GitBranch
 } from "@phosphor-icons/react";
 import { Card } from "@/components/card/Card";
+import { useSession } from "@/providers/SessionProvider";
 
 interface Repository {
   id: string;
@@ -27,6 +28,7 @@ export function RepositorySelector({
   onRepositorySelect,
   selectedRepository
 }: RepositorySelectorProps) {
+  const { agentName } = useSession();
   const [isOpen, setIsOpen] = useState(false);
   const [repos, setRepos] = useState<Repository[]>([]);
   const [loading, setLoading] = useState(false);
@@ -62,10 +64,10 @@ export function RepositorySelector({
   const fetchRepositories = async () => {
     setLoading(true);
     console.log(
-      "[RepositorySelector] Fetching repositories from /agents/chat/default/repositories"
+      `[RepositorySelector] Fetching repositories from /agents/chat/${agentName}/repositories`
     );
     try {
-      const response = await fetch("/agents/chat/default/repositories");
+      const response = await fetch(`/agents/chat/${agentName}/repositories`);
       console.log("[RepositorySelector] Response status:", response.status);
       if (response.ok) {
         const data = (await response.json()) as Repository[];
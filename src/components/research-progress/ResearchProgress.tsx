@@ -0,0 +1,70 @@
+import {
+  CheckCircle,
+  FileText,
+  MagnifyingGlass,
+  WarningCircle
+} from "@phosphor-icons/react";
+import { Card } from "@/components/card/Card";
+import { Loader } from "@/components/loader/Loader";
+import type { ResearchProgress as ResearchProgressState } from "@/hooks/useResearchProgress";
+
+interface ResearchProgressProps {
+  workflows: ResearchProgressState[];
+  // How many of the most recent events to show per workflow
+  maxEvents?: number;
+}
+
+export function ResearchProgress({
+  workflows,
+  maxEvents = 6
+}: ResearchProgressProps) {
+  if (workflows.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {workflows.map((workflow) => {
+        const isRunning =
+          workflow.status === "pending" || workflow.status === "in_progress";
+
+        return (
+          <Card
+            key={workflow.workflowId}
+            className="p-3 rounded-md bg-neutral-100 dark:bg-neutral-900"
+          >
+            <div className="flex items-center gap-2 mb-2">
+              {isRunning ? (
+                <Loader size={14} className="text-[#F48120]" />
+              ) : workflow.status === "failed" ? (
+                <WarningCircle size={14} className="text-red-500" />
+              ) : (
+                <CheckCircle size={14} className="text-green-500" />
+              )}
+              <span className="text-sm font-medium truncate">
+                Researching {workflow.repositories.join(", ")}
+              </span>
+            </div>
+            <ul className="space-y-1">
+              {workflow.events.slice(-maxEvents).map((event) => (
+                <li
+                  key={event.id}
+                  className="flex items-center gap-2 text-xs text-neutral-600 dark:text-neutral-400"
+                >
+                  {event.kind === "tool-call" ? (
+                    event.tool_name?.includes("search") ? (
+                      <MagnifyingGlass size={12} className="flex-shrink-0" />
+                    ) : (
+                      <FileText size={12} className="flex-shrink-0" />
+                    )
+                  ) : (
+                    <span className="w-3 flex-shrink-0 text-center">•</span>
+                  )}
+                  <span className="truncate">{event.message}</span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { Button } from "@/components/button/Button";
+
+/**
+ * The parts of a JSON Schema property the form understands
+ */
+interface SchemaProperty {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+}
+
+type FieldKind = "text" | "textarea" | "number" | "boolean" | "enum" | "json";
+
+interface Field {
+  name: string;
+  kind: FieldKind;
+  required: boolean;
+  description?: string;
+  options?: unknown[];
+}
+
+interface ToolArgumentsFormProps {
+  // JSON Schema of the tool's arguments, when known
+  schema?: Record<string, unknown>;
+  input: unknown;
+  onSubmit: (input: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+const inputClasses =
+  "w-full px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100";
+
+// Longer text gets a textarea rather than a single-line input
+const MAX_INPUT_LENGTH = 80;
+
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Fields for the schema's top-level properties, or none when the schema
+ * doesn't describe an object
+ */
+function getFields(
+  schema: Record<string, unknown> | undefined,
+  input: Record<string, unknown>
+): Field[] {
+  const properties = asObject(schema?.properties) as Record<
+    string,
+    SchemaProperty
+  >;
+  const required = Array.isArray(schema?.required) ? schema.required : [];
+
+  return Object.entries(properties).map(([name, property]) => {
+    // ["string", "null"] is edited as a string
+    const type = [property.type ?? []]
+      .flat()
+      .find((candidate) => candidate !== "null");
+    const value = input[name];
+    let kind: FieldKind = "json";
+    if (Array.isArray(property.enum)) {
+      kind = "enum";
+    } else if (type === "string") {
+      kind =
+        typeof value === "string" &&
+        (value.includes("\n") || value.length > MAX_INPUT_LENGTH)
+          ? "textarea"
+          : "text";
+    } else if (type === "number" || type === "integer") {
+      kind = "number";
+    } else if (type === "boolean") {
+      kind = "boolean";
+    }
+    return {
+      name,
+      kind,
+      required: required.includes(name),
+      description: property.description,
+      options: property.enum
+    };
+  });
+}
+
+/**
+ * What a field shows for a value: checkboxes hold booleans, everything
+ * else the text typed in
+ */
+function toDraft(field: Field, value: unknown): string | boolean {
+  if (field.kind === "boolean") return value === true;
+  if (value === undefined) return "";
+  if (field.kind === "json") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+/**
+ * Read the drafts back into arguments. Returns an error message when one
+ * can't be read; optional fields left empty are omitted
+ */
+function fromDrafts(
+  fields: Field[],
+  drafts: Record<string, string | boolean>,
+  input: Record<string, unknown>
+): Record<string, unknown> | string {
+  // Keep arguments the schema doesn't describe
+  const result: Record<string, unknown> = { ...input };
+
+  for (const field of fields) {
+    const draft = drafts[field.name];
+    delete result[field.name];
+
+    if (typeof draft === "boolean") {
+      result[field.name] = draft;
+      continue;
+    }
+    if (draft.trim() === "" && field.kind !== "text") {
+      if (field.required) return `${field.name} is required`;
+      continue;
+    }
+    if (draft === "" && !field.required) {
+      continue;
+    }
+
+    switch (field.kind) {
+      case "number": {
+        const value = Number(draft);
+        if (Number.isNaN(value)) return `${field.name} must be a number`;
+        result[field.name] = value;
+        break;
+      }
+      case "enum":
+        result[field.name] = field.options?.find(
+          (option) => String(option) === draft
+        );
+        break;
+      case "json":
+        try {
+          result[field.name] = JSON.parse(draft);
+        } catch {
+          return `${field.name} must be valid JSON`;
+        }
+        break;
+      default:
+        result[field.name] = draft;
+    }
+  }
+  return result;
+}
+
+/**
+ * Form for editing a tool call's arguments before approving it, with a
+ * field per property of the tool's input schema. Without a schema the
+ * arguments are edited as JSON
+ */
+export function ToolArgumentsForm({
+  schema,
+  input,
+  onSubmit,
+  onCancel
+}: ToolArgumentsFormProps) {
+  const initialInput = asObject(input);
+  const [fields] = useState(() => getFields(schema, initialInput));
+  const [drafts, setDrafts] = useState<Record<string, string | boolean>>(() =>
+    fields.length > 0
+      ? Object.fromEntries(
+          fields.map((field) => [
+            field.name,
+            toDraft(field, initialInput[field.name])
+          ])
+        )
+      : { "": JSON.stringify(initialInput, null, 2) }
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const setDraft = (name: string, value: string | boolean) => {
+    setDrafts((current) => ({ ...current, [name]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (fields.length === 0) {
+      try {
+        const parsed = JSON.parse(drafts[""] as string);
+        if (asObject(parsed) !== parsed) {
+          setError("Arguments must be a JSON object");
+          return;
+        }
+        onSubmit(parsed);
+      } catch {
+        setError("Arguments must be valid JSON");
+      }
+      return;
+    }
+
+    const result = fromDrafts(fields, drafts, initialInput);
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+    onSubmit(result);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3">
+      {fields.length === 0 && (
+        <textarea
+          value={drafts[""] as string}
+          onChange={(e) => setDraft("", e.target.value)}
+          aria-label="Arguments"
+          rows={8}
+          className={`font-mono ${inputClasses}`}
+        />
+      )}
+
+      {fields.map((field) => {
+        const id = `tool-argument-${field.name}`;
+        const draft = drafts[field.name];
+        return (
+          <div key={field.name} className="space-y-1">
+            <label
+              htmlFor={id}
+              className="flex items-center gap-2 text-xs font-medium text-muted-foreground"
+            >
+              {field.kind === "boolean" && (
+                <input
+                  id={id}
+                  type="checkbox"
+                  checked={draft === true}
+                  onChange={(e) => setDraft(field.name, e.target.checked)}
+                />
+              )}
+              <span className="font-mono">{field.name}</span>
+              {field.required && <span className="text-red-500">*</span>}
+            </label>
+            {field.description && (
+              <p className="text-xs text-neutral-500">{field.description}</p>
+            )}
+
+            {field.kind === "text" && (
+              <input
+                id={id}
+                type="text"
+                value={draft as string}
+                onChange={(e) => setDraft(field.name, e.target.value)}
+                className={inputClasses}
+              />
+            )}
+            {field.kind === "number" && (
+              <input
+                id={id}
+                type="number"
+                value={draft as string}
+                onChange={(e) => setDraft(field.name, e.target.value)}
+                className={inputClasses}
+              />
+            )}
+            {field.kind === "enum" && (
+              <select
+                id={id}
+                value={draft as string}
+                onChange={(e) => setDraft(field.name, e.target.value)}
+                className={inputClasses}
+              >
+                {!field.required && <option value="">(none)</option>}
+                {field.options?.map((option) => (
+                  <option key={String(option)} value={String(option)}>
+                    {String(option)}
+                  </option>
+                ))}
+              </select>
+            )}
+            {(field.kind === "textarea" || field.kind === "json") && (
+              <textarea
+                id={id}
+                value={draft as string}
+                onChange={(e) => setDraft(field.name, e.target.value)}
+                rows={field.kind === "json" ? 4 : 6}
+                className={`${field.kind === "json" ? "font-mono " : ""}${inputClasses}`}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm">
+          Approve with changes
+        </Button>
+      </div>
+    </form>
+  );
+}
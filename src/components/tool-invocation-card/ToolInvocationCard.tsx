@@ -3,7 +3,8 @@ import type { ToolUIPart } from "ai";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
-import { APPROVAL } from "@/shared";
+import { ToolArgumentsForm } from "@/components/tool-invocation-card/ToolArgumentsForm";
+import { APPROVAL, type ToolApproval } from "@/shared";
 import { getToolDisplayName } from "@/lib/utils";
 
 interface ToolResultWithContent {
@@ -25,12 +26,14 @@ interface ToolInvocationCardProps {
   toolUIPart: ToolUIPart;
   toolCallId: string;
   needsConfirmation: boolean;
+  // JSON Schema of the tool's arguments, used to build the edit form
+  inputSchema?: Record<string, unknown>;
   onSubmit: ({
     toolCallId,
     result
   }: {
     toolCallId: string;
-    result: string;
+    result: ToolApproval;
   }) => void;
   addToolResult: (toolCallId: string, result: string) => void;
   showDebug?: boolean;
@@ -40,11 +43,13 @@ export function ToolInvocationCard({
   toolUIPart,
   toolCallId,
   needsConfirmation,
+  inputSchema,
   onSubmit,
   showDebug = false
   // addToolResult
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
 
   return (
     <Card className="p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900 overflow-hidden">
@@ -73,24 +78,45 @@ export function ToolInvocationCard({
       </button>
 
       {/* Confirmation buttons - always visible when needed */}
-      {needsConfirmation && toolUIPart.state === "input-available" && (
-        <div className="flex gap-2 justify-end mt-3">
-          <Button
-            variant="secondary"
-            size="sm"
-            onClick={() => onSubmit({ toolCallId, result: APPROVAL.NO })}
-          >
-            Reject
-          </Button>
-          <Button
-            variant="primary"
-            size="sm"
-            onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
-          >
-            Approve
-          </Button>
-        </div>
-      )}
+      {needsConfirmation &&
+        toolUIPart.state === "input-available" &&
+        (isEditing ? (
+          <ToolArgumentsForm
+            schema={inputSchema}
+            input={toolUIPart.input}
+            onSubmit={(input) =>
+              onSubmit({
+                toolCallId,
+                result: { approval: APPROVAL.YES, input }
+              })
+            }
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <div className="flex gap-2 justify-end mt-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+            >
+              Edit
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => onSubmit({ toolCallId, result: APPROVAL.NO })}
+            >
+              Reject
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
+            >
+              Approve
+            </Button>
+          </div>
+        ))}
 
       {/* Debug info - only visible in debug mode */}
       {showDebug && (
@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, Trash } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { resolveToolAction } from "@/tool-policy";
+import {
+  TOOL_POLICY_ACTIONS,
+  type ToolPolicy,
+  type ToolPolicyAction,
+  type ToolPolicyEntry,
+  type ToolPolicyPattern,
+  type ToolPolicyState,
+  type ToolPolicyTool
+} from "@/shared";
+
+interface ToolPolicyEditorProps {
+  agentId: string;
+}
+
+const ACTION_LABELS: Record<ToolPolicyAction, string> = {
+  auto: "Run automatically",
+  confirm: "Ask first",
+  disabled: "Disabled"
+};
+
+const inputClasses =
+  "px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100";
+
+// Select value for "no override, use what the policy resolves"
+const INHERIT = "";
+
+function ActionSelect({
+  value,
+  onChange,
+  inheritLabel,
+  label
+}: {
+  value: ToolPolicyAction | undefined;
+  onChange: (action: ToolPolicyAction | undefined) => void;
+  // Offers an option that clears the setting when given
+  inheritLabel?: string;
+  label: string;
+}) {
+  return (
+    <select
+      value={value ?? INHERIT}
+      onChange={(e) =>
+        onChange(
+          e.target.value === INHERIT
+            ? undefined
+            : (e.target.value as ToolPolicyAction)
+        )
+      }
+      aria-label={label}
+      className={inputClasses}
+    >
+      {inheritLabel && <option value={INHERIT}>{inheritLabel}</option>}
+      {TOOL_POLICY_ACTIONS.map((action) => (
+        <option key={action} value={action}>
+          {ACTION_LABELS[action]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Edit which tools run automatically, ask for approval first or are
+ * disabled: per tool, by name pattern, per MCP server and by default
+ */
+export function ToolPolicyEditor({ agentId }: ToolPolicyEditorProps) {
+  const [saved, setSaved] = useState<ToolPolicyState | null>(null);
+  const [draft, setDraft] = useState<ToolPolicy | null>(null);
+  const [filter, setFilter] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyState = useCallback((state: ToolPolicyState) => {
+    setSaved(state);
+    setDraft(state.policy);
+  }, []);
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      const response = await fetch(`/agents/chat/${agentId}/tool-policy`);
+      if (response.ok) {
+        applyState((await response.json()) as ToolPolicyState);
+      }
+    } catch (err) {
+      console.error("Failed to fetch tool policy:", err);
+    }
+  }, [agentId, applyState]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  const sendPolicy = async (method: "PUT" | "DELETE") => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/agents/chat/${agentId}/tool-policy`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT" ? JSON.stringify(draft) : undefined
+      });
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        throw new Error(errorData.error || "Failed to save tool policy");
+      }
+      applyState((await response.json()) as ToolPolicyState);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save tool policy"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!saved || !draft) {
+    return null;
+  }
+
+  const servers = [
+    ...new Set([
+      ...saved.tools.flatMap((entry) => (entry.server ? [entry.server] : [])),
+      ...Object.keys(draft.servers)
+    ])
+  ];
+
+  const setServerDefault = (
+    server: string,
+    action: ToolPolicyAction | undefined
+  ) => {
+    const { [server]: _previous, ...others } = draft.servers;
+    setDraft({
+      ...draft,
+      servers: action ? { ...others, [server]: action } : others
+    });
+  };
+
+  const isEntry = (entry: ToolPolicyEntry) => (tool: ToolPolicyTool) =>
+    tool.server === entry.server && tool.tool === entry.tool;
+
+  const setToolAction = (
+    entry: ToolPolicyEntry,
+    action: ToolPolicyAction | undefined
+  ) => {
+    const others = draft.tools.filter((tool) => !isEntry(entry)(tool));
+    setDraft({
+      ...draft,
+      tools: action
+        ? [...others, { server: entry.server, tool: entry.tool, action }]
+        : others
+    });
+  };
+
+  // What a tool does under the draft without its own setting. Tools that
+  // can't run without approval, which the agent reports as "confirm" even
+  // when the policy says "auto", stay that way
+  const inheritedAction = (entry: ToolPolicyEntry): ToolPolicyAction => {
+    const action = resolveToolAction(
+      { ...draft, tools: draft.tools.filter((tool) => !isEntry(entry)(tool)) },
+      entry.server,
+      entry.tool
+    );
+    const needsApproval =
+      entry.action === "confirm" &&
+      resolveToolAction(saved.policy, entry.server, entry.tool) === "auto";
+    return action === "auto" && needsApproval ? "confirm" : action;
+  };
+
+  const updatePattern = (index: number, pattern: ToolPolicyPattern) =>
+    setDraft({
+      ...draft,
+      patterns: draft.patterns.map((p, i) => (i === index ? pattern : p))
+    });
+
+  const query = filter.trim().toLowerCase();
+  const visibleTools = query
+    ? saved.tools.filter(
+        (entry) =>
+          entry.tool.toLowerCase().includes(query) ||
+          entry.server?.toLowerCase().includes(query)
+      )
+    : saved.tools;
+  const groups = [null, ...servers]
+    .map((server) => ({
+      server,
+      tools: visibleTools.filter((entry) => entry.server === server)
+    }))
+    .filter((group) => group.tools.length > 0);
+
+  const changed = JSON.stringify(draft) !== JSON.stringify(saved.policy);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Tool Policy</h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Choose which tools run automatically, ask you first or are never
+          offered to the model. A tool's own setting wins over the first
+          matching pattern, which wins over its server's default. Research only
+          uses tools that run automatically
+        </p>
+      </div>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium">Default for all tools</p>
+          <ActionSelect
+            value={draft.defaultAction}
+            onChange={(action) =>
+              action && setDraft({ ...draft, defaultAction: action })
+            }
+            label="Default action"
+          />
+        </div>
+        {servers.map((server) => (
+          <div key={server} className="flex items-center justify-between gap-4">
+            <p className="text-sm">{server} tools</p>
+            <ActionSelect
+              value={draft.servers[server]}
+              onChange={(action) => setServerDefault(server, action)}
+              inheritLabel="Use the default"
+              label={`Default action for ${server}`}
+            />
+          </div>
+        ))}
+      </Card>
+
+      <Card className="p-4 space-y-2">
+        <div>
+          <p className="text-sm font-medium">Patterns</p>
+          <p className="text-xs text-neutral-500">
+            Matched against tool names in order; * matches anything
+          </p>
+        </div>
+        {draft.patterns.map((pattern, index) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: rows have no ID and are only appended or removed
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={pattern.pattern}
+              onChange={(e) =>
+                updatePattern(index, { ...pattern, pattern: e.target.value })
+              }
+              placeholder="*create_issue*"
+              aria-label="Pattern"
+              className={`flex-1 font-mono ${inputClasses}`}
+            />
+            <ActionSelect
+              value={pattern.action}
+              onChange={(action) =>
+                action && updatePattern(index, { ...pattern, action })
+              }
+              label={`Action for ${pattern.pattern}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              shape="square"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  patterns: draft.patterns.filter((_, i) => i !== index)
+                })
+              }
+              aria-label="Remove pattern"
+            >
+              <Trash size={16} />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            setDraft({
+              ...draft,
+              patterns: [...draft.patterns, { pattern: "", action: "confirm" }]
+            })
+          }
+        >
+          <Plus size={14} />
+          Add pattern
+        </Button>
+      </Card>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium">Tools</p>
+          {saved.tools.length > 5 && (
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter tools"
+              className={`w-48 ${inputClasses}`}
+            />
+          )}
+        </div>
+        {groups.map((group) => (
+          <div key={group.server ?? ""}>
+            <p className="text-xs font-semibold uppercase text-neutral-500 mb-1">
+              {group.server ?? "Built-in"}
+            </p>
+            <ul className="divide-y divide-neutral-200 dark:divide-neutral-800 border border-neutral-200 dark:border-neutral-800 rounded-md">
+              {group.tools.map((entry) => (
+                <li
+                  key={entry.name}
+                  className="px-3 py-2 flex items-center justify-between gap-4"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-mono break-all">{entry.tool}</p>
+                    {entry.description && (
+                      <p className="text-xs text-neutral-600 dark:text-neutral-400 truncate">
+                        {entry.description}
+                      </p>
+                    )}
+                  </div>
+                  <ActionSelect
+                    value={draft.tools.find(isEntry(entry))?.action}
+                    onChange={(action) => setToolAction(entry, action)}
+                    inheritLabel={`${ACTION_LABELS[inheritedAction(entry)]} (inherited)`}
+                    label={`Action for ${entry.tool}`}
+                  />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {groups.length === 0 && (
+          <p className="text-sm text-neutral-500">
+            {query ? `No tools match "${filter}"` : "No tools available"}
+          </p>
+        )}
+      </Card>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => sendPolicy("DELETE")}
+          disabled={saving}
+        >
+          Reset to defaults
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setDraft(saved.policy)}
+          disabled={saving || !changed}
+        >
+          Discard changes
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          size="sm"
+          onClick={() => sendPolicy("PUT")}
+          disabled={saving || !changed}
+        >
+          Save policy
+        </Button>
+      </div>
+    </div>
+  );
+}
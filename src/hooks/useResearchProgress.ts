@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import {
+  RESEARCH_PROGRESS_MESSAGE,
+  type ResearchProgressEvent,
+  type ResearchProgressMessage
+} from "@/shared";
+
+export interface ResearchProgress {
+  workflowId: string;
+  taskId: string | null;
+  repositories: string[];
+  question: string;
+  status: string;
+  events: ResearchProgressEvent[];
+}
+
+/**
+ * Track live research workflow progress broadcast by the Chat agent
+ * Pass the socket returned by useAgent; an optional filter limits which
+ * workflows are tracked (e.g. only those for one task)
+ */
+const useResearchProgress = (
+  agent: Pick<WebSocket, "addEventListener" | "removeEventListener">,
+  filter?: (message: ResearchProgressMessage) => boolean
+) => {
+  const [progress, setProgress] = useState<Record<string, ResearchProgress>>(
+    {}
+  );
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (typeof event.data !== "string") return;
+
+      let message: ResearchProgressMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type !== RESEARCH_PROGRESS_MESSAGE) return;
+      if (filter && !filter(message)) return;
+
+      setProgress((prev) => {
+        const existing = prev[message.workflowId];
+        return {
+          ...prev,
+          [message.workflowId]: {
+            workflowId: message.workflowId,
+            taskId: message.taskId,
+            repositories: message.repositories,
+            question: message.question,
+            status: message.status,
+            events: [...(existing?.events ?? []), message.event]
+          }
+        };
+      });
+    };
+
+    agent.addEventListener("message", handleMessage);
+    return () => {
+      agent.removeEventListener("message", handleMessage);
+    };
+  }, [agent, filter]);
+
+  return Object.values(progress);
+};
+
+export default useResearchProgress;
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DEFAULT_TOOL_POLICY, resolveToolAction } from "@/tool-policy";
+import type { ToolPolicyState } from "@/shared";
+
+/**
+ * Load the Chat agent's tool policy and return a check for whether a tool
+ * call waits for the user's approval, and a lookup of tools' input schemas
+ * Tools the policy didn't list yet (e.g. from a server connected since) are
+ * matched against its patterns by name, and the policy is loaded again
+ */
+const useToolPolicy = (agentName: string) => {
+  const [state, setState] = useState<ToolPolicyState | null>(null);
+  // Tool names checked but not listed, and those already refetched for
+  const unknownTools = useRef(new Set<string>());
+  const refetchedFor = useRef(new Set<string>());
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      const response = await fetch(`/agents/chat/${agentName}/tool-policy`);
+      if (response.ok) {
+        setState((await response.json()) as ToolPolicyState);
+      }
+    } catch (err) {
+      console.error("Failed to fetch tool policy:", err);
+    }
+  }, [agentName]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  // Runs after every render, once the checks below have run
+  useEffect(() => {
+    const unfetched = [...unknownTools.current].filter(
+      (name) => !refetchedFor.current.has(name)
+    );
+    if (state && unfetched.length > 0) {
+      for (const name of unfetched) {
+        refetchedFor.current.add(name);
+      }
+      fetchPolicy();
+    }
+  });
+
+  const requiresConfirmation = useCallback(
+    (toolName: string): boolean => {
+      const entry = state?.tools.find((tool) => tool.name === toolName);
+      if (entry) {
+        return entry.action === "confirm";
+      }
+      unknownTools.current.add(toolName);
+      return (
+        resolveToolAction(
+          state?.policy ?? DEFAULT_TOOL_POLICY,
+          null,
+          toolName
+        ) === "confirm"
+      );
+    },
+    [state]
+  );
+
+  const getInputSchema = useCallback(
+    (toolName: string) =>
+      state?.tools.find((tool) => tool.name === toolName)?.inputSchema,
+    [state]
+  );
+
+  return { requiresConfirmation, getInputSchema };
+};
+
+export default useToolPolicy;
@@ -0,0 +1,722 @@
+import type {
+  IssueTrackerKind,
+  TrackerComment,
+  TrackerIssue,
+  TrackerUser
+} from "./shared";
+
+/**
+ * Issue trackers backed by MCP servers
+ *
+ * The task list, task detail page and research-to-comment flow only talk to
+ * an `IssueTracker`. Each adapter knows its server's tool names and JSON
+ * shapes and normalizes them into `TrackerIssue` and `TrackerComment`.
+ */
+
+/**
+ * Filters for listing issues. Trackers ignore filters they don't support
+ * (GitHub Issues has no teams or priorities)
+ */
+export interface IssueQuery {
+  // Only issues assigned to the connected user
+  assignedToMe?: boolean;
+  team?: string;
+  project?: string;
+  label?: string;
+  // Workflow state name; by default only open issues are listed
+  state?: string;
+  // Linear priority: 0 (none) to 4 (low)
+  priority?: number;
+  assignee?: string;
+  // Free-text search of titles and descriptions
+  search?: string;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+  limit?: number;
+}
+
+export interface IssuePage {
+  issues: TrackerIssue[];
+  nextCursor: string | null;
+}
+
+export const DEFAULT_ISSUE_PAGE_SIZE = 50;
+export const MAX_ISSUE_PAGE_SIZE = 100;
+
+export interface IssueTracker {
+  kind: IssueTrackerKind;
+  listIssues(query?: IssueQuery): Promise<IssuePage>;
+  getIssue(id: string): Promise<TrackerIssue | null>;
+  listComments(id: string): Promise<TrackerComment[]>;
+  createComment(id: string, body: string): Promise<void>;
+  // The connected user, or null when the server can't tell
+  getViewer(): Promise<TrackerUser | null>;
+  // Assign the issue to the connected user
+  claimIssue(id: string): Promise<void>;
+  // Remove the connected user from the issue's assignees; issues assigned
+  // to someone else are left alone (Linear throws a 409)
+  unclaimIssue(id: string): Promise<void>;
+  // Move the issue to a named workflow state
+  transitionIssue(id: string, state: string): Promise<void>;
+}
+
+/**
+ * Error for issue tracker operations that maps to an HTTP status
+ */
+export class IssueTrackerError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "IssueTrackerError";
+  }
+}
+
+/**
+ * The tools of one connected MCP server, by their unprefixed names
+ */
+export interface McpToolbox {
+  has(toolName: string): boolean;
+  call(toolName: string, args: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * Variables that configure the issue tracker
+ * - ISSUE_TRACKER: "linear" or "github"; by default Linear is used when
+ *   connected, then GitHub Issues
+ * - GITHUB_ISSUES_REPOSITORIES: comma-separated "owner/repo" list the GitHub
+ *   Issues task list is limited to; by default it lists issues involving you
+ */
+export interface IssueTrackerEnv {
+  ISSUE_TRACKER?: string;
+  GITHUB_ISSUES_REPOSITORIES?: string;
+}
+
+// Name of the MCP server each tracker uses, as added in Setup
+export const ISSUE_TRACKER_SERVERS: Record<IssueTrackerKind, string> = {
+  linear: "Linear",
+  github: "GitHub"
+};
+
+/**
+ * Parse the JSON text content of an MCP tool result
+ * Throws the tool's error message when the call failed
+ */
+export function parseToolJson(result: unknown): unknown {
+  const { content, isError } = (result ?? {}) as {
+    content?: { type: string; text?: string }[];
+    isError?: boolean;
+  };
+  const text = content?.find((c) => c.type === "text")?.text;
+  if (isError) {
+    throw new Error(text || "MCP tool call failed");
+  }
+  if (!text) {
+    return null;
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Read issue filters from request query parameters
+ * (team, project, label, state, priority, assignee, q, cursor, limit)
+ */
+export function parseIssueQuery(params: URLSearchParams): IssueQuery {
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const priority = Number.parseInt(params.get("priority") ?? "", 10);
+  const limit = Number.parseInt(params.get("limit") ?? "", 10);
+
+  return {
+    team: text("team"),
+    project: text("project"),
+    label: text("label"),
+    state: text("state"),
+    priority: Number.isNaN(priority) ? undefined : priority,
+    assignee: text("assignee"),
+    search: text("q"),
+    cursor: text("cursor"),
+    limit: Number.isNaN(limit)
+      ? DEFAULT_ISSUE_PAGE_SIZE
+      : Math.min(Math.max(limit, 1), MAX_ISSUE_PAGE_SIZE)
+  };
+}
+
+function asArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  // Some servers wrap lists, e.g. { issues: [...] } or { items: [...] }
+  const wrapped = value as Record<string, unknown> | null;
+  for (const key of ["issues", "comments", "items", "nodes"]) {
+    const list = wrapped?.[key];
+    if (Array.isArray(list)) return list;
+  }
+  return [];
+}
+
+/**
+ * The cursor of the next page in a Linear list response, which is either a
+ * bare array (no more pages) or wraps its nodes with GraphQL-style pageInfo
+ */
+function linearNextCursor(value: unknown): string | null {
+  const page = value as {
+    pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+    nextCursor?: string | null;
+  } | null;
+  if (!page || Array.isArray(page)) {
+    return null;
+  }
+  if (page.pageInfo) {
+    return page.pageInfo.hasNextPage ? (page.pageInfo.endCursor ?? null) : null;
+  }
+  return page.nextCursor ?? null;
+}
+
+const LINEAR_INACTIVE_STATUSES = ["Done", "Canceled", "Duplicate"];
+
+// Pages of list_issues read at most to fill one filtered page
+const MAX_LINEAR_LIST_CALLS = 5;
+
+// The fields of Linear MCP server issues and comments that are read. Some
+// are flattened to names (status, assignee, labels), others are objects
+
+interface LinearIssuePayload {
+  id: string;
+  identifier?: string;
+  title: string;
+  description?: string | null;
+  url: string;
+  createdAt: string;
+  updatedAt?: string;
+  state?: { name: string; type: string; color?: string } | null;
+  status?: string;
+  priority?: number | { value?: number; name?: string } | null;
+  priorityLabel?: string;
+  team?: string | { name?: string } | null;
+  project?: string | { name?: string } | null;
+  labels?: unknown;
+  assignee?: string | TrackerUser | null;
+  assigneeId?: string;
+}
+
+type LinearLabelPayload = string | { id: string; name: string; color?: string };
+
+interface LinearCommentPayload {
+  id: string;
+  body?: string | null;
+  createdAt: string;
+  user?: TrackerUser | null;
+}
+
+function nameOf(value: string | { name?: string } | null | undefined) {
+  return typeof value === "string" ? value : (value?.name ?? undefined);
+}
+
+function normalizeLinearIssue(value: unknown): TrackerIssue {
+  const issue = value as LinearIssuePayload;
+  const state =
+    issue.state && typeof issue.state === "object"
+      ? issue.state
+      : issue.status
+        ? { name: String(issue.status), type: "" }
+        : undefined;
+  const priority =
+    typeof issue.priority === "object" && issue.priority !== null
+      ? issue.priority
+      : { value: issue.priority ?? undefined, name: issue.priorityLabel };
+
+  return {
+    tracker: "linear",
+    id: issue.id,
+    identifier: issue.identifier,
+    title: issue.title,
+    description: issue.description ?? undefined,
+    url: issue.url,
+    createdAt: issue.createdAt,
+    updatedAt: issue.updatedAt,
+    state,
+    priority: typeof priority.value === "number" ? priority.value : undefined,
+    priorityLabel: priority.name ?? undefined,
+    team: nameOf(issue.team),
+    project: nameOf(issue.project),
+    labels: (asArray(issue.labels) as LinearLabelPayload[]).map((label) =>
+      typeof label === "string"
+        ? { id: label, name: label }
+        : { id: label.id, name: label.name, color: label.color }
+    ),
+    assignee:
+      typeof issue.assignee === "string"
+        ? { id: issue.assigneeId ?? issue.assignee, name: issue.assignee }
+        : (issue.assignee ?? undefined)
+  };
+}
+
+function normalizeLinearComment(value: unknown): TrackerComment {
+  const comment = value as LinearCommentPayload;
+  return {
+    id: comment.id,
+    body: comment.body ?? "",
+    createdAt: comment.createdAt,
+    user: comment.user ?? undefined
+  };
+}
+
+/**
+ * Issue tracker for the Linear MCP server
+ */
+export function createLinearIssueTracker(tools: McpToolbox): IssueTracker {
+  const getIssue = async (id: string) => {
+    // The Linear MCP server has no get_issue; filter list_issues by ID,
+    // which also matches identifiers such as "ENG-123"
+    const issues = asArray(
+      parseToolJson(
+        await tools.call("list_issues", { filter: { id: { eq: id } } })
+      )
+    );
+    return issues[0] ? normalizeLinearIssue(issues[0]) : null;
+  };
+
+  // get_user accepts "me" for the connected user; looked up once
+  let viewer: Promise<TrackerUser | null> | undefined;
+  const getViewer = () => {
+    viewer ??= (async () => {
+      if (!tools.has("get_user")) return null;
+      const user = parseToolJson(
+        await tools.call("get_user", { query: "me" })
+      ) as { id?: string; name?: string; displayName?: string } | null;
+      return user?.id
+        ? {
+            id: user.id,
+            name: user.name ?? user.id,
+            displayName: user.displayName
+          }
+        : null;
+    })().catch((error) => {
+      viewer = undefined;
+      throw error;
+    });
+    return viewer;
+  };
+
+  return {
+    kind: "linear",
+
+    async listIssues(query = {}) {
+      const limit = query.limit ?? DEFAULT_ISSUE_PAGE_SIZE;
+      const args: Record<string, unknown> = {};
+      if (query.search) args.query = query.search;
+      if (query.team) args.team = query.team;
+      if (query.project) args.project = query.project;
+      if (query.label) args.label = query.label;
+      if (query.state) args.state = query.state;
+      if (query.priority !== undefined) args.priority = query.priority;
+      if (query.assignedToMe) {
+        args.assignee = "me";
+      } else if (query.assignee) {
+        args.assignee = query.assignee;
+      }
+      // Without get_user, any assignee the server's "me" filter let through
+      // counts as the connected user
+      const me = query.assignedToMe ? await getViewer() : null;
+
+      // Filter client-side too, as the Linear MCP server doesn't always
+      // respect filters
+      const matches = (value: unknown, expected: string) =>
+        String(value ?? "").toLowerCase() === expected.toLowerCase();
+      const keep = (issue: TrackerIssue) => {
+        const status = issue.state?.name;
+        const stateMatches = query.state
+          ? matches(status, query.state)
+          : !LINEAR_INACTIVE_STATUSES.includes(status ?? "");
+        const assigned =
+          !query.assignedToMe ||
+          (me ? issue.assignee?.id === me.id : !!issue.assignee);
+        const labelMatches =
+          !query.label ||
+          !!issue.labels?.some((label) => matches(label.name, query.label!));
+        const priorityMatches =
+          query.priority === undefined || issue.priority === query.priority;
+        return stateMatches && assigned && labelMatches && priorityMatches;
+      };
+
+      // Filtering can leave a page short, so the next pages are read for
+      // the rest, asking for no more than are missing so the cursor never
+      // skips issues
+      const issues: TrackerIssue[] = [];
+      let cursor = query.cursor ?? null;
+      for (let call = 0; call < MAX_LINEAR_LIST_CALLS; call++) {
+        const result = parseToolJson(
+          await tools.call("list_issues", {
+            ...args,
+            limit: limit - issues.length,
+            ...(cursor ? { cursor } : {})
+          })
+        );
+        const page = asArray(result);
+        issues.push(...page.map(normalizeLinearIssue).filter(keep));
+        cursor = linearNextCursor(result);
+        if (!cursor || issues.length >= limit) break;
+      }
+
+      return { issues, nextCursor: cursor };
+    },
+
+    getIssue,
+
+    async listComments(id) {
+      const comments = asArray(
+        parseToolJson(await tools.call("list_comments", { issueId: id }))
+      );
+      return comments.map(normalizeLinearComment);
+    },
+
+    async createComment(id, body) {
+      parseToolJson(await tools.call("create_comment", { issueId: id, body }));
+    },
+
+    getViewer,
+
+    // update_issue accepts "me", names and IDs for assignee, and state
+    // names, types or IDs for state
+    async claimIssue(id) {
+      parseToolJson(await tools.call("update_issue", { id, assignee: "me" }));
+    },
+
+    async unclaimIssue(id) {
+      // Linear issues have one assignee, so unclaiming someone else's
+      // issue would remove them
+      const [issue, me] = await Promise.all([getIssue(id), getViewer()]);
+      if (issue?.assignee && me && issue.assignee.id !== me.id) {
+        throw new IssueTrackerError(
+          `${issue.identifier ?? id} is assigned to ${issue.assignee.name}, not you`,
+          409
+        );
+      }
+      parseToolJson(await tools.call("update_issue", { id, assignee: null }));
+    },
+
+    async transitionIssue(id, state) {
+      parseToolJson(await tools.call("update_issue", { id, state }));
+    }
+  };
+}
+
+type GitHubIssueArgs = { owner: string; repo: string; issue_number: number };
+
+/**
+ * Split a GitHub issue ID ("owner/repo#123") into tool arguments
+ */
+export function parseGitHubIssueId(id: string): GitHubIssueArgs | null {
+  const match = id.match(/^([\w.-]+)\/([\w.-]+)#(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  return { owner: match[1], repo: match[2], issue_number: Number(match[3]) };
+}
+
+function requireGitHubIssueId(id: string): GitHubIssueArgs {
+  const args = parseGitHubIssueId(id);
+  if (!args) {
+    throw new IssueTrackerError(
+      `Invalid GitHub issue ID "${id}", expected owner/repo#123`,
+      400
+    );
+  }
+  return args;
+}
+
+// The fields of GitHub issues and comments that are read
+
+interface GitHubUserPayload {
+  id: number;
+  login: string;
+}
+
+interface GitHubIssuePayload {
+  number: number;
+  title: string;
+  body?: string | null;
+  html_url: string;
+  repository_url?: string;
+  state?: string;
+  created_at: string;
+  updated_at?: string;
+  labels?: unknown;
+  assignee?: GitHubUserPayload | null;
+  // Set on pull requests, which search_issues can return too
+  pull_request?: unknown;
+}
+
+type GitHubLabelPayload =
+  | string
+  | { id?: number; name: string; color?: string | null };
+
+interface GitHubCommentPayload {
+  id: number;
+  body?: string | null;
+  created_at: string;
+  user?: GitHubUserPayload | null;
+}
+
+function githubIssueRepository(issue: GitHubIssuePayload): string | null {
+  const url: string = issue.repository_url || issue.html_url || "";
+  const match = url.match(
+    /(?:api\.github\.com\/repos|github\.com)\/([\w.-]+\/[\w.-]+)/
+  );
+  return match ? match[1] : null;
+}
+
+function normalizeGitHubIssue(
+  value: unknown,
+  fallbackRepository?: string
+): TrackerIssue {
+  const issue = value as GitHubIssuePayload;
+  const repository = githubIssueRepository(issue) ?? fallbackRepository;
+  const id = `${repository}#${issue.number}`;
+  const open = issue.state !== "closed";
+
+  return {
+    tracker: "github",
+    id,
+    identifier: id,
+    title: issue.title,
+    description: issue.body ?? undefined,
+    url: issue.html_url,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    state: {
+      name: open ? "Open" : "Closed",
+      type: issue.state ?? "open",
+      color: open ? "#1a7f37" : "#8250df"
+    },
+    labels: (asArray(issue.labels) as GitHubLabelPayload[]).map((label) =>
+      typeof label === "string"
+        ? { id: label, name: label }
+        : {
+            id: String(label.id ?? label.name),
+            name: label.name,
+            color: label.color ? `#${label.color}` : undefined
+          }
+    ),
+    assignee: issue.assignee
+      ? { id: String(issue.assignee.id), name: issue.assignee.login }
+      : undefined
+  };
+}
+
+function normalizeGitHubComment(value: unknown): TrackerComment {
+  const comment = value as GitHubCommentPayload;
+  return {
+    id: String(comment.id),
+    body: comment.body ?? "",
+    createdAt: comment.created_at,
+    user: comment.user
+      ? { id: String(comment.user.id), name: comment.user.login }
+      : undefined
+  };
+}
+
+/**
+ * Issue tracker for GitHub Issues, through the GitHub MCP server
+ * Supports both the older per-action tools (get_issue, get_issue_comments,
+ * update_issue) and the newer issue_read and issue_write tools
+ */
+export function createGitHubIssueTracker(
+  tools: McpToolbox,
+  options: { repositories?: string[] } = {}
+): IssueTracker {
+  const repositories = options.repositories ?? [];
+
+  const readIssue = async (
+    id: string,
+    legacyTool: string,
+    method: string
+  ): Promise<unknown> => {
+    const args = requireGitHubIssueId(id);
+    return parseToolJson(
+      tools.has(legacyTool)
+        ? await tools.call(legacyTool, args)
+        : await tools.call("issue_read", { method, ...args })
+    );
+  };
+
+  const updateIssue = async (
+    id: string,
+    changes: Record<string, unknown>
+  ): Promise<void> => {
+    const args = requireGitHubIssueId(id);
+    parseToolJson(
+      tools.has("update_issue")
+        ? await tools.call("update_issue", { ...args, ...changes })
+        : await tools.call("issue_write", {
+            method: "update",
+            ...args,
+            ...changes
+          })
+    );
+  };
+
+  // The issue's assignees with the connected user added or removed
+  // (update_issue replaces the whole list)
+  const assigneesWithMe = async (id: string, assigned: boolean) => {
+    const me = parseToolJson(await tools.call("get_me", {})) as {
+      login?: string;
+    } | null;
+    if (!me?.login) {
+      throw new Error("Could not get the authenticated GitHub user");
+    }
+    const issue = (await readIssue(id, "get_issue", "get")) as {
+      assignees?: { login: string }[];
+    } | null;
+    const others = (issue?.assignees ?? [])
+      .map((assignee) => assignee.login)
+      .filter((login) => login !== me.login);
+    return assigned ? [...others, me.login] : others;
+  };
+
+  return {
+    kind: "github",
+
+    async getViewer() {
+      const me = parseToolJson(await tools.call("get_me", {})) as {
+        id?: number | string;
+        login?: string;
+      } | null;
+      // Issues' assignees are identified by their numeric IDs
+      return me?.login && me.id !== undefined
+        ? { id: String(me.id), name: me.login }
+        : null;
+    },
+
+    async listIssues(query = {}) {
+      const quote = (value: string) =>
+        /\s/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+      const qualifiers = [
+        "is:issue",
+        query.state ? `state:${quote(query.state.toLowerCase())}` : "is:open"
+      ];
+      if (query.assignedToMe) {
+        qualifiers.push("assignee:@me");
+      } else if (query.assignee) {
+        qualifiers.push(`assignee:${quote(query.assignee)}`);
+      }
+      if (query.label) qualifiers.push(`label:${quote(query.label)}`);
+      if (query.project) qualifiers.push(`project:${quote(query.project)}`);
+      if (repositories.length > 0) {
+        qualifiers.push(...repositories.map((repo) => `repo:${repo}`));
+      } else if (!query.assignedToMe && !query.assignee) {
+        qualifiers.push("involves:@me");
+      }
+      if (query.search) qualifiers.push(query.search);
+
+      // Search results are paged by number; the cursor is the next page
+      const perPage = query.limit ?? DEFAULT_ISSUE_PAGE_SIZE;
+      const page = Math.max(Number.parseInt(query.cursor ?? "1", 10) || 1, 1);
+      const result = parseToolJson(
+        await tools.call("search_issues", {
+          query: qualifiers.join(" "),
+          perPage,
+          page
+        })
+      );
+      const issues = asArray(result) as GitHubIssuePayload[];
+
+      const total = (result as { total_count?: number } | null)?.total_count;
+      const hasMore =
+        typeof total === "number"
+          ? total > page * perPage
+          : issues.length === perPage;
+      return {
+        issues: issues
+          .filter((issue) => !issue.pull_request)
+          .map((issue) => normalizeGitHubIssue(issue)),
+        nextCursor: hasMore ? String(page + 1) : null
+      };
+    },
+
+    async getIssue(id) {
+      if (!parseGitHubIssueId(id)) {
+        return null;
+      }
+      const issue = await readIssue(id, "get_issue", "get");
+      return issue ? normalizeGitHubIssue(issue, id.split("#")[0]) : null;
+    },
+
+    async listComments(id) {
+      const comments = asArray(
+        await readIssue(id, "get_issue_comments", "get_comments")
+      );
+      return comments.map(normalizeGitHubComment);
+    },
+
+    async createComment(id, body) {
+      const args = requireGitHubIssueId(id);
+      parseToolJson(await tools.call("add_issue_comment", { ...args, body }));
+    },
+
+    async claimIssue(id) {
+      await updateIssue(id, { assignees: await assigneesWithMe(id, true) });
+    },
+
+    async unclaimIssue(id) {
+      await updateIssue(id, { assignees: await assigneesWithMe(id, false) });
+    },
+
+    async transitionIssue(id, state) {
+      const normalized = state.trim().toLowerCase();
+      if (normalized !== "open" && normalized !== "closed") {
+        throw new IssueTrackerError(
+          `GitHub issues can only be "open" or "closed", not "${state}"`,
+          400
+        );
+      }
+      await updateIssue(id, { state: normalized });
+    }
+  };
+}
+
+/**
+ * Create the adapter for a tracker
+ */
+export function createIssueTracker(
+  kind: IssueTrackerKind,
+  tools: McpToolbox,
+  env: IssueTrackerEnv
+): IssueTracker {
+  if (kind === "github") {
+    const repositories = (env.GITHUB_ISSUES_REPOSITORIES ?? "")
+      .split(",")
+      .map((repo) => repo.trim())
+      .filter(Boolean);
+    return createGitHubIssueTracker(tools, { repositories });
+  }
+  return createLinearIssueTracker(tools);
+}
+
+/**
+ * Whether an issue tracker MCP tool changes issues or their comments
+ * (update_issue, issue_write, add_issue_comment...), as opposed to reading them
+ */
+export function isIssueWriteTool(toolName: string): boolean {
+  return (
+    /issue|comment/.test(toolName) &&
+    !/^(list|get|search)_|_read$/.test(toolName)
+  );
+}
+
+/**
+ * The ID of the issue a tracker tool call is about, in the form the tracker's
+ * adapter accepts, or null when the arguments don't name one (e.g. create_issue)
+ */
+export function issueIdFromToolArgs(
+  kind: IssueTrackerKind,
+  args: Record<string, unknown>
+): string | null {
+  if (kind === "github") {
+    const { owner, repo, issue_number } = args;
+    return owner && repo && issue_number
+      ? `${owner}/${repo}#${issue_number}`
+      : null;
+  }
+  const id = args.issueId ?? args.id;
+  return typeof id === "string" ? id : null;
+}
@@ -0,0 +1,110 @@
+import {
+  MCP_AUTH_TYPES,
+  MCP_TRANSPORT_TYPES,
+  type McpAuthType,
+  type McpTransportType
+} from "./shared";
+
+/**
+ * MCP server registrations
+ *
+ * Besides the Linear and GitHub servers the Setup page offers, any MCP server
+ * can be added by URL, with the transport to use, how it authenticates and
+ * extra headers to send with every request.
+ */
+
+export interface McpServerInput {
+  name: string;
+  serverUrl: string;
+  transport: McpTransportType;
+  authType: McpAuthType;
+  // Set when authType is "token"
+  authToken?: string;
+  headers: Record<string, string>;
+}
+
+const MAX_NAME_LENGTH = 64;
+
+// RFC 9110 field names
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Validate an MCP server from a request body
+ * authType defaults to "token" when an authToken is given and "oauth"
+ * otherwise. Returns the cleaned-up server, or an error message
+ */
+export function parseMcpServerInput(body: unknown): McpServerInput | string {
+  const { name, serverUrl, transport, authType, authToken, headers } = (body ??
+    {}) as {
+    name?: unknown;
+    serverUrl?: unknown;
+    transport?: unknown;
+    authType?: unknown;
+    authToken?: unknown;
+    headers?: unknown;
+  };
+
+  if (typeof name !== "string" || !name.trim()) {
+    return "name is required";
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return `name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(String(serverUrl ?? ""));
+  } catch {
+    return "serverUrl must be a valid URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "serverUrl must be an http or https URL";
+  }
+
+  const transportType = transport ?? "auto";
+  if (!MCP_TRANSPORT_TYPES.includes(transportType as McpTransportType)) {
+    return `transport must be one of ${MCP_TRANSPORT_TYPES.join(", ")}`;
+  }
+
+  const token = typeof authToken === "string" ? authToken.trim() : "";
+  const auth = authType ?? (token ? "token" : "oauth");
+  if (!MCP_AUTH_TYPES.includes(auth as McpAuthType)) {
+    return `authType must be one of ${MCP_AUTH_TYPES.join(", ")}`;
+  }
+  if (auth === "token" && !token) {
+    return 'authToken is required when authType is "token"';
+  }
+  if (auth !== "token" && token) {
+    return 'authToken is only used when authType is "token"';
+  }
+
+  if (
+    headers !== undefined &&
+    (typeof headers !== "object" || headers === null || Array.isArray(headers))
+  ) {
+    return "headers must be an object of header names to values";
+  }
+  const cleanHeaders: Record<string, string> = {};
+  for (const [headerName, value] of Object.entries(headers ?? {})) {
+    const trimmedName = headerName.trim();
+    if (!HEADER_NAME_PATTERN.test(trimmedName)) {
+      return `Invalid header name "${headerName}"`;
+    }
+    if (typeof value !== "string" || /[\r\n]/.test(value)) {
+      return `Invalid value for header "${trimmedName}"`;
+    }
+    if (trimmedName.toLowerCase() === "authorization" && auth !== "none") {
+      return `The Authorization header is set by authType "${auth}"; use authType "none" to send your own`;
+    }
+    cleanHeaders[trimmedName] = value.trim();
+  }
+
+  return {
+    name: name.trim(),
+    serverUrl: url.toString(),
+    transport: transportType as McpTransportType,
+    authType: auth as McpAuthType,
+    authToken: auth === "token" ? token : undefined,
+    headers: cleanHeaders
+  };
+}
@@ -0,0 +1,262 @@
+import type { MCPClientManager } from "agents/mcp/client";
+import { redactSecrets } from "./secrets";
+import type { McpServerHealth, McpServerStateChange } from "./shared";
+
+/**
+ * MCP connection supervision
+ *
+ * The SDK connects servers once (when added, and when the agent restores
+ * them on start) and leaves failed connections failed. The supervisor
+ * records every server's state changes, reconnects failed servers with
+ * exponential backoff, and lets callers wait for a server to be ready
+ * instead of polling its state themselves.
+ */
+
+// State changes kept per server
+const MAX_HISTORY = 20;
+
+// Reconnect delays in seconds, doubling from the first up to the last
+const RECONNECT_BASE_DELAY = 1;
+const RECONNECT_MAX_DELAY = 5 * 60;
+
+// How often awaitReady checks a server that isn't ready yet
+const READY_POLL_INTERVAL = 250;
+
+/**
+ * Thrown by awaitReady when a server isn't registered or doesn't become
+ * ready in time
+ */
+export class McpServerNotReadyError extends Error {
+  constructor(
+    message: string,
+    readonly state: string
+  ) {
+    super(message);
+    this.name = "McpServerNotReadyError";
+  }
+}
+
+/**
+ * Arranges for reconnect(serverId) to run after `delaySeconds` and returns
+ * when it will, in milliseconds. The agent schedules it with this.schedule,
+ * which survives hibernation and eviction where a timer wouldn't
+ */
+export type ReconnectScheduler = (
+  serverId: string,
+  delaySeconds: number
+) => Promise<number>;
+
+interface SupervisedServer {
+  history: McpServerStateChange[];
+  reconnectAttempts: number;
+  // When the scheduled reconnect runs, or null when none is scheduled
+  nextReconnectAt: number | null;
+  // Error of the last failed connection attempt, recorded with its state
+  lastError?: string;
+}
+
+export class McpSupervisor {
+  private servers = new Map<string, SupervisedServer>();
+
+  constructor(
+    private mcp: MCPClientManager,
+    private scheduleReconnect: ReconnectScheduler
+  ) {
+    mcp.onServerStateChanged(() => this.sample());
+    mcp.onObservabilityEvent((event) => {
+      const payload = event.payload as { state?: string } | undefined;
+      if (event.type === "mcp:client:connect" && payload?.state === "failed") {
+        const serverId = this.serverIdForUrl(
+          (event.payload as { url?: string }).url
+        );
+        if (serverId) {
+          this.supervised(serverId).lastError = redactSecrets(
+            event.displayMessage
+          );
+        }
+      }
+      this.sample();
+    });
+  }
+
+  /**
+   * Current state of a server's connection, like getMcpServers() reports it
+   */
+  private stateOf(serverId: string): string {
+    const connection = this.mcp.mcpConnections[serverId];
+    if (connection) return connection.connectionState;
+    const server = this.mcp.listServers().find((s) => s.id === serverId);
+    return server?.auth_url ? "authenticating" : "not-connected";
+  }
+
+  private serverIdForUrl(url: string | undefined): string | undefined {
+    if (!url) return undefined;
+    return Object.entries(this.mcp.mcpConnections).find(
+      ([, connection]) => connection.url.toString() === url
+    )?.[0];
+  }
+
+  private supervised(serverId: string): SupervisedServer {
+    let server = this.servers.get(serverId);
+    if (!server) {
+      server = {
+        history: [],
+        reconnectAttempts: 0,
+        nextReconnectAt: null
+      };
+      this.servers.set(serverId, server);
+    }
+    return server;
+  }
+
+  /**
+   * Record state changes since the last sample, reconnect servers that
+   * failed, and forget servers that were removed (a reconnect still
+   * scheduled for one finds nothing to do)
+   */
+  sample() {
+    const registered = new Set(this.mcp.listServers().map((s) => s.id));
+    for (const serverId of this.servers.keys()) {
+      if (!registered.has(serverId)) {
+        this.servers.delete(serverId);
+      }
+    }
+
+    for (const serverId of registered) {
+      const server = this.supervised(serverId);
+      const state = this.stateOf(serverId);
+      const last = server.history[server.history.length - 1];
+      if (last?.state !== state) {
+        server.history.push({
+          state,
+          at: Date.now(),
+          ...(state === "failed" && server.lastError
+            ? { error: server.lastError }
+            : {})
+        });
+        if (server.history.length > MAX_HISTORY) {
+          server.history.splice(0, server.history.length - MAX_HISTORY);
+        }
+      }
+
+      if (state === "ready") {
+        server.reconnectAttempts = 0;
+        server.lastError = undefined;
+      }
+      if (state === "failed" && server.nextReconnectAt === null) {
+        this.backOff(serverId, server);
+      }
+    }
+  }
+
+  private backOff(serverId: string, server: SupervisedServer) {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** server.reconnectAttempts,
+      RECONNECT_MAX_DELAY
+    );
+    // Until the scheduler answers; the reconnect may even have run by then
+    const estimate = Date.now() + delay * 1000;
+    server.nextReconnectAt = estimate;
+    this.scheduleReconnect(serverId, delay).then(
+      (at) => {
+        if (server.nextReconnectAt === estimate) server.nextReconnectAt = at;
+      },
+      (error) => {
+        if (server.nextReconnectAt === estimate) server.nextReconnectAt = null;
+        console.error(
+          `[MCP] Failed to schedule a reconnect of server ${serverId}:`,
+          error
+        );
+      }
+    );
+  }
+
+  /**
+   * Reconnect a failed server; what the scheduler runs. The supervisor may
+   * have started over since it was scheduled, when the agent was evicted
+   */
+  async reconnect(serverId: string) {
+    const server = this.supervised(serverId);
+    server.nextReconnectAt = null;
+    // The server may have recovered or been removed in the meantime
+    if (
+      !this.mcp.listServers().some((s) => s.id === serverId) ||
+      this.mcp.mcpConnections[serverId]?.connectionState !== "failed"
+    ) {
+      return;
+    }
+
+    server.reconnectAttempts++;
+    console.log(
+      `[MCP] Reconnecting server ${serverId} (attempt ${server.reconnectAttempts})`
+    );
+    try {
+      const result = await this.mcp.connectToServer(serverId);
+      if (result.state === "failed") {
+        server.lastError = redactSecrets(result.error);
+      } else if (result.state === "connected") {
+        await this.mcp.discoverIfConnected(serverId);
+      }
+    } catch (error) {
+      server.lastError = redactSecrets(
+        error instanceof Error ? error.message : String(error)
+      );
+      console.error(
+        `[MCP] Failed to reconnect server ${serverId}:`,
+        server.lastError
+      );
+    }
+    // Schedules the next attempt if it failed again
+    this.sample();
+  }
+
+  /**
+   * State history and reconnection status of every registered server
+   */
+  health(): McpServerHealth[] {
+    this.sample();
+    return this.mcp.listServers().map((s) => {
+      const server = this.supervised(s.id);
+      const current = server.history[server.history.length - 1];
+      return {
+        id: s.id,
+        name: s.name,
+        state: current.state,
+        since: current.at,
+        history: server.history,
+        reconnectAttempts: server.reconnectAttempts,
+        nextReconnectAt: server.nextReconnectAt,
+        lastError: server.lastError ?? null
+      };
+    });
+  }
+
+  /**
+   * Wait until the server with the given name is ready and return its ID
+   * Throws McpServerNotReadyError when no such server is registered, or it
+   * isn't ready within `timeout` milliseconds
+   */
+  async awaitReady(name: string, timeout: number): Promise<string> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const server = this.mcp.listServers().find((s) => s.name === name);
+      if (!server) {
+        throw new McpServerNotReadyError(
+          `${name} MCP server not connected. Please connect it first.`,
+          "not-connected"
+        );
+      }
+      const state = this.stateOf(server.id);
+      if (state === "ready") {
+        return server.id;
+      }
+      if (Date.now() >= deadline) {
+        throw new McpServerNotReadyError(
+          `${name} MCP server not ready after ${Math.round(timeout / 1000)}s. Current state: ${state}`,
+          state
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL));
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import { createWorkersAI } from "workers-ai-provider";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+/**
+ * What a model is used for. Each role can use a different model
+ * - chat: the chat agent's replies
+ * - research: planning research and exploring code with the MCP tools
+ * - summarization: combining research findings into the final report
+ */
+export type ModelRole = "chat" | "research" | "summarization";
+
+/**
+ * Variables and bindings the model providers read
+ * Models are configured as "<provider>:<model id>", e.g.
+ * "openai:gpt-4o-2024-11-20" or "workers-ai:@cf/meta/llama-3.3-70b-instruct-fp8-fast"
+ */
+export interface ModelEnv {
+  CHAT_MODEL?: string;
+  RESEARCH_MODEL?: string;
+  SUMMARIZATION_MODEL?: string;
+  OPENAI_API_KEY?: string;
+  // Optional Cloudflare AI Gateway URL for the openai provider
+  GATEWAY_BASE_URL?: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  AI?: Ai;
+}
+
+export type ModelProviderFactory = (
+  modelId: string,
+  env: ModelEnv
+) => LanguageModelV2;
+
+export const DEFAULT_MODEL = "openai:gpt-4o-2024-11-20";
+
+const ROLE_VARIABLES: Record<ModelRole, keyof ModelEnv> = {
+  chat: "CHAT_MODEL",
+  research: "RESEARCH_MODEL",
+  summarization: "SUMMARIZATION_MODEL"
+};
+
+const providers = new Map<string, ModelProviderFactory>();
+
+/**
+ * Register a model provider under a name usable in model configuration
+ * Registering an existing name replaces it (e.g. to script the mock in tests)
+ */
+export function registerModelProvider(
+  name: string,
+  factory: ModelProviderFactory
+) {
+  providers.set(name, factory);
+}
+
+/**
+ * Split a "<provider>:<model id>" string. A bare model ID means OpenAI
+ */
+export function parseModelSpec(spec: string): {
+  provider: string;
+  modelId: string;
+} {
+  const separator = spec.indexOf(":");
+  if (separator === -1) {
+    return { provider: "openai", modelId: spec.trim() };
+  }
+  return {
+    provider: spec.slice(0, separator).trim(),
+    modelId: spec.slice(separator + 1).trim()
+  };
+}
+
+/**
+ * The configured model string for a role, or the default
+ */
+export function getModelSpec(env: ModelEnv, role: ModelRole): string {
+  const value = env[ROLE_VARIABLES[role]];
+  return typeof value === "string" && value.trim() ? value : DEFAULT_MODEL;
+}
+
+/**
+ * Create the model configured for a role
+ */
+export function getModel(env: ModelEnv, role: ModelRole): LanguageModelV2 {
+  const { provider, modelId } = parseModelSpec(getModelSpec(env, role));
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(
+      `Unknown model provider "${provider}" in ${ROLE_VARIABLES[role]}. Available providers: ${[...providers.keys()].join(", ")}`
+    );
+  }
+  return factory(modelId, env);
+}
+
+/**
+ * Whether any role uses OpenAI, and so needs OPENAI_API_KEY
+ */
+export function requiresOpenAIKey(env: ModelEnv): boolean {
+  return (Object.keys(ROLE_VARIABLES) as ModelRole[]).some(
+    (role) => parseModelSpec(getModelSpec(env, role)).provider === "openai"
+  );
+}
+
+/**
+ * One mock model call, as seen by a mock script
+ */
+export interface MockModelCall {
+  modelId: string;
+  system: string;
+  // Text of the last user message
+  prompt: string;
+  // True for generateObject calls, which must answer with JSON
+  json: boolean;
+  toolNames: string[];
+  // Tool results since the last user message, oldest first
+  toolResults: { toolName: string; output: unknown }[];
+}
+
+/**
+ * What a mock model answers: text, or tool calls by tool name (a name
+ * without the MCP prefix matches a prefixed tool, e.g. "search_code")
+ */
+export type MockModelTurn =
+  | string
+  | { toolCalls: { toolName: string; input: unknown }[] };
+
+export type MockModelScript = (call: MockModelCall) => MockModelTurn;
+
+type CallOptions = Parameters<LanguageModelV2["doGenerate"]>[0];
+
+function describeMockCall(modelId: string, options: CallOptions) {
+  const call: MockModelCall = {
+    modelId,
+    system: "",
+    prompt: "",
+    json: options.responseFormat?.type === "json",
+    toolNames: (options.tools ?? []).map((tool) => tool.name),
+    toolResults: []
+  };
+
+  for (const message of options.prompt) {
+    if (message.role === "system") {
+      call.system = message.content;
+    } else if (message.role === "user") {
+      call.prompt = message.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("");
+      call.toolResults = [];
+    } else if (message.role === "tool") {
+      for (const part of message.content) {
+        call.toolResults.push({
+          toolName: part.toolName,
+          output: "value" in part.output ? part.output.value : undefined
+        });
+      }
+    }
+  }
+  return call;
+}
+
+/**
+ * A deterministic model that answers without calling any API
+ * By default it echoes the prompt; tests pass a script to control it
+ */
+export function createMockLanguageModel(
+  modelId: string,
+  script: MockModelScript = (call) => `Mock response to: ${call.prompt}`
+): LanguageModelV2 {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  const respond = (options: CallOptions) => {
+    const call = describeMockCall(modelId, options);
+    const turn = script(call);
+    if (typeof turn === "string") {
+      return { text: turn, toolCalls: [] };
+    }
+
+    const toolCalls = turn.toolCalls.map((toolCall, index) => ({
+      toolCallId: `mock-call-${index}`,
+      toolName:
+        call.toolNames.find(
+          (name) =>
+            name === toolCall.toolName || name.endsWith(`_${toolCall.toolName}`)
+        ) ?? toolCall.toolName,
+      input: JSON.stringify(toolCall.input ?? {})
+    }));
+    return { text: "", toolCalls };
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options) {
+      const { text, toolCalls } = respond(options);
+      return {
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...toolCalls.map((c) => ({ type: "tool-call" as const, ...c }))
+        ],
+        finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+        usage,
+        warnings: []
+      };
+    },
+    async doStream(options) {
+      const { text, toolCalls } = respond(options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            if (text) {
+              controller.enqueue({ type: "text-start", id: "0" });
+              controller.enqueue({ type: "text-delta", id: "0", delta: text });
+              controller.enqueue({ type: "text-end", id: "0" });
+            }
+            for (const toolCall of toolCalls) {
+              controller.enqueue({ type: "tool-call", ...toolCall });
+            }
+            controller.enqueue({
+              type: "finish",
+              finishReason: toolCalls.length > 0 ? "tool-calls" : "stop",
+              usage
+            });
+            controller.close();
+          }
+        })
+      };
+    }
+  };
+}
+
+registerModelProvider("openai", (modelId, env) =>
+  createOpenAI({
+    apiKey: env.OPENAI_API_KEY,
+    baseURL: env.GATEWAY_BASE_URL || undefined
+  })(modelId)
+);
+
+registerModelProvider("workers-ai", (modelId, env) => {
+  if (!env.AI) {
+    throw new Error("The workers-ai provider needs the AI binding");
+  }
+  return createWorkersAI({ binding: env.AI })(
+    modelId as Parameters<ReturnType<typeof createWorkersAI>>[0]
+  );
+});
+
+// Any server implementing the OpenAI chat completions API
+registerModelProvider("openai-compatible", (modelId, env) => {
+  if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+    throw new Error(
+      "The openai-compatible provider needs OPENAI_COMPATIBLE_BASE_URL"
+    );
+  }
+  return createOpenAI({
+    name: "openai-compatible",
+    baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+    apiKey: env.OPENAI_COMPATIBLE_API_KEY
+  }).chat(modelId);
+});
+
+registerModelProvider("mock", (modelId) => createMockLanguageModel(modelId));
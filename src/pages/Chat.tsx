@@ -4,7 +4,8 @@ import { useAgent } from "agents/react";
 import { isToolUIPart } from "ai";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
-import type { tools } from "@/tools";
+import { useSession } from "@/providers/SessionProvider";
+import useToolPolicy from "@/hooks/useToolPolicy";
 
 // Component imports
 import { Button } from "@/components/button/Button";
@@ -26,33 +27,10 @@ import {
   Lightning
 } from "@phosphor-icons/react";
 
-// List of local tools that require human confirmation
-const localToolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation"
-];
-
-// MCP tool patterns that require human confirmation
-const mcpToolsRequiringConfirmation = [
-  "update_issue",
-  "create_issue",
-  "delete_issue",
-  "create_comment",
-  "update_comment",
-  "delete_comment",
-  "assign_issue"
-];
-
-// Check if a tool requires confirmation (works for both local and MCP tools)
-function toolRequiresConfirmation(toolName: string): boolean {
-  if (localToolsRequiringConfirmation.includes(toolName as keyof typeof tools)) {
-    return true;
-  }
-  return mcpToolsRequiringConfirmation.some((pattern) =>
-    toolName.toLowerCase().includes(pattern.toLowerCase())
-  );
-}
-
 export default function Chat() {
+  const { agentName } = useSession();
+  const { requiresConfirmation: toolRequiresConfirmation, getInputSchema } =
+    useToolPolicy(agentName);
   const [theme, setTheme] = useState<"dark" | "light">(() => {
     // Check localStorage first, default to dark if not found
     const savedTheme = localStorage.getItem("theme");
@@ -91,7 +69,8 @@ export default function Chat() {
   };
 
   const agent = useAgent({
-    agent: "chat"
+    agent: "chat",
+    name: agentName
   });
 
   const [agentInput, setAgentInput] = useState("");
@@ -328,6 +307,7 @@ export default function Chat() {
                                 toolUIPart={part}
                                 toolCallId={toolCallId}
                                 needsConfirmation={needsConfirmation}
+                                inputSchema={getInputSchema(toolName)}
                                 onSubmit={({ toolCallId, result }) => {
                                   addToolResult({
                                     tool: part.type.replace("tool-", ""),
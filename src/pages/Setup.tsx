@@ -1,13 +1,15 @@
 import { McpSetup } from "@/components/mcp-setup/McpSetup";
+import { RepositoryMappings } from "@/components/repository-mappings/RepositoryMappings";
+import { ToolPolicyEditor } from "@/components/tool-policy/ToolPolicyEditor";
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
+import { useSession } from "@/providers/SessionProvider";
 
 export default function Setup() {
   const navigate = useNavigate();
-  // Use a default agent ID for MCP setup
-  // The Chat agent will be accessed at /agents/Chat/default
-  const agentId = "default";
+  // MCP servers, mappings and the tool policy belong to the signed-in user's Chat agent
+  const { user, agentName: agentId } = useSession();
 
   return (
     <div className="p-6">
@@ -21,7 +23,22 @@ export default function Setup() {
         Back to Tasks
       </Button>
 
+      {user && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+          Signed in as {user.email ?? user.id}. Webhooks for your tasks go to{" "}
+          <code>/webhooks/linear?agent={agentId}</code>
+        </p>
+      )}
+
       <McpSetup agentId={agentId} />
+
+      <div className="mt-8">
+        <RepositoryMappings agentId={agentId} />
+      </div>
+
+      <div className="mt-8">
+        <ToolPolicyEditor agentId={agentId} />
+      </div>
     </div>
   );
 }
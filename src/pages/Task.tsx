@@ -1,49 +1,97 @@
-import { useParams, useNavigate } from "react-router-dom";
-import { useState, useEffect } from "react";
+import { useParams, useNavigate, useOutletContext } from "react-router-dom";
+import { useState, useEffect, useCallback } from "react";
+import { useAgent } from "agents/react";
 import { Streamdown } from "streamdown";
 import { ArrowLeft, CalendarBlank, User, Tag, Flag } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
+import type { LayoutContext } from "@/components/Layout";
+import { useModal } from "@/providers/ModalProvider";
+import { useSession } from "@/providers/SessionProvider";
+import { ResearchProgress } from "@/components/research-progress/ResearchProgress";
+import useResearchProgress from "@/hooks/useResearchProgress";
+import {
+  ISSUE_TRACKER_NAMES,
+  ISSUE_TRACKER_STATES,
+  type ResearchProgressMessage,
+  type TaskResearchRun,
+  type TrackerComment,
+  type TrackerIssue,
+  type TrackerUser
+} from "@/shared";
 
-interface Comment {
-  id: string;
-  body: string;
-  createdAt: string;
-  user?: {
-    id: string;
-    name: string;
-    displayName?: string;
-  };
+interface TaskDetails extends TrackerIssue {
+  comments?: TrackerComment[];
+  // The user the issue tracker is connected as, when it can tell
+  viewer?: TrackerUser | null;
+  // Repositories the task's project, team or labels map to
+  repositories?: string[];
 }
 
-interface Label {
-  id: string;
-  name: string;
-  color?: string;
+type TaskAction =
+  | { kind: "claim" }
+  | { kind: "unclaim" }
+  | { kind: "transition"; state: string };
+
+// Whether the issue is assigned to the connected user
+function isAssignedToViewer(task: TaskDetails): boolean {
+  return (
+    !!task.assignee && !!task.viewer && task.assignee.id === task.viewer.id
+  );
 }
 
-interface TaskDetails {
-  id: string;
-  identifier?: string;
-  title: string;
-  description?: string;
-  url: string;
-  createdAt: string;
-  updatedAt?: string;
-  status?: string;
-  state?: {
-    name: string;
-    type: string;
-    color?: string;
-  };
-  priority?: number;
-  priorityLabel?: string;
-  labels?: Label[];
-  assignee?: {
-    id: string;
-    name: string;
-    displayName?: string;
-  };
-  comments?: Comment[];
+function describeTaskAction(task: TaskDetails, action: TaskAction): string {
+  const name = task.identifier ?? `"${task.title}"`;
+  const tracker = ISSUE_TRACKER_NAMES[task.tracker];
+  switch (action.kind) {
+    case "claim":
+      return task.assignee
+        ? `Assign ${name} to yourself in ${tracker}? It's currently assigned to ${task.assignee.displayName || task.assignee.name}.`
+        : `Assign ${name} to yourself in ${tracker}?`;
+    case "unclaim":
+      return `Remove yourself as the assignee of ${name} in ${tracker}?`;
+    case "transition":
+      return `Move ${name} to "${action.state}" in ${tracker}?`;
+  }
+}
+
+// What the task should look like once the action succeeds
+function applyTaskAction(task: TaskDetails, action: TaskAction): TaskDetails {
+  switch (action.kind) {
+    case "claim":
+      // Without a known viewer, wait for the tracker's version
+      return task.viewer ? { ...task, assignee: task.viewer } : task;
+    case "unclaim":
+      return { ...task, assignee: undefined };
+    case "transition":
+      return {
+        ...task,
+        state: { name: action.state, type: task.state?.type ?? "" }
+      };
+  }
+}
+
+function ConfirmTaskAction({
+  message,
+  onConfirm,
+  onCancel
+}: {
+  message: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="p-4">
+      <p className="text-sm mb-4">{message}</p>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={onConfirm}>
+          Confirm
+        </Button>
+      </div>
+    </div>
+  );
 }
 
 const priorityLabels: Record<number, string> = {
@@ -65,9 +113,29 @@ const priorityColors: Record<number, string> = {
 export default function Task() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { agentName } = useSession();
   const [task, setTask] = useState<TaskDetails | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [targetState, setTargetState] = useState("");
+  const [actionPending, setActionPending] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { openModal, closeModal } = useModal();
+  const { selectedRepository } = useOutletContext<LayoutContext>();
+  const [research, setResearch] = useState<TaskResearchRun[]>([]);
+  const [researchStarting, setResearchStarting] = useState(false);
+  const [researchError, setResearchError] = useState<string | null>(null);
+
+  // Live research progress for this task (workflows may reference the
+  // issue by ID or by identifier, e.g. "ABC-123")
+  const agent = useAgent({ agent: "chat", name: agentName });
+  const isThisTask = useCallback(
+    (message: ResearchProgressMessage) =>
+      !!message.taskId &&
+      (message.taskId === id || message.taskId === task?.identifier),
+    [id, task?.identifier]
+  );
+  const researchProgress = useResearchProgress(agent, isThisTask);
 
   useEffect(() => {
     if (id) {
@@ -75,11 +143,39 @@ export default function Task() {
     }
   }, [id]);
 
+  const fetchResearch = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await fetch(
+        `/agents/chat/${agentName}/tasks/${encodeURIComponent(id)}/research`
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch research (${response.status})`);
+      }
+      setResearch((await response.json()) as TaskResearchRun[]);
+    } catch (err) {
+      console.error("Failed to fetch research:", err);
+    }
+  }, [id, agentName]);
+
+  // Load the history, and reload it each time a live run finishes
+  const finishedRuns = researchProgress.filter(
+    (workflow) =>
+      workflow.status === "completed" || workflow.status === "failed"
+  ).length;
+  useEffect(() => {
+    if (finishedRuns >= 0) {
+      fetchResearch();
+    }
+  }, [fetchResearch, finishedRuns]);
+
   const fetchTask = async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch(`/agents/chat/default/tasks/${id}`);
+      const response = await fetch(
+        `/agents/chat/${agentName}/tasks/${encodeURIComponent(id!)}`
+      );
 
       if (!response.ok) {
         const errorData = (await response.json().catch(() => ({}))) as { error?: string };
@@ -96,6 +192,114 @@ export default function Task() {
     }
   };
 
+  // Mapped repositories win over the selected one; the task manager
+  // resolves them itself when no repository is sent
+  const mappedRepositories = task?.repositories ?? [];
+  const canResearch = mappedRepositories.length > 0 || !!selectedRepository;
+
+  const startResearch = async () => {
+    if (!task || !canResearch) return;
+    setResearchStarting(true);
+    setResearchError(null);
+    try {
+      const response = await fetch(
+        `/agents/task-manager/${agentName}/research/${encodeURIComponent(task.id)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            mappedRepositories.length > 0
+              ? {}
+              : { repository: selectedRepository?.full_name }
+          )
+        }
+      );
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          error?: string;
+        };
+        throw new Error(errorData.error || "Failed to start research");
+      }
+    } catch (err) {
+      console.error("Failed to start research:", err);
+      setResearchError(
+        err instanceof Error ? err.message : "Failed to start research"
+      );
+    } finally {
+      setResearchStarting(false);
+    }
+  };
+
+  const runTaskAction = async (action: TaskAction) => {
+    if (!task) return;
+    const previous = task;
+
+    // Show the change right away, then replace it with the tracker's version
+    setTask(applyTaskAction(task, action));
+    setActionPending(true);
+    setActionError(null);
+    try {
+      const response = await fetch(
+        `/agents/chat/${agentName}/tasks/${encodeURIComponent(task.id)}/${action.kind}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body:
+            action.kind === "transition"
+              ? JSON.stringify({ state: action.state })
+              : undefined
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => ({}))) as {
+          error?: string;
+          details?: string;
+        };
+        throw new Error(
+          errorData.details ||
+            errorData.error ||
+            `Failed to ${action.kind} task`
+        );
+      }
+
+      const updated = (await response.json()) as TrackerIssue | null;
+      if (updated) {
+        setTask((current) => ({
+          ...updated,
+          comments: current?.comments,
+          viewer: current?.viewer,
+          repositories: current?.repositories
+        }));
+      }
+      if (action.kind === "transition") {
+        setTargetState("");
+      }
+    } catch (err) {
+      console.error(`Failed to ${action.kind} task:`, err);
+      setTask(previous);
+      setActionError(
+        err instanceof Error ? err.message : `Failed to ${action.kind} task`
+      );
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const confirmTaskAction = (action: TaskAction) => {
+    if (!task) return;
+    openModal(
+      <ConfirmTaskAction
+        message={describeTaskAction(task, action)}
+        onCancel={closeModal}
+        onConfirm={() => {
+          closeModal();
+          runTaskAction(action);
+        }}
+      />
+    );
+  };
+
   if (loading) {
     return (
       <div className="p-4">
@@ -196,8 +400,65 @@ export default function Task() {
           rel="noopener noreferrer"
           className="text-[#F48120] hover:underline text-sm"
         >
-          View in Linear →
+          View in {ISSUE_TRACKER_NAMES[task.tracker]} →
         </a>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={actionPending}
+            onClick={() =>
+              confirmTaskAction({
+                kind: isAssignedToViewer(task) ? "unclaim" : "claim"
+              })
+            }
+          >
+            {isAssignedToViewer(task) ? "Unclaim" : "Claim"}
+          </Button>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (targetState.trim()) {
+                confirmTaskAction({
+                  kind: "transition",
+                  state: targetState.trim()
+                });
+              }
+            }}
+          >
+            <input
+              type="text"
+              list="task-states"
+              value={targetState}
+              onChange={(e) => setTargetState(e.target.value)}
+              placeholder="Move to state..."
+              className="w-40 px-2 py-1 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+            />
+            <datalist id="task-states">
+              {ISSUE_TRACKER_STATES[task.tracker]
+                .filter((state) => state !== task.state?.name)
+                .map((state) => (
+                  <option key={state} value={state} />
+                ))}
+            </datalist>
+            <Button
+              type="submit"
+              variant="secondary"
+              size="sm"
+              disabled={actionPending || !targetState.trim()}
+            >
+              Move
+            </Button>
+          </form>
+        </div>
+        {actionError && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+            {actionError}
+          </p>
+        )}
       </div>
 
       {/* Meta Info */}
@@ -208,10 +469,13 @@ export default function Task() {
             <span>{task.assignee.displayName || task.assignee.name}</span>
           </div>
         )}
-        <div className={`flex items-center gap-1.5 ${priorityColor}`}>
-          <Flag size={14} />
-          <span>{priorityLabel}</span>
-        </div>
+        {/* GitHub issues have no priority */}
+        {task.tracker !== "github" && (
+          <div className={`flex items-center gap-1.5 ${priorityColor}`}>
+            <Flag size={14} />
+            <span>{priorityLabel}</span>
+          </div>
+        )}
         {task.createdAt && (
           <div className="flex items-center gap-1.5 text-neutral-600 dark:text-neutral-400">
             <CalendarBlank size={14} />
@@ -255,6 +519,86 @@ export default function Task() {
         </div>
       )}
 
+      {/* Research: live progress and past runs */}
+      <div className="mb-4 pb-4 border-b border-neutral-200 dark:border-neutral-800">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xs font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wide">
+            Research
+          </h2>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={startResearch}
+            disabled={!canResearch || researchStarting}
+          >
+            {researchStarting ? "Starting..." : "Research this task"}
+          </Button>
+        </div>
+        {mappedRepositories.length > 0 ? (
+          <p className="text-xs text-neutral-500 mb-2">
+            Repositories: {mappedRepositories.join(", ")}
+          </p>
+        ) : (
+          !selectedRepository && (
+            <p className="text-xs text-neutral-500 mb-2">
+              Select a repository or map one to this task in Setup
+            </p>
+          )
+        )}
+        {researchError && (
+          <p className="text-xs text-red-500 mb-2">{researchError}</p>
+        )}
+        {researchProgress.length > 0 && (
+          <div className="mb-3">
+            <ResearchProgress workflows={researchProgress} />
+          </div>
+        )}
+        {research.length === 0 ? (
+          <p className="text-sm text-neutral-500 italic">No research yet</p>
+        ) : (
+          <div className="space-y-2">
+            {research.map((run, index) => (
+              <details
+                key={run.id}
+                open={index === 0}
+                className="rounded-md border border-neutral-200 dark:border-neutral-800 p-2"
+              >
+                <summary className="cursor-pointer text-xs text-neutral-600 dark:text-neutral-400">
+                  <span
+                    className={`font-medium ${
+                      run.status === "completed"
+                        ? "text-green-600 dark:text-green-500"
+                        : run.status === "failed"
+                          ? "text-red-500"
+                          : "text-neutral-500"
+                    }`}
+                  >
+                    {run.status}
+                  </span>
+                  {" · "}
+                  {run.repositories.join(", ")} · {run.depth} ·{" "}
+                  {new Date(run.createdAt).toLocaleString()}
+                  {run.cached && " · cached"}
+                </summary>
+                <div className="mt-2">
+                  {run.status === "completed" && run.results ? (
+                    <div className="markdown-body text-sm">
+                      <Streamdown>{run.results}</Streamdown>
+                    </div>
+                  ) : run.error ? (
+                    <p className="text-xs text-red-500">{run.error}</p>
+                  ) : (
+                    <p className="text-xs text-neutral-500 italic">
+                      No results yet
+                    </p>
+                  )}
+                </div>
+              </details>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Comments */}
       <div>
         <h2 className="text-xs font-semibold text-neutral-500 dark:text-neutral-400 mb-3 uppercase tracking-wide">
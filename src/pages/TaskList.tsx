@@ -1,86 +1,199 @@
 import { Link } from "react-router-dom";
 import { useState, useEffect } from "react";
+import { useAgent } from "agents/react";
+import { useSession } from "@/providers/SessionProvider";
+import {
+  TASK_SNAPSHOT_MESSAGE,
+  type IssueTrackerKind,
+  type TaskSnapshot,
+  type TaskSnapshotMessage,
+  type TaskSummary
+} from "@/shared";
 
-interface ClaimedTask {
-  id: string;
-  title: string;
-  description?: string;
-  url: string;
-  claimedAt: string;
-  researchStatus: "pending" | "in_progress" | "completed" | "failed";
+interface TaskPage {
+  tasks: TaskSummary[];
+  nextCursor: string | null;
 }
 
-interface McpServer {
-  id: string;
+// Query parameters of GET /tasks; empty values aren't sent
+interface TaskFilters {
+  q: string;
+  team: string;
+  project: string;
+  label: string;
+  state: string;
+  priority: string;
+  assignee: string;
+}
+
+const EMPTY_FILTERS: TaskFilters = {
+  q: "",
+  team: "",
+  project: "",
+  label: "",
+  state: "",
+  priority: "",
+  assignee: ""
+};
+
+const TEXT_FILTERS: { name: keyof TaskFilters; placeholder: string }[] = [
+  { name: "team", placeholder: "Team" },
+  { name: "project", placeholder: "Project" },
+  { name: "label", placeholder: "Label" },
+  { name: "state", placeholder: "State (default: open)" },
+  { name: "assignee", placeholder: "Assignee" }
+];
+
+const PRIORITY_OPTIONS = [
+  { value: "", label: "Any priority" },
+  { value: "1", label: "Urgent" },
+  { value: "2", label: "High" },
+  { value: "3", label: "Medium" },
+  { value: "4", label: "Low" },
+  { value: "0", label: "No priority" }
+];
+
+const filterInputClasses =
+  "px-2 py-1.5 text-sm border border-neutral-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100";
+
+function taskQuery(filters: TaskFilters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value.trim()) {
+      params.set(name, value.trim());
+    }
+  }
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  return params.toString();
+}
+
+// Finished tasks drop out of lists that weren't filtered by state
+function isFinished(task: TaskSummary): boolean {
+  return (
+    ["completed", "canceled", "closed"].includes(task.state?.type ?? "") ||
+    ["Done", "Canceled", "Duplicate"].includes(task.state?.name ?? "")
+  );
+}
+
+/**
+ * Add the tasks a task snapshot message changed to the ones received so far
+ */
+function applySnapshotMessage(
+  snapshot: TaskSnapshot | null,
+  message: TaskSnapshotMessage
+): TaskSnapshot {
+  const tasks = { ...snapshot?.tasks };
+  for (const id of message.removed) {
+    delete tasks[id];
+  }
+  for (const task of message.tasks) {
+    tasks[task.id] = task;
+  }
+  return {
+    version: message.version,
+    viewerId: message.viewerId,
+    tasks,
+    removed: [
+      ...(snapshot?.removed ?? []).filter((id) => !(id in tasks)),
+      ...message.removed
+    ]
+  };
+}
+
+/**
+ * Swap fetched tasks for their latest version in the agent's task snapshot
+ */
+function patchTasks(
+  tasks: TaskSummary[],
+  snapshot: TaskSnapshot | null,
+  filters: TaskFilters
+): TaskSummary[] {
+  if (!snapshot) return tasks;
+  const removed = new Set(snapshot.removed);
+  return tasks
+    .filter((task) => !removed.has(task.id))
+    .map((task) => snapshot.tasks[task.id] ?? task)
+    .filter((task) => filters.state.trim() || !isFinished(task));
+}
+
+interface IssueTrackerStatus {
+  kind: IssueTrackerKind;
   name: string;
   state: "authenticating" | "connecting" | "ready" | "discovering" | "failed";
 }
 
 export default function TaskList() {
-  const [myTasks, setMyTasks] = useState<ClaimedTask[]>([]);
-  const [allTasks, setAllTasks] = useState<ClaimedTask[]>([]);
+  const { agentName } = useSession();
+  const [myTasks, setMyTasks] = useState<TaskSummary[]>([]);
+  const [allTasks, setAllTasks] = useState<TaskSummary[]>([]);
   const [tasksLoading, setTasksLoading] = useState(true);
-  const [linearConnected, setLinearConnected] = useState(false);
+  const [issueTracker, setIssueTracker] = useState<IssueTrackerStatus | null>(
+    null
+  );
   const [tasksError, setTasksError] = useState<string | null>(null);
+  // Filters being edited, and the ones the lists were fetched with
+  const [draftFilters, setDraftFilters] = useState<TaskFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<TaskFilters>(EMPTY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
+  // Tool calls, webhooks and research runs update the agent's task snapshot,
+  // which sends the tasks they changed here
+  const [snapshot, setSnapshot] = useState<TaskSnapshot | null>(null);
+  const agent = useAgent({ agent: "chat", name: agentName });
   useEffect(() => {
-    fetchData();
+    const handleMessage = (event: MessageEvent) => {
+      if (typeof event.data !== "string") return;
 
-    // Listen for Linear updates from chat
-    const handleLinearUpdate = () => {
-      console.log("[TaskList] Linear update detected, refreshing tasks...");
-      fetchData();
+      let message: TaskSnapshotMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type !== TASK_SNAPSHOT_MESSAGE) return;
+      setSnapshot((prev) => applySnapshotMessage(prev, message));
     };
 
-    window.addEventListener("linear-updated", handleLinearUpdate);
-
+    agent.addEventListener("message", handleMessage);
     return () => {
-      window.removeEventListener("linear-updated", handleLinearUpdate);
+      agent.removeEventListener("message", handleMessage);
     };
-  }, []);
+  }, [agent]);
 
-  const fetchData = async () => {
+  useEffect(() => {
+    fetchData(filters);
+  }, [filters]);
+
+  const fetchData = async (filters: TaskFilters) => {
     await Promise.all([
-      fetchMyTasks(),
-      fetchAllTasks(),
-      checkLinearConnection()
+      fetchMyTasks(filters),
+      fetchAllTasks(filters),
+      checkIssueTracker()
     ]);
   };
 
-  const checkLinearConnection = async () => {
+  const checkIssueTracker = async () => {
     try {
-      const response = await fetch("/agents/chat/default/mcp-servers");
+      const response = await fetch(`/agents/chat/${agentName}/issue-tracker`);
       if (response.ok) {
-        const data = (await response.json()) as {
-          servers?: Record<string, McpServer> | McpServer[];
-        };
-
-        let serversArray: McpServer[] = [];
-        if (data.servers) {
-          if (Array.isArray(data.servers)) {
-            serversArray = data.servers;
-          } else {
-            serversArray = Object.entries(data.servers).map(([id, server]) => ({
-              ...server,
-              id: server.id || id
-            }));
-          }
-        }
-
-        const linear = serversArray.find((s) => s.name === "Linear");
-        setLinearConnected(linear?.state === "ready");
+        setIssueTracker((await response.json()) as IssueTrackerStatus | null);
       }
     } catch (error) {
-      console.error("Failed to check Linear connection:", error);
+      console.error("Failed to check issue tracker connection:", error);
     }
   };
 
-  const fetchMyTasks = async () => {
+  const fetchMyTasks = async (filters: TaskFilters) => {
     try {
-      const response = await fetch("/agents/chat/default/my-tasks");
+      const response = await fetch(
+        `/agents/chat/${agentName}/my-tasks?${taskQuery(filters)}`
+      );
       if (response.ok) {
-        const data = (await response.json()) as ClaimedTask[];
-        setMyTasks(data);
+        const data = (await response.json()) as TaskPage;
+        setMyTasks(data.tasks);
         setTasksError(null);
       } else {
         const errorData = await response.json();
@@ -94,27 +207,90 @@ export default function TaskList() {
     }
   };
 
-  const fetchAllTasks = async () => {
+  // Fetch the first page of tasks, or append the page at `cursor`
+  const fetchAllTasks = async (
+    filters: TaskFilters,
+    cursor?: string | null
+  ) => {
     try {
-      const response = await fetch("/agents/chat/default/tasks");
+      const response = await fetch(
+        `/agents/chat/${agentName}/tasks?${taskQuery(filters, cursor)}`
+      );
       if (response.ok) {
-        const data = (await response.json()) as ClaimedTask[];
-        setAllTasks(data);
+        const data = (await response.json()) as TaskPage;
+        setAllTasks((tasks) =>
+          cursor ? [...tasks, ...data.tasks] : data.tasks
+        );
+        setNextCursor(data.nextCursor);
         setTasksError(null);
       } else {
         const errorData = await response.json();
         setTasksError(errorData.error || "Failed to fetch tasks");
         setAllTasks([]);
+        setNextCursor(null);
       }
     } catch (error) {
       console.error("Failed to fetch all tasks:", error);
       setTasksError("Network error - could not connect to server");
       setAllTasks([]);
+      setNextCursor(null);
     } finally {
       setTasksLoading(false);
     }
   };
 
+  const loadMoreTasks = async () => {
+    setLoadingMore(true);
+    await fetchAllTasks(filters, nextCursor);
+    setLoadingMore(false);
+  };
+
+  const applyFilters = (event: React.FormEvent) => {
+    event.preventDefault();
+    setTasksLoading(true);
+    setFilters(draftFilters);
+  };
+
+  const clearFilters = () => {
+    setDraftFilters(EMPTY_FILTERS);
+    setTasksLoading(true);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const filtersActive = Object.values(filters).some((value) => value.trim());
+
+  // Drop tasks assigned away from the user and add the ones newly assigned
+  // to them. The snapshot can't apply the filters, so filtered lists are
+  // refetched instead
+  const viewerId = snapshot?.viewerId;
+  let visibleMyTasks = patchTasks(myTasks, snapshot, filters);
+  let newlyAssigned: TaskSummary[] = [];
+  if (snapshot && viewerId) {
+    visibleMyTasks = visibleMyTasks.filter(
+      (task) => task.assignee?.id === viewerId
+    );
+    const listed = new Set(visibleMyTasks.map((task) => task.id));
+    newlyAssigned = Object.values(snapshot.tasks).filter(
+      (task) =>
+        task.assignee?.id === viewerId &&
+        !listed.has(task.id) &&
+        !isFinished(task)
+    );
+    if (!filtersActive) {
+      visibleMyTasks = [...newlyAssigned].reverse().concat(visibleMyTasks);
+    }
+  }
+  const newlyAssignedIds = filtersActive
+    ? newlyAssigned.map((task) => task.id).join(",")
+    : "";
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refetch only when newly assigned tasks arrive
+  useEffect(() => {
+    if (newlyAssignedIds) {
+      fetchMyTasks(filters);
+    }
+  }, [newlyAssignedIds]);
+  const visibleAllTasks = patchTasks(allTasks, snapshot, filters);
+
   return (
     <div className="p-6">
       {/* Error Banner */}
@@ -124,11 +300,70 @@ export default function TaskList() {
             {tasksError}
           </p>
           <p className="text-xs text-red-600 dark:text-red-300 mt-1">
-            Check that Linear MCP server is connected and running in Setup.
+            Check that the {issueTracker?.name ?? "Linear or GitHub"} MCP server
+            is connected and running in Setup.
           </p>
         </div>
       )}
 
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="mb-6 space-y-2">
+        <input
+          type="search"
+          value={draftFilters.q}
+          onChange={(e) =>
+            setDraftFilters({ ...draftFilters, q: e.target.value })
+          }
+          placeholder="Search tasks..."
+          className={`w-full ${filterInputClasses}`}
+        />
+        <div className="flex flex-wrap gap-2">
+          {TEXT_FILTERS.map((filter) => (
+            <input
+              key={filter.name}
+              type="text"
+              value={draftFilters[filter.name]}
+              onChange={(e) =>
+                setDraftFilters({
+                  ...draftFilters,
+                  [filter.name]: e.target.value
+                })
+              }
+              placeholder={filter.placeholder}
+              className={`w-36 ${filterInputClasses}`}
+            />
+          ))}
+          <select
+            value={draftFilters.priority}
+            onChange={(e) =>
+              setDraftFilters({ ...draftFilters, priority: e.target.value })
+            }
+            className={filterInputClasses}
+          >
+            {PRIORITY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-3 py-1.5 text-sm rounded-md bg-[#F48120] text-white hover:bg-[#F48120]/90"
+          >
+            Apply
+          </button>
+          {filtersActive && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="px-3 py-1.5 text-sm rounded-md text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
       {/* My Tasks Section */}
       <div className="mb-8">
         <h2 className="text-lg font-semibold mb-3">My Tasks</h2>
@@ -136,23 +371,23 @@ export default function TaskList() {
           <div className="text-center py-8 text-neutral-600 dark:text-neutral-400 text-sm">
             Loading tasks...
           </div>
-        ) : myTasks.length === 0 ? (
+        ) : visibleMyTasks.length === 0 ? (
           <div className="text-center py-8 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-200 dark:border-neutral-800">
             <p className="text-neutral-600 dark:text-neutral-400 text-sm mb-2">
               No tasks assigned to you
             </p>
             <p className="text-xs text-neutral-500 dark:text-neutral-500">
-              {linearConnected
-                ? "You don't have any assigned tasks in Linear"
-                : "Connect Linear in Setup to start claiming tasks"}
+              {issueTracker?.state === "ready"
+                ? `You don't have any assigned tasks in ${issueTracker.name}`
+                : "Connect Linear or GitHub in Setup to start claiming tasks"}
             </p>
           </div>
         ) : (
           <div className="space-y-2">
-            {myTasks.map((task) => (
+            {visibleMyTasks.map((task) => (
               <Link
                 key={task.id}
-                to={`/${task.id}`}
+                to={`/${encodeURIComponent(task.id)}`}
                 className="bg-white dark:bg-neutral-900 p-3 rounded-lg border border-neutral-200 dark:border-neutral-800 flex items-center justify-between hover:bg-neutral-50 dark:hover:bg-neutral-850 transition-colors cursor-pointer block"
               >
                 <h3 className="font-medium text-sm">{task.title}</h3>
@@ -175,15 +410,17 @@ export default function TaskList() {
         ) : (
           (() => {
             // Filter out tasks that are already in "My Tasks"
-            const myTaskIds = new Set(myTasks.map((task) => task.id));
-            const unassignedTasks = allTasks.filter(
+            const myTaskIds = new Set(visibleMyTasks.map((task) => task.id));
+            const unassignedTasks = visibleAllTasks.filter(
               (task) => !myTaskIds.has(task.id)
             );
 
-            return unassignedTasks.length === 0 ? (
+            return unassignedTasks.length === 0 && !nextCursor ? (
               <div className="text-center py-8 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-200 dark:border-neutral-800">
                 <p className="text-neutral-600 dark:text-neutral-400 text-sm">
-                  No unassigned tasks available
+                  {filtersActive
+                    ? "No tasks match these filters"
+                    : "No unassigned tasks available"}
                 </p>
               </div>
             ) : (
@@ -191,7 +428,7 @@ export default function TaskList() {
                 {unassignedTasks.map((task) => (
                   <Link
                     key={task.id}
-                    to={`/${task.id}`}
+                    to={`/${encodeURIComponent(task.id)}`}
                     className="bg-white dark:bg-neutral-900 p-3 rounded-lg border border-neutral-200 dark:border-neutral-800 flex items-center justify-between hover:bg-neutral-50 dark:hover:bg-neutral-850 transition-colors cursor-pointer block"
                   >
                     <h3 className="font-medium text-sm">{task.title}</h3>
@@ -200,6 +437,16 @@ export default function TaskList() {
                     </span>
                   </Link>
                 ))}
+                {nextCursor && (
+                  <button
+                    type="button"
+                    onClick={loadMoreTasks}
+                    disabled={loadingMore}
+                    className="w-full py-2 text-sm text-[#F48120] hover:underline disabled:opacity-50"
+                  >
+                    {loadingMore ? "Loading..." : "Load more"}
+                  </button>
+                )}
               </div>
             );
           })()
@@ -0,0 +1,67 @@
+import {
+  createContext,
+  type ReactNode,
+  useContext,
+  useEffect,
+  useState
+} from "react";
+import type { AuthSession } from "@/shared";
+
+const SessionContext = createContext<AuthSession | undefined>(undefined);
+
+/**
+ * Load the signed-in user and the name of their agent instances
+ * Nothing below it renders until the session is known, so pages can build
+ * agent URLs from it right away
+ */
+export const SessionProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/auth/session");
+        if (!response.ok) {
+          const errorData = (await response.json().catch(() => ({}))) as {
+            error?: string;
+          };
+          throw new Error(errorData.error || "Failed to load session");
+        }
+        setSession((await response.json()) as AuthSession);
+      } catch (err) {
+        console.error("Failed to load session:", err);
+        setError(err instanceof Error ? err.message : "Failed to load session");
+      }
+    };
+    fetchSession();
+  }, []);
+
+  if (error) {
+    return (
+      <div className="p-6 text-sm text-neutral-600 dark:text-neutral-400">
+        <p className="font-semibold text-neutral-900 dark:text-neutral-100">
+          Sign in required
+        </p>
+        <p>{error}</p>
+      </div>
+    );
+  }
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <SessionContext.Provider value={session}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = () => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used within a SessionProvider");
+  }
+  return context;
+};
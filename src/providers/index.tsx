@@ -1,10 +1,13 @@
 import { ModalProvider } from "@/providers/ModalProvider";
+import { SessionProvider } from "@/providers/SessionProvider";
 import { TooltipProvider } from "@/providers/TooltipProvider";
 
 export const Providers = ({ children }: { children: React.ReactNode }) => {
   return (
-    <TooltipProvider>
-      <ModalProvider>{children}</ModalProvider>
-    </TooltipProvider>
+    <SessionProvider>
+      <TooltipProvider>
+        <ModalProvider>{children}</ModalProvider>
+      </TooltipProvider>
+    </SessionProvider>
   );
 };
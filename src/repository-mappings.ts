@@ -0,0 +1,108 @@
+import { parseGitHubIssueId } from "./issue-trackers";
+import {
+  REPOSITORY_MAPPING_FIELDS,
+  type RepositoryMapping,
+  type RepositoryMappingField,
+  type TrackerIssue
+} from "./shared";
+
+/**
+ * Repository mappings
+ *
+ * Tasks don't say which GitHub repositories their code lives in, so teams,
+ * projects and labels are mapped to repositories once and research for a
+ * task defaults to the repositories its issue maps to.
+ */
+
+export interface RepositoryMappingInput {
+  field: RepositoryMappingField;
+  value: string;
+  repositories: string[];
+}
+
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+/**
+ * Validate a mapping from a request body
+ * Returns the cleaned-up mapping, or an error message
+ */
+export function parseRepositoryMappingInput(
+  body: unknown
+): RepositoryMappingInput | string {
+  const { field, value, repositories } = (body ?? {}) as {
+    field?: unknown;
+    value?: unknown;
+    repositories?: unknown;
+  };
+
+  if (!REPOSITORY_MAPPING_FIELDS.includes(field as RepositoryMappingField)) {
+    return `field must be one of ${REPOSITORY_MAPPING_FIELDS.join(", ")}`;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    return "value is required";
+  }
+  const names = Array.isArray(repositories)
+    ? repositories.map((repo) => String(repo).trim()).filter(Boolean)
+    : [];
+  if (names.length === 0) {
+    return "repositories must list at least one repository";
+  }
+  const invalid = names.find((repo) => !REPOSITORY_PATTERN.test(repo));
+  if (invalid) {
+    return `Invalid repository "${invalid}", expected owner/repo`;
+  }
+
+  return {
+    field: field as RepositoryMappingField,
+    value: value.trim(),
+    repositories: [...new Set(names)]
+  };
+}
+
+function issueValues(
+  issue: TrackerIssue,
+  field: RepositoryMappingField
+): string[] {
+  switch (field) {
+    case "team":
+      return issue.team ? [issue.team] : [];
+    case "project":
+      return issue.project ? [issue.project] : [];
+    case "label":
+      return (issue.labels ?? []).map((label) => label.name);
+  }
+}
+
+/**
+ * Repositories an issue maps to, most specific first: project, then team,
+ * then label mappings. A GitHub issue's own repository comes last
+ */
+export function resolveMappedRepositories(
+  issue: TrackerIssue,
+  mappings: RepositoryMapping[]
+): string[] {
+  const repositories: string[] = [];
+  const add = (repo: string) => {
+    if (!repositories.some((r) => r.toLowerCase() === repo.toLowerCase())) {
+      repositories.push(repo);
+    }
+  };
+
+  for (const field of REPOSITORY_MAPPING_FIELDS) {
+    const values = issueValues(issue, field).map((v) => v.toLowerCase());
+    for (const mapping of mappings) {
+      if (
+        mapping.field === field &&
+        values.includes(mapping.value.toLowerCase())
+      ) {
+        mapping.repositories.forEach(add);
+      }
+    }
+  }
+
+  const github = issue.tracker === "github" && parseGitHubIssueId(issue.id);
+  if (github) {
+    add(`${github.owner}/${github.repo}`);
+  }
+  return repositories;
+}
@@ -0,0 +1,433 @@
+import type {
+  ResearchCitation,
+  ResearchFinding,
+  ResearchReport
+} from "./shared";
+
+/**
+ * A file the research read or a code search match it found through the
+ * GitHub MCP tools. Report citations must point at one of these
+ */
+export interface ResearchSource {
+  // Short ID the synthesis model cites, e.g. "S3"
+  id: string;
+  repository: string;
+  path: string;
+  commitSha: string | null;
+  tool: "get_file_contents" | "search_code";
+  stepIndex: number;
+  // Full file contents, only known for files read with get_file_contents
+  content: string | null;
+}
+
+export type ResearchSourceInput = Omit<ResearchSource, "id" | "stepIndex">;
+
+/**
+ * A finding as written by the synthesis model, before its citations are
+ * checked against the sources
+ */
+export interface ResearchFindingDraft {
+  title: string;
+  detail: string;
+  steps: number[];
+  citations: {
+    source: string;
+    quote: string | null;
+    startLine: number | null;
+    endLine: number | null;
+  }[];
+}
+
+export interface ResearchReportDraft {
+  summary: string;
+  findings: ResearchFindingDraft[];
+}
+
+const COMMIT_SHA_PATTERN = /\b[0-9a-f]{40}\b/i;
+
+// Quotes shorter than this match too many lines to prove anything
+const MIN_QUOTE_LENGTH = 10;
+
+function asCommitSha(value: unknown): string | null {
+  return typeof value === "string" && /^[0-9a-f]{40}$/i.test(value)
+    ? value.toLowerCase()
+    : null;
+}
+
+/**
+ * Text and embedded resources of an MCP tool result
+ */
+function toolResultParts(
+  output: unknown
+): { text: string; uri: string | null }[] {
+  if (typeof output === "string") {
+    return [{ text: output, uri: null }];
+  }
+
+  const result = (output ?? {}) as {
+    isError?: boolean;
+    content?: {
+      type: string;
+      text?: string;
+      resource?: { uri?: string; text?: string };
+    }[];
+  };
+  if (result.isError || !Array.isArray(result.content)) {
+    return [];
+  }
+
+  const parts: { text: string; uri: string | null }[] = [];
+  for (const part of result.content) {
+    if (part.type === "text" && typeof part.text === "string") {
+      parts.push({ text: part.text, uri: null });
+    } else if (
+      part.type === "resource" &&
+      typeof part.resource?.text === "string"
+    ) {
+      parts.push({ text: part.resource.text, uri: part.resource.uri ?? null });
+    }
+  }
+  return parts;
+}
+
+function isDirectoryListing(text: string): boolean {
+  try {
+    return Array.isArray(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract the files and search matches a research tool call returned
+ * Tool names may carry an MCP server prefix, so they are matched by suffix
+ */
+export function extractResearchSources(
+  toolName: string,
+  input: unknown,
+  output: unknown
+): ResearchSourceInput[] {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const parts = toolResultParts(output);
+
+  if (toolName.endsWith("get_file_contents")) {
+    const path = typeof args.path === "string" ? args.path : "";
+    if (!args.owner || !args.repo || !path || path.endsWith("/")) {
+      return [];
+    }
+
+    // Newer servers embed the file as a resource whose URI carries the
+    // commit SHA; older ones return the raw file as text
+    const file =
+      parts.find((part) => part.uri) ??
+      parts.find((part) => !isDirectoryListing(part.text));
+    if (!file) {
+      return [];
+    }
+
+    const uriSha = file.uri?.match(COMMIT_SHA_PATTERN)?.[0] ?? null;
+    return [
+      {
+        repository: `${args.owner}/${args.repo}`,
+        path: path.replace(/^\/+/, ""),
+        commitSha:
+          asCommitSha(uriSha) ?? asCommitSha(args.sha) ?? asCommitSha(args.ref),
+        tool: "get_file_contents",
+        content: file.text
+      }
+    ];
+  }
+
+  if (toolName.endsWith("search_code")) {
+    const sources: ResearchSourceInput[] = [];
+    for (const part of parts) {
+      let items: unknown;
+      try {
+        items = (JSON.parse(part.text) as { items?: unknown }).items;
+      } catch {
+        continue;
+      }
+      if (!Array.isArray(items)) continue;
+
+      for (const item of items as {
+        path?: string;
+        html_url?: string;
+        repository?: { full_name?: string };
+      }[]) {
+        const repository = item.repository?.full_name;
+        if (!repository || !item.path) continue;
+        // The item's own `sha` is the blob SHA; the commit is in its URL
+        const urlSha = item.html_url?.match(COMMIT_SHA_PATTERN)?.[0];
+        sources.push({
+          repository,
+          path: item.path,
+          commitSha: asCommitSha(urlSha),
+          tool: "search_code",
+          content: null
+        });
+      }
+    }
+    return sources;
+  }
+
+  return [];
+}
+
+/**
+ * Add sources found by a research step, numbering new ones S1, S2, ...
+ * A file read after it was found by search replaces the search match
+ */
+export function addResearchSources(
+  sources: ResearchSource[],
+  inputs: ResearchSourceInput[],
+  stepIndex: number
+) {
+  for (const input of inputs) {
+    const existing = sources.find(
+      (source) =>
+        source.repository.toLowerCase() === input.repository.toLowerCase() &&
+        source.path === input.path &&
+        (source.commitSha === input.commitSha ||
+          !source.commitSha ||
+          !input.commitSha)
+    );
+
+    if (!existing) {
+      sources.push({ ...input, id: `S${sources.length + 1}`, stepIndex });
+    } else if (!existing.content && input.content) {
+      existing.content = input.content;
+      existing.tool = input.tool;
+      existing.commitSha = input.commitSha ?? existing.commitSha;
+    }
+  }
+}
+
+/**
+ * Find the 1-based line range of a code quote in a file
+ * Lines are compared trimmed so indentation differences don't matter
+ */
+export function locateQuote(
+  content: string,
+  quote: string
+): { startLine: number; endLine: number } | null {
+  const quoteLines = quote
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (quoteLines.join("").length < MIN_QUOTE_LENGTH) {
+    return null;
+  }
+
+  const lines = content.split("\n").map((line) => line.trim());
+  for (let start = 0; start < lines.length; start++) {
+    if (!lines[start].includes(quoteLines[0])) continue;
+
+    let line = start + 1;
+    let matched = 1;
+    while (matched < quoteLines.length && line < lines.length) {
+      if (!lines[line]) {
+        line++;
+        continue;
+      }
+      if (!lines[line].includes(quoteLines[matched])) break;
+      matched++;
+      line++;
+    }
+
+    if (matched === quoteLines.length) {
+      return { startLine: start + 1, endLine: line };
+    }
+  }
+  return null;
+}
+
+/**
+ * GitHub permalink for a file, pinned to a commit
+ */
+export function githubPermalink(
+  repository: string,
+  path: string,
+  commitSha: string,
+  startLine?: number | null,
+  endLine?: number | null
+): string {
+  const encodedPath = path.split("/").map(encodeURIComponent).join("/");
+  let url = `https://github.com/${repository}/blob/${commitSha}/${encodedPath}`;
+  if (startLine) {
+    url += `#L${startLine}`;
+    if (endLine && endLine > startLine) {
+      url += `-L${endLine}`;
+    }
+  }
+  return url;
+}
+
+/**
+ * Check a drafted citation against the sources
+ * Citations of unknown sources are dropped. A citation is verified when its
+ * quote was found in a file the research read. Sources without a commit
+ * are pinned to their repository's head commit, and get no permalink when
+ * that isn't known either
+ */
+function resolveCitation(
+  draft: ResearchFindingDraft["citations"][number],
+  sources: ResearchSource[],
+  headShas: Record<string, string>
+): ResearchCitation | null {
+  const source = sources.find(
+    (s) => s.id.toLowerCase() === draft.source.trim().toLowerCase()
+  );
+  if (!source) {
+    return null;
+  }
+
+  let startLine: number | null = null;
+  let endLine: number | null = null;
+  let verified = false;
+
+  if (source.content) {
+    const located = draft.quote
+      ? locateQuote(source.content, draft.quote)
+      : null;
+    const lineCount = source.content.split("\n").length;
+
+    if (located) {
+      ({ startLine, endLine } = located);
+      verified = true;
+    } else if (
+      draft.startLine &&
+      draft.startLine >= 1 &&
+      draft.startLine <= lineCount
+    ) {
+      startLine = draft.startLine;
+      endLine = Math.min(
+        Math.max(draft.endLine ?? draft.startLine, draft.startLine),
+        lineCount
+      );
+    }
+  }
+
+  const commitSha =
+    source.commitSha ?? headShas[source.repository.toLowerCase()] ?? null;
+  return {
+    repository: source.repository,
+    path: source.path,
+    commitSha,
+    startLine,
+    endLine,
+    url: commitSha
+      ? githubPermalink(
+          source.repository,
+          source.path,
+          commitSha,
+          startLine,
+          endLine
+        )
+      : null,
+    verified
+  };
+}
+
+/**
+ * Turn the synthesis model's draft into the stored report, checking every
+ * citation against the sources the research actually read
+ * `stepRepositories` holds the repository each step researched, by step
+ * index; when there is more than one, findings are tagged with the
+ * repositories of their steps and citations. `headShas` holds the head
+ * commit of each repository, by lowercase name, when it is known
+ */
+export function resolveResearchReport(
+  draft: ResearchReportDraft,
+  sources: ResearchSource[],
+  stepCount: number,
+  stepRepositories: string[] = [],
+  headShas: Record<string, string> = {}
+): ResearchReport {
+  const multiRepository = new Set(stepRepositories.filter(Boolean)).size > 1;
+
+  const findings: ResearchFinding[] = draft.findings.map((finding) => {
+    const citations: ResearchCitation[] = [];
+    for (const citation of finding.citations) {
+      const resolved = resolveCitation(citation, sources, headShas);
+      if (
+        resolved &&
+        !citations.some(
+          (c) =>
+            c.repository === resolved.repository &&
+            c.path === resolved.path &&
+            c.commitSha === resolved.commitSha &&
+            c.startLine === resolved.startLine &&
+            c.endLine === resolved.endLine
+        )
+      ) {
+        citations.push(resolved);
+      }
+    }
+
+    const steps = [...new Set(finding.steps)]
+      .filter(
+        (step) => Number.isInteger(step) && step >= 1 && step <= stepCount
+      )
+      .sort((a, b) => a - b);
+
+    const resolvedFinding: ResearchFinding = {
+      title: finding.title.trim(),
+      detail: finding.detail.trim(),
+      steps,
+      citations
+    };
+    if (multiRepository) {
+      const repositories = new Set<string>();
+      for (const step of steps) {
+        if (stepRepositories[step - 1]) {
+          repositories.add(stepRepositories[step - 1]);
+        }
+      }
+      for (const citation of citations) {
+        repositories.add(citation.repository);
+      }
+      resolvedFinding.repositories = [...repositories];
+    }
+    return resolvedFinding;
+  });
+
+  return { summary: draft.summary.trim(), findings };
+}
+
+function formatCitation(citation: ResearchCitation): string {
+  let label = citation.path;
+  if (citation.startLine) {
+    label +=
+      citation.endLine && citation.endLine > citation.startLine
+        ? `:${citation.startLine}-${citation.endLine}`
+        : `:${citation.startLine}`;
+  }
+  const link = citation.url
+    ? `[\`${label}\`](${citation.url})`
+    : `\`${label}\``;
+  return citation.verified ? link : `${link} (unverified)`;
+}
+
+/**
+ * Render a report as markdown for chat messages and Linear comments
+ */
+export function renderResearchReport(report: ResearchReport): string {
+  const sections = [report.summary];
+
+  if (report.findings.length > 0) {
+    sections.push("### Findings");
+    for (const finding of report.findings) {
+      const steps = finding.steps.map((step) => `[Step ${step}]`).join(" ");
+      const repositories = finding.repositories?.length
+        ? ` (${finding.repositories.join(", ")})`
+        : "";
+      let section = `**${finding.title}**${repositories}${steps ? ` ${steps}` : ""}\n\n${finding.detail}`;
+      if (finding.citations.length > 0) {
+        section += `\n\nSources: ${finding.citations.map(formatCitation).join(", ")}`;
+      }
+      sections.push(section);
+    }
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,141 @@
+/**
+ * Secrets at rest and in logs
+ *
+ * MCP personal access tokens are stored encrypted with AES-GCM, under a key
+ * derived from the MCP_TOKEN_KEY Worker secret. Each token is bound to its
+ * server ID, so a stored token can't be copied to another server's row.
+ */
+
+export interface SecretsEnv {
+  // Any long random string, e.g. from `openssl rand -base64 32`
+  MCP_TOKEN_KEY?: string;
+}
+
+const TOKEN_VERSION = "v1";
+
+// The placeholder from .dev.vars.example, which is public and never used
+// as a key
+const EXAMPLE_TOKEN_KEY = "change-me-to-a-long-random-string";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Derived keys by secret, so HKDF runs once per isolate
+const tokenKeys = new Map<string, Promise<CryptoKey>>();
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function tokenKey(env: SecretsEnv): Promise<CryptoKey> {
+  const secret = env.MCP_TOKEN_KEY;
+  if (!secret || secret === EXAMPLE_TOKEN_KEY) {
+    throw new Error(
+      "MCP_TOKEN_KEY is not set or is the example value. Add a random one (`openssl rand -base64 32`) as a Worker secret to store MCP server tokens"
+    );
+  }
+
+  let key = tokenKeys.get(secret);
+  if (!key) {
+    key = crypto.subtle
+      .importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new Uint8Array(),
+            info: encoder.encode("mcp-server-token")
+          },
+          material,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        )
+      );
+    tokenKeys.set(secret, key);
+  }
+  return key;
+}
+
+export function isTokenEncryptionConfigured(env: SecretsEnv): boolean {
+  return !!env.MCP_TOKEN_KEY && env.MCP_TOKEN_KEY !== EXAMPLE_TOKEN_KEY;
+}
+
+/**
+ * Encrypt an MCP server's token for storage
+ * Returns "v1.<iv>.<ciphertext>", base64 encoded
+ */
+export async function encryptToken(
+  env: SecretsEnv,
+  serverId: string,
+  token: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(serverId) },
+    await tokenKey(env),
+    encoder.encode(token)
+  );
+  return [
+    TOKEN_VERSION,
+    toBase64(iv),
+    toBase64(new Uint8Array(ciphertext))
+  ].join(".");
+}
+
+/**
+ * Decrypt a token stored by encryptToken
+ * Throws when the key is wrong or the value was stored for another server
+ */
+export async function decryptToken(
+  env: SecretsEnv,
+  serverId: string,
+  value: string
+): Promise<string> {
+  const [version, iv, ciphertext] = value.split(".");
+  if (version !== TOKEN_VERSION || !iv || !ciphertext) {
+    throw new Error("Unsupported token format");
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(iv),
+      additionalData: encoder.encode(serverId)
+    },
+    await tokenKey(env),
+    fromBase64(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+const SECRET_PATTERNS = [
+  // GitHub personal access and app tokens
+  /\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,})\b/g,
+  // Linear API and OAuth tokens
+  /\blin_(api|oauth)_\w{20,}\b/g
+];
+
+/**
+ * Replace tokens and Authorization header values in text meant for logs or
+ * error responses
+ */
+export function redactSecrets(text: string): string {
+  let redacted = text.replace(
+    /\bBearer\s+[\w\-.~+/]+=*/gi,
+    "Bearer [redacted]"
+  );
+  for (const pattern of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, "[redacted]");
+  }
+  return redacted;
+}
@@ -1,1054 +1,3549 @@
-import { routeAgentRequest, type Schedule } from "agents";
+import {
+  getAgentByName,
+  getCurrentAgent,
+  routeAgentRequest,
+  type Connection,
+  type ConnectionContext,
+  type Schedule
+} from "agents";
 import { getSchedulePrompt } from "agents/schedule";
 import { AIChatAgent } from "agents/ai-chat-agent";
+import { DurableObjectOAuthClientProvider } from "agents/mcp/do-oauth-client-provider";
 import {
   generateId,
+  generateObject,
   streamText,
   type StreamTextOnFinishCallback,
   stepCountIs,
   createUIMessageStream,
   convertToModelMessages,
   createUIMessageStreamResponse,
-  type ToolSet
+  type ToolCallOptions,
+  type ToolSet,
+  asSchema
 } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { processToolCalls, cleanupMessages } from "./utils";
-import { tools, executions, wrapMcpToolsForConfirmation } from "./tools";
+import { z } from "zod/v3";
+import {
+  processToolCalls,
+  cleanupMessages,
+  type ToolCallDecision
+} from "./utils";
+import { getModel, requiresOpenAIKey } from "./models";
+import { tools, applyToolPolicy, RESEARCH_TOOL_NAMES } from "./tools";
+import {
+  ISSUE_TRACKER_NAMES,
+  MAX_RESEARCH_REPOSITORIES,
+  RESEARCH_PROGRESS_MESSAGE,
+  TASK_SNAPSHOT_MESSAGE,
+  TRACKER_EVENT_MESSAGE,
+  type AuditLogEntry,
+  type AuditStatus,
+  type IssueTrackerKind,
+  type RepositoryMapping,
+  type ResearchProgressEvent,
+  type ResearchProgressMessage,
+  type ResearchReport,
+  type TaskResearchRun,
+  type TaskSnapshot,
+  type TaskSnapshotMessage,
+  type TaskSummary,
+  type ToolPolicy,
+  type ToolPolicyAction,
+  type ToolPolicyEntry,
+  type ToolPolicyState,
+  type TrackerComment,
+  type TrackerEvent,
+  type TrackerEventMessage,
+  type TrackerIssue,
+  type TrackerUser
+} from "./shared";
+import {
+  ISSUE_TRACKER_SERVERS,
+  IssueTrackerError,
+  MAX_ISSUE_PAGE_SIZE,
+  createIssueTracker,
+  isIssueWriteTool,
+  issueIdFromToolArgs,
+  parseIssueQuery,
+  parseToolJson,
+  type IssueQuery,
+  type IssueTracker,
+  type McpToolbox
+} from "./issue-trackers";
+import {
+  addResearchSources,
+  extractResearchSources,
+  renderResearchReport,
+  resolveResearchReport,
+  type ResearchSource
+} from "./research-report";
+import {
+  parseRepositoryMappingInput,
+  resolveMappedRepositories,
+  type RepositoryMappingInput
+} from "./repository-mappings";
+import {
+  authenticateRequest,
+  authorizeAgentRequest,
+  handleSessionRequest
+} from "./auth";
+import { readWebhook, type WebhookSource } from "./webhooks";
+import { parseMcpServerInput, type McpServerInput } from "./mcp-servers";
+import { McpServerNotReadyError, McpSupervisor } from "./mcp-supervisor";
+import {
+  decryptToken,
+  encryptToken,
+  isTokenEncryptionConfigured,
+  redactSecrets
+} from "./secrets";
+import {
+  DEFAULT_TOOL_POLICY,
+  parseToolPolicyInput,
+  resolveToolAction
+} from "./tool-policy";
+import {
+  AUDIT_LOG_RETENTION,
+  MAX_AUDIT_EXPORT_ROWS,
+  auditOutput,
+  parseAuditQuery,
+  toAuditCsv,
+  toAuditJsonl,
+  type AuditQuery,
+  type AuditRecordInput
+} from "./audit-log";
+export { TaskManager } from "./task-manager";
 // import { env } from "cloudflare:workers";
 
-const model = openai("gpt-4o-2024-11-20");
-// Cloudflare AI Gateway
-// const openai = createOpenAI({
-//   apiKey: env.OPENAI_API_KEY,
-//   baseURL: env.GATEWAY_BASE_URL,
-// });
+type ResearchDepth = "quick" | "medium" | "thorough";
+
+// Tasks kept in the task snapshot; the least recently changed go first
+const MAX_SNAPSHOT_TASKS = 200;
+const MAX_SNAPSHOT_REMOVED = 100;
+
+/**
+ * How many sub-questions a research plan may have at each depth, and how many
+ * model steps (tool calls) each sub-question gets
+ */
+const RESEARCH_DEPTH_CONFIG: Record<
+  ResearchDepth,
+  { maxSubQuestions: number; stepsPerSubQuestion: number }
+> = {
+  quick: { maxSubQuestions: 2, stepsPerSubQuestion: 6 },
+  medium: { maxSubQuestions: 3, stepsPerSubQuestion: 10 },
+  thorough: { maxSubQuestions: 6, stepsPerSubQuestion: 15 }
+};
+
+// Cached research answers are reused for at most a week, even when the
+// repository's default branch hasn't moved
+const RESEARCH_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// How long to wait for an MCP server to be ready: research and RPC callers
+// may run right after the agent starts and its connections are restored,
+// while HTTP routes answer sooner
+const MCP_READY_TIMEOUT = 30_000;
+const MCP_ROUTE_READY_TIMEOUT = 5000;
+
+/**
+ * Normalize a research question for cache lookups so case, spacing and
+ * trailing punctuation don't cause misses
+ */
+function normalizeResearchQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[\s?.!]+$/, "")
+    .trim();
+}
+
+/**
+ * Escape text for interpolation into HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Page shown in the popup an MCP server's OAuth flow redirects back to
+ * McpSetup polls the server's state, so the page only reports the outcome
+ * and closes itself when it can
+ */
+function oauthCallbackPage(authError?: string): Response {
+  const message = authError
+    ? `<h1>Authorization failed</h1><p>${escapeHtml(authError)}</p>`
+    : "<h1>Authorized</h1><p>You can close this window.</p>";
+  const script = authError ? "" : "<script>window.close()</script>";
+  return new Response(
+    `<!doctype html><html><body style="font-family: sans-serif">${message}${script}</body></html>`,
+    {
+      status: authError ? 400 : 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" }
+    }
+  );
+}
+
+/**
+ * Repositories a research workflow covers
+ * Workflows created before multi-repository research only have `repository`
+ */
+function workflowRepositories(workflow: {
+  repository: string;
+  repositories: string | null;
+}): string[] {
+  return workflow.repositories
+    ? JSON.parse(workflow.repositories)
+    : [workflow.repository];
+}
+
+/**
+ * A single sub-question of a research workflow
+ */
+interface ResearchStep {
+  workflow_id: string;
+  step_index: number;
+  question: string;
+  // Repository the step researched (null for steps planned before
+  // multi-repository research)
+  repository: string | null;
+  status: string;
+  findings: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Describe a research tool call in words for progress events
+ * e.g. "Searched code for useSession" or "Read file src/auth.ts"
+ */
+function describeResearchToolCall(toolName: string, input: unknown): string {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const target =
+    args.owner && args.repo ? ` in ${args.owner}/${args.repo}` : "";
+
+  if (toolName.includes("search_code")) {
+    return `Searched code for "${args.query ?? args.q ?? ""}"`;
+  }
+  if (toolName.includes("get_file_contents")) {
+    return `Read file ${args.path ?? "/"}${target}`;
+  }
+  if (toolName.includes("search_repositories")) {
+    return `Searched repositories for "${args.query ?? ""}"`;
+  }
+  if (toolName.includes("list_commits")) {
+    return `Listed commits${target}`;
+  }
+  if (toolName.includes("get_commit")) {
+    return `Read commit ${args.sha ?? ""}${target}`;
+  }
+  return `Called ${toolName.replace(/^tool_[^_]+_/, "")}`;
+}
+
+/**
+ * Prefix of an MCP server's tools as offered to the model
+ * getAITools() names tools tool_<server ID without dashes>_<tool name>
+ */
+function mcpToolPrefix(serverId: string): string {
+  return `tool_${serverId.replace(/-/g, "")}_`;
+}
+
+/**
+ * Error for research workflow operations that maps to an HTTP status
+ */
+class ResearchWorkflowError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ResearchWorkflowError";
+  }
+}
+
+/**
+ * Fields of a GitHub repository (as returned by search_repositories)
+ */
+export interface GitHubRepository {
+  id: string;
+  name: string;
+  full_name: string;
+  description?: string;
+  private: boolean;
+}
+
+interface RepositoryMappingRow {
+  id: string;
+  field: string;
+  value: string;
+  repositories: string;
+  created_at: number;
+  updated_at: number;
+}
+
+interface AuditLogRow {
+  id: string;
+  source: string;
+  workflow_id: string | null;
+  tool_call_id: string | null;
+  tool_name: string;
+  server: string | null;
+  tool: string;
+  decision: string;
+  actor: string | null;
+  status: string;
+  input: string | null;
+  modified: number;
+  original_input: string | null;
+  output: string | null;
+  error: string | null;
+  started_at: number;
+  duration_ms: number | null;
+}
+
+// Kept on each WebSocket connection
+interface ChatConnectionState {
+  // Email or ID of the signed-in user who opened it
+  actor: string | null;
+}
+
+// Who an issue tracker write is made for, as recorded in the audit log
+interface TrackerWriteContext {
+  source: AuditRecordInput["source"];
+  workflowId?: string | null;
+  actor: string | null;
+  // "approved" when a user asked for the write (e.g. clicked Claim), which
+  // lets tools the policy asks first about run
+  decision: "auto" | "approved";
+}
 
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
  */
 export class Chat extends AIChatAgent<Env> {
+  // Abort controllers for research workflows running in this instance
+  private researchAbortControllers = new Map<string, AbortController>();
+
+  // Decrypted MCP server tokens by server ID (null when a server has none)
+  private mcpTokenCache = new Map<string, string | null>();
+
+  // Decrypted custom headers of MCP servers by server ID
+  private mcpHeaderCache = new Map<string, Record<string, string>>();
+
+  // Why the last OAuth callback for a server failed, by server ID
+  private mcpAuthErrors = new Map<string, string>();
+
+  // Tracks MCP server states and reconnects failed servers
+  private mcpSupervisor: McpSupervisor;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    // Every MCP connection sends its server's token and custom headers from
+    // mcp_server_tokens and mcp_server_headers instead of headers stored in
+    // its options. The agent restores stored servers on start without a
+    // way to add them, so their connections are created here first; it
+    // skips servers that already have one, and onStart connects them
+    for (const server of this.mcp.listServers()) {
+      const options = server.server_options
+        ? JSON.parse(server.server_options)
+        : {};
+      this.mcp
+        .registerServer(server.id, {
+          url: server.server_url,
+          name: server.name,
+          callbackUrl: server.callback_url,
+          clientId: server.client_id ?? undefined,
+          authUrl: server.auth_url ?? undefined,
+          client: options.client,
+          transport: {
+            ...options.transport,
+            fetch: this.mcpServerFetch(server.id)
+          }
+        })
+        .catch((error) => {
+          console.error(`[MCP] Failed to restore server ${server.id}:`, error);
+        });
+    }
+
+    this.mcp.configureOAuthCallback({
+      customHandler: ({ serverId, authSuccess, authError }) => {
+        if (authSuccess) {
+          this.mcpAuthErrors.delete(serverId);
+          console.log(`[MCP] Authorized server ${serverId}`);
+          return oauthCallbackPage();
+        }
+        const message = redactSecrets(authError || "Authorization failed");
+        this.mcpAuthErrors.set(serverId, message);
+        console.error(`[MCP] Failed to authorize server ${serverId}:`, message);
+        return oauthCallbackPage(message);
+      }
+    });
+
+    this.mcpSupervisor = new McpSupervisor(this.mcp, (serverId, delay) =>
+      this.scheduleMcpReconnect(serverId, delay)
+    );
+  }
+
   /**
-   * Ensure research_workflows table exists with all columns
+   * Answer OAuth callbacks without a code or state with the failure page,
+   * reported next to their server in McpSetup, instead of the 500 the agent
+   * responds with when it can't complete them
    */
-  private ensureWorkflowsTable() {
-    // Create table if it doesn't exist
-    this.sql`
-      CREATE TABLE IF NOT EXISTS research_workflows (
-        id TEXT PRIMARY KEY,
-        status TEXT NOT NULL,
-        repository TEXT NOT NULL,
-        question TEXT NOT NULL,
-        depth TEXT NOT NULL,
-        task_id TEXT,
-        results TEXT,
-        error TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `;
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (
+      this.mcp.isCallbackRequest(request) &&
+      !url.searchParams.has("error") &&
+      !(url.searchParams.get("code") && url.searchParams.get("state"))
+    ) {
+      const server = this.mcp
+        .listServers()
+        .find((s) => request.url.startsWith(s.callback_url));
+      const message = `The authorization response has no ${url.searchParams.get("code") ? "state" : "code"}`;
+      if (server) {
+        this.mcpAuthErrors.set(server.id, message);
+      }
+      console.error(`[MCP] Failed to authorize server ${server?.id}:`, message);
+      return oauthCallbackPage(message);
+    }
+    return super.fetch(request);
+  }
 
-    // Add task_id column if it doesn't exist (migration for existing tables)
+  /**
+   * Wait until the MCP server with the given name is ready and return its ID
+   * Every caller that needs a server goes through this rather than checking
+   * its state, since connections are restored in the background when the
+   * agent starts and failed ones are reconnected by the supervisor.
+   * Throws McpServerNotReadyError when it isn't connected or doesn't become
+   * ready in time
+   */
+  async awaitServerReady(
+    name: string,
+    timeout = MCP_READY_TIMEOUT
+  ): Promise<string> {
+    // getAITools() needs jsonSchema, which restoring connections doesn't load
+    await this.mcp.ensureJsonSchema();
+    return this.mcpSupervisor.awaitReady(name, timeout);
+  }
+
+  /**
+   * Schedule reconnectMcpServer for the supervisor and return when it runs
+   * A reconnect this instance scheduled before it was evicted is kept
+   * rather than scheduling another
+   */
+  private async scheduleMcpReconnect(
+    serverId: string,
+    delaySeconds: number
+  ): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    const scheduled = this.getSchedules().find(
+      (schedule) =>
+        schedule.callback === "reconnectMcpServer" &&
+        schedule.payload === serverId &&
+        schedule.time > now
+    );
+    const schedule =
+      scheduled ??
+      (await this.schedule(delaySeconds, "reconnectMcpServer", serverId));
+    return schedule.time * 1000;
+  }
+
+  /**
+   * Reconnect a failed MCP server, scheduled by the supervisor
+   */
+  async reconnectMcpServer(serverId: string) {
+    await this.mcpSupervisor.reconnect(serverId);
+  }
+
+  /**
+   * Remember who opened each connection, so approvals and denials sent over
+   * it are recorded with their user
+   */
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    const user = await authenticateRequest(ctx.request, this.env);
+    connection.setState({
+      actor: user ? (user.email ?? user.id) : null
+    } satisfies ChatConnectionState);
+  }
+
+  /**
+   * Move tokens added before they were encrypted out of MCP server options,
+   * connect the stored MCP servers, and start the TaskManager's assignment
+   * poller when AUTO_RESEARCH_CRON is set
+   */
+  async onStart() {
     try {
-      this.sql`ALTER TABLE research_workflows ADD COLUMN task_id TEXT`;
-    } catch {
-      // Column already exists, ignore error
+      await this.migrateMcpServerTokens();
+    } catch (error) {
+      console.error(
+        "[MCP] Failed to encrypt stored tokens:",
+        redactSecrets(String(error))
+      );
+    }
+    this.restoreMcpServers();
+
+    if (!this.env.AUTO_RESEARCH_CRON) return;
+    try {
+      const taskManager = await getAgentByName(this.env.TaskManager, this.name);
+      await taskManager.syncAutoResearchSchedule();
+    } catch (error) {
+      console.error("[Auto Research] Failed to schedule the poller:", error);
     }
   }
 
   /**
-   * Create a new research workflow and schedule it
-   * This is called by the researchRepository tool
+   * Ensure mcp_server_tokens and mcp_server_headers tables exist
+   * Tokens and custom headers (which can carry API keys) are encrypted with
+   * encryptToken, never stored in plain text
    */
-  async createResearchWorkflow(
-    workflowId: string,
-    repository: string,
-    question: string,
-    depth: string,
-    taskId?: string
-  ): Promise<void> {
-    this.ensureWorkflowsTable();
-    const now = Date.now();
+  private ensureMcpTokensTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS mcp_server_tokens (
+        server_id TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS mcp_server_headers (
+        server_id TEXT PRIMARY KEY,
+        headers TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+  }
 
-    // Store workflow using SQL tagged template literal
+  /**
+   * Encrypt and store an MCP server's token, replacing any previous one
+   */
+  private async saveMcpServerToken(serverId: string, token: string) {
+    const encrypted = await encryptToken(this.env, serverId, token);
+    this.ensureMcpTokensTable();
     this.sql`
-      INSERT INTO research_workflows (id, status, repository, question, depth, task_id, created_at, updated_at)
-      VALUES (${workflowId}, ${"pending"}, ${repository}, ${question}, ${depth}, ${taskId ?? null}, ${now}, ${now})
+      INSERT INTO mcp_server_tokens (server_id, token, updated_at)
+      VALUES (${serverId}, ${encrypted}, ${Date.now()})
+      ON CONFLICT (server_id) DO UPDATE SET
+        token = excluded.token,
+        updated_at = excluded.updated_at
     `;
+    this.mcpTokenCache.set(serverId, token);
+  }
 
-    // Schedule the workflow to run immediately
-    this.schedule(0, "executeResearch", workflowId);
+  /**
+   * Encrypt and store the custom headers sent to an MCP server
+   */
+  private async saveMcpServerHeaders(
+    serverId: string,
+    headers: Record<string, string>
+  ) {
+    const encrypted = await encryptToken(
+      this.env,
+      serverId,
+      JSON.stringify(headers)
+    );
+    this.ensureMcpTokensTable();
+    this.sql`
+      INSERT INTO mcp_server_headers (server_id, headers, updated_at)
+      VALUES (${serverId}, ${encrypted}, ${Date.now()})
+      ON CONFLICT (server_id) DO UPDATE SET
+        headers = excluded.headers,
+        updated_at = excluded.updated_at
+    `;
+    this.mcpHeaderCache.set(serverId, headers);
   }
 
   /**
-   * Get workflow by ID
+   * Delete an MCP server's stored token and custom headers
    */
-  private getWorkflow(workflowId: string) {
-    this.ensureWorkflowsTable();
-    const rows = this.sql<{
-      id: string;
-      status: string;
-      repository: string;
-      question: string;
-      depth: string;
-      task_id: string | null;
-      results: string | null;
-      error: string | null;
-      created_at: number;
-      updated_at: number;
-    }>`SELECT * FROM research_workflows WHERE id = ${workflowId}`;
-    return rows[0] || null;
+  private deleteMcpServerCredentials(serverId: string) {
+    this.ensureMcpTokensTable();
+    this.sql`DELETE FROM mcp_server_tokens WHERE server_id = ${serverId}`;
+    this.sql`DELETE FROM mcp_server_headers WHERE server_id = ${serverId}`;
+    this.mcpTokenCache.delete(serverId);
+    this.mcpHeaderCache.delete(serverId);
   }
 
   /**
-   * Update workflow status and results
+   * Get an MCP server's decrypted token, or null when it has none
    */
-  private updateWorkflow(
-    workflowId: string,
-    updates: {
-      status?: string;
-      results?: string;
-      error?: string;
-    }
-  ) {
-    this.ensureWorkflowsTable();
-    const now = Date.now();
+  private async getMcpServerToken(serverId: string): Promise<string | null> {
+    const cached = this.mcpTokenCache.get(serverId);
+    if (cached !== undefined) return cached;
 
-    if (updates.status !== undefined && updates.results !== undefined) {
-      this.sql`
-        UPDATE research_workflows
-        SET status = ${updates.status}, results = ${updates.results}, updated_at = ${now}
-        WHERE id = ${workflowId}
-      `;
-    } else if (updates.status !== undefined && updates.error !== undefined) {
-      this.sql`
-        UPDATE research_workflows
-        SET status = ${updates.status}, error = ${updates.error}, updated_at = ${now}
-        WHERE id = ${workflowId}
-      `;
-    } else if (updates.status !== undefined) {
-      this.sql`
-        UPDATE research_workflows
-        SET status = ${updates.status}, updated_at = ${now}
-        WHERE id = ${workflowId}
-      `;
-    }
+    this.ensureMcpTokensTable();
+    const [row] = this.sql<{ token: string }>`
+      SELECT token FROM mcp_server_tokens WHERE server_id = ${serverId}
+    `;
+    const token = row
+      ? await decryptToken(this.env, serverId, row.token)
+      : null;
+    this.mcpTokenCache.set(serverId, token);
+    return token;
   }
 
   /**
-   * Handle HTTP requests for MCP server management and other agent operations
+   * Get the decrypted custom headers sent to an MCP server
    */
-  async onRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+  private async getMcpServerHeaders(
+    serverId: string
+  ): Promise<Record<string, string>> {
+    const cached = this.mcpHeaderCache.get(serverId);
+    if (cached) return cached;
+
+    this.ensureMcpTokensTable();
+    const [row] = this.sql<{ headers: string }>`
+      SELECT headers FROM mcp_server_headers WHERE server_id = ${serverId}
+    `;
+    const headers: Record<string, string> = row
+      ? JSON.parse(await decryptToken(this.env, serverId, row.headers))
+      : {};
+    this.mcpHeaderCache.set(serverId, headers);
+    return headers;
+  }
 
-    // Get research workflow status
-    if (
-      url.pathname.match(/\/research-workflows\/[\w-]+$/) &&
-      request.method === "GET"
-    ) {
-      const workflowId = url.pathname.split("/").pop()!;
-      const workflow = await this.getWorkflow(workflowId);
+  /**
+   * fetch for an MCP server's transport that adds its custom headers and
+   * token, if it has them
+   * They're looked up per request, so a rotated token applies to the open
+   * connection
+   */
+  private mcpServerFetch(serverId: string): typeof fetch {
+    return async (input, init) => {
+      const customHeaders = await this.getMcpServerHeaders(serverId);
+      const token = await this.getMcpServerToken(serverId);
+      if (!token && Object.keys(customHeaders).length === 0) {
+        return fetch(input, init);
+      }
+      const headers = new Headers(init?.headers);
+      for (const [name, value] of Object.entries(customHeaders)) {
+        headers.set(name, value);
+      }
+      if (token) {
+        headers.set("Authorization", `Bearer ${token}`);
+      }
+      return fetch(input, { ...init, headers });
+    };
+  }
 
-      if (!workflow) {
-        return new Response(JSON.stringify({ error: "Workflow not found" }), {
-          status: 404,
-          headers: { "Content-Type": "application/json" }
-        });
+  /**
+   * OAuth provider for an MCP server, like the one addMcpServer creates
+   */
+  private createMcpAuthProvider(
+    serverId: string,
+    callbackUrl: string,
+    clientId?: string | null
+  ): DurableObjectOAuthClientProvider {
+    const authProvider = new DurableObjectOAuthClientProvider(
+      this.ctx.storage,
+      this.name,
+      callbackUrl
+    );
+    authProvider.serverId = serverId;
+    if (clientId) {
+      authProvider.clientId = clientId;
+    }
+    return authProvider;
+  }
+
+  /**
+   * Connect the stored MCP servers whose connections the constructor
+   * created, the way the agent restores servers: each gets an OAuth
+   * provider, and those waiting for authorization stay authenticating until
+   * their callback arrives. Connecting happens in the background; callers
+   * wait for a server with awaitServerReady
+   */
+  private restoreMcpServers() {
+    for (const server of this.mcp.listServers()) {
+      const connection = this.mcp.mcpConnections[server.id];
+      if (connection?.connectionState !== "connecting") continue;
+
+      connection.options.transport.authProvider = this.createMcpAuthProvider(
+        server.id,
+        server.callback_url,
+        server.client_id
+      );
+      if (server.auth_url) {
+        connection.connectionState = "authenticating";
+        continue;
       }
+      this.mcp
+        .connectToServer(server.id)
+        .then((result) =>
+          result.state === "connected"
+            ? this.mcp.discoverIfConnected(server.id)
+            : undefined
+        )
+        .catch((error) => {
+          console.error(
+            `[MCP] Failed to restore server ${server.id}:`,
+            redactSecrets(String(error))
+          );
+        });
+    }
+  }
 
-      return new Response(JSON.stringify(workflow), {
-        headers: { "Content-Type": "application/json" }
-      });
+  /**
+   * Register and connect an MCP server. Mirrors addMcpServer, with these
+   * differences:
+   * - A personal access token and custom headers are stored encrypted before
+   *   connecting, rather than as headers in the server's options
+   * - Each server gets its own OAuth callback URL; addMcpServer gives every
+   *   server of an agent the same one, so callbacks can reach the wrong server
+   * - Only servers with authType "oauth" start OAuth on a 401; others fail
+   * Returns the authorization URL when the server wants OAuth
+   */
+  private async connectMcpServer(
+    server: McpServerInput,
+    callbackHost: string
+  ): Promise<{ id: string; authUrl?: string }> {
+    const id = generateId();
+    const callbackUrl = `${callbackHost}/agents/chat/${this.name}/callback/${id}`;
+    if (server.authToken) {
+      await this.saveMcpServerToken(id, server.authToken);
     }
+    if (Object.keys(server.headers).length > 0) {
+      await this.saveMcpServerHeaders(id, server.headers);
+    }
+    await this.mcp.ensureJsonSchema();
+    await this.mcp.registerServer(id, {
+      url: server.serverUrl,
+      name: server.name,
+      callbackUrl,
+      transport: {
+        type: server.transport,
+        fetch: this.mcpServerFetch(id),
+        authProvider:
+          server.authType === "oauth"
+            ? this.createMcpAuthProvider(id, callbackUrl)
+            : undefined
+      }
+    });
 
-    // List all research workflows
-    if (
-      url.pathname.endsWith("/research-workflows") &&
+    const result = await this.mcp.connectToServer(id);
+    if (result.state === "authenticating" && server.authType === "oauth") {
+      this.mcpAuthErrors.delete(id);
+      return { id, authUrl: result.authUrl };
+    }
+    if (result.state !== "connected") {
+      await this.removeMcpServer(id);
+      this.deleteMcpServerCredentials(id);
+      throw new Error(
+        result.state === "failed"
+          ? `Failed to connect to MCP server at ${server.serverUrl}: ${result.error}`
+          : `${server.serverUrl} asked for OAuth; connect it with authType "oauth"`
+      );
+    }
+    const discovery = await this.mcp.discoverIfConnected(id);
+    if (discovery && !discovery.success) {
+      throw new Error(
+        `Failed to discover MCP server capabilities: ${discovery.error}`
+      );
+    }
+    return { id };
+  }
+
+  /**
+   * Encrypt Authorization headers stored in MCP server options by earlier
+   * versions, which passed tokens to addMcpServer as transport headers
+   */
+  private async migrateMcpServerTokens() {
+    if (!isTokenEncryptionConfigured(this.env)) return;
+
+    const servers = this.sql<{ id: string; server_options: string | null }>`
+      SELECT id, server_options FROM cf_agents_mcp_servers
+    `;
+    for (const server of servers) {
+      const options = server.server_options
+        ? JSON.parse(server.server_options)
+        : null;
+      const authorization: unknown =
+        options?.transport?.requestInit?.headers?.Authorization;
+      if (typeof authorization !== "string") continue;
+
+      await this.saveMcpServerToken(
+        server.id,
+        authorization.replace(/^Bearer\s+/i, "")
+      );
+      const {
+        requestInit: _,
+        eventSourceInit: __,
+        ...transport
+      } = options.transport;
+      this.sql`
+        UPDATE cf_agents_mcp_servers
+        SET server_options = ${JSON.stringify({ ...options, transport })}
+        WHERE id = ${server.id}
+      `;
+      console.log(`[MCP] Encrypted the stored token for server ${server.id}`);
+    }
+  }
+
+  /**
+   * Ensure research_workflows table exists with all columns
+   */
+  private ensureWorkflowsTable() {
+    // Create table if it doesn't exist
+    this.sql`
+      CREATE TABLE IF NOT EXISTS research_workflows (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        repository TEXT NOT NULL,
+        question TEXT NOT NULL,
+        depth TEXT NOT NULL,
+        task_id TEXT,
+        results TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+
+    // Add task_id column if it doesn't exist (migration for existing tables)
+    try {
+      this.sql`ALTER TABLE research_workflows ADD COLUMN task_id TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Add parent_id column linking retries and re-runs to the original run
+    try {
+      this.sql`ALTER TABLE research_workflows ADD COLUMN parent_id TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Add report column holding the structured ResearchReport as JSON
+    // (results keeps its markdown rendering)
+    try {
+      this.sql`ALTER TABLE research_workflows ADD COLUMN report TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Add head_sha (default branch commit the research ran against) and
+    // cached (1 when the results were served from research_cache)
+    try {
+      this.sql`ALTER TABLE research_workflows ADD COLUMN head_sha TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+    try {
+      this.sql`
+        ALTER TABLE research_workflows ADD COLUMN cached INTEGER NOT NULL DEFAULT 0
+      `;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Add repositories column holding every researched repository as JSON
+    // (repository keeps the first one)
+    try {
+      this.sql`ALTER TABLE research_workflows ADD COLUMN repositories TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Completed research keyed by what its answer depends on
+    this.sql`
+      CREATE TABLE IF NOT EXISTS research_cache (
+        repository TEXT NOT NULL,
+        question_key TEXT NOT NULL,
+        depth TEXT NOT NULL,
+        head_sha TEXT NOT NULL,
+        workflow_id TEXT NOT NULL,
+        results TEXT NOT NULL,
+        report TEXT,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (repository, question_key, depth, head_sha)
+      )
+    `;
+
+    // One row per planned sub-question of a workflow
+    this.sql`
+      CREATE TABLE IF NOT EXISTS research_workflow_steps (
+        workflow_id TEXT NOT NULL,
+        step_index INTEGER NOT NULL,
+        question TEXT NOT NULL,
+        status TEXT NOT NULL,
+        findings TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (workflow_id, step_index)
+      )
+    `;
+
+    // Add repository column recording which repository each step researched
+    try {
+      this.sql`ALTER TABLE research_workflow_steps ADD COLUMN repository TEXT`;
+    } catch {
+      // Column already exists, ignore error
+    }
+
+    // Progress events (tool calls, step transitions) of a workflow
+    this.sql`
+      CREATE TABLE IF NOT EXISTS research_workflow_events (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        step_index INTEGER,
+        kind TEXT NOT NULL,
+        tool_name TEXT,
+        message TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `;
+  }
+
+  /**
+   * Create a new research workflow and schedule it
+   * This is called by the researchRepository tool
+   * Several repositories are researched together, each with its own plan
+   */
+  async createResearchWorkflow(
+    workflowId: string,
+    repositories: string | string[],
+    question: string,
+    depth: string,
+    taskId?: string,
+    parentId?: string
+  ): Promise<void> {
+    const names = [
+      ...new Set(
+        typeof repositories === "string" ? [repositories] : repositories
+      )
+    ];
+    if (names.length === 0) {
+      throw new ResearchWorkflowError("No repository to research", 400);
+    }
+    if (names.length > MAX_RESEARCH_REPOSITORIES) {
+      throw new ResearchWorkflowError(
+        `At most ${MAX_RESEARCH_REPOSITORIES} repositories can be researched together`,
+        400
+      );
+    }
+
+    this.ensureWorkflowsTable();
+    const now = Date.now();
+
+    // Store workflow using SQL tagged template literal
+    this.sql`
+      INSERT INTO research_workflows (id, status, repository, repositories, question, depth, task_id, parent_id, created_at, updated_at)
+      VALUES (${workflowId}, ${"pending"}, ${names[0]}, ${JSON.stringify(names)}, ${question}, ${depth}, ${taskId ?? null}, ${parentId ?? null}, ${now}, ${now})
+    `;
+
+    // Schedule the workflow to run immediately
+    this.schedule(0, "executeResearch", workflowId);
+  }
+
+  /**
+   * Get workflow by ID
+   */
+  private getWorkflow(workflowId: string) {
+    this.ensureWorkflowsTable();
+    const rows = this.sql<{
+      id: string;
+      status: string;
+      repository: string;
+      repositories: string | null;
+      question: string;
+      depth: string;
+      task_id: string | null;
+      parent_id: string | null;
+      results: string | null;
+      report: string | null;
+      head_sha: string | null;
+      cached: number;
+      error: string | null;
+      created_at: number;
+      updated_at: number;
+    }>`SELECT * FROM research_workflows WHERE id = ${workflowId}`;
+    return rows[0] || null;
+  }
+
+  /**
+   * Cancel a pending or running workflow
+   * A running workflow's model calls are aborted; a pending one is skipped
+   * when its scheduled run starts
+   */
+  cancelResearchWorkflow(workflowId: string) {
+    const workflow = this.getWorkflow(workflowId);
+    if (!workflow) {
+      throw new ResearchWorkflowError("Workflow not found", 404);
+    }
+    if (workflow.status !== "pending" && workflow.status !== "in_progress") {
+      throw new ResearchWorkflowError(
+        `Workflow is already ${workflow.status}`,
+        409
+      );
+    }
+
+    this.updateWorkflow(workflowId, { status: "cancelled" });
+    this.researchAbortControllers.get(workflowId)?.abort();
+    this.recordResearchEvent(workflowId, {
+      kind: "status",
+      message: "Research cancelled"
+    });
+
+    console.log(`[Research Workflow] Cancelled workflow: ${workflowId}`);
+    return this.getWorkflow(workflowId)!;
+  }
+
+  /**
+   * Start a new workflow from an existing one, linked to it as its parent
+   * Retries reuse the stored question, depth and repositories; re-runs may
+   * change the question or depth
+   */
+  async rerunResearchWorkflow(
+    parentId: string,
+    overrides: { question?: string; depth?: string } = {}
+  ) {
+    const parent = this.getWorkflow(parentId);
+    if (!parent) {
+      throw new ResearchWorkflowError("Workflow not found", 404);
+    }
+
+    const depth = overrides.depth ?? parent.depth;
+    if (!(depth in RESEARCH_DEPTH_CONFIG)) {
+      throw new ResearchWorkflowError(`Invalid depth: ${depth}`, 400);
+    }
+
+    const workflowId = generateId();
+    await this.createResearchWorkflow(
+      workflowId,
+      workflowRepositories(parent),
+      overrides.question?.trim() || parent.question,
+      depth,
+      parent.task_id ?? undefined,
+      parentId
+    );
+
+    console.log(
+      `[Research Workflow] Created workflow ${workflowId} from parent ${parentId}`
+    );
+    return this.getWorkflow(workflowId)!;
+  }
+
+  /**
+   * Update workflow status and results
+   */
+  private updateWorkflow(
+    workflowId: string,
+    updates: {
+      status?: string;
+      results?: string;
+      report?: ResearchReport;
+      error?: string;
+    }
+  ) {
+    this.ensureWorkflowsTable();
+    const now = Date.now();
+
+    if (updates.status !== undefined && updates.results !== undefined) {
+      const report = updates.report ? JSON.stringify(updates.report) : null;
+      this.sql`
+        UPDATE research_workflows
+        SET status = ${updates.status}, results = ${updates.results}, report = ${report}, updated_at = ${now}
+        WHERE id = ${workflowId}
+      `;
+    } else if (updates.status !== undefined && updates.error !== undefined) {
+      this.sql`
+        UPDATE research_workflows
+        SET status = ${updates.status}, error = ${updates.error}, updated_at = ${now}
+        WHERE id = ${workflowId}
+      `;
+    } else if (updates.status !== undefined) {
+      this.sql`
+        UPDATE research_workflows
+        SET status = ${updates.status}, updated_at = ${now}
+        WHERE id = ${workflowId}
+      `;
+    }
+
+    const taskId = this.getWorkflow(workflowId)?.task_id;
+    if (
+      taskId &&
+      (updates.status === "in_progress" ||
+        updates.status === "completed" ||
+        updates.status === "failed" ||
+        updates.status === "cancelled")
+    ) {
+      this.setTaskResearchStatus(taskId, updates.status);
+    }
+  }
+
+  /**
+   * Record the planned sub-questions of a workflow as pending steps
+   */
+  private createWorkflowSteps(
+    workflowId: string,
+    steps: { question: string; repository: string }[]
+  ) {
+    this.ensureWorkflowsTable();
+    const now = Date.now();
+    this.sql`
+      DELETE FROM research_workflow_steps WHERE workflow_id = ${workflowId}
+    `;
+    for (const [index, step] of steps.entries()) {
+      this.sql`
+        INSERT INTO research_workflow_steps (workflow_id, step_index, question, repository, status, created_at, updated_at)
+        VALUES (${workflowId}, ${index}, ${step.question}, ${step.repository}, ${"pending"}, ${now}, ${now})
+      `;
+    }
+  }
+
+  /**
+   * Get the steps of a workflow in plan order
+   */
+  private getWorkflowSteps(workflowId: string): ResearchStep[] {
+    this.ensureWorkflowsTable();
+    return this.sql<ResearchStep>`
+      SELECT * FROM research_workflow_steps
+      WHERE workflow_id = ${workflowId}
+      ORDER BY step_index ASC
+    `;
+  }
+
+  /**
+   * Update a workflow step's status and findings
+   */
+  private updateWorkflowStep(
+    workflowId: string,
+    stepIndex: number,
+    updates: { status: string; findings?: string; error?: string }
+  ) {
+    this.sql`
+      UPDATE research_workflow_steps
+      SET status = ${updates.status},
+          findings = COALESCE(${updates.findings ?? null}, findings),
+          error = COALESCE(${updates.error ?? null}, error),
+          updated_at = ${Date.now()}
+      WHERE workflow_id = ${workflowId} AND step_index = ${stepIndex}
+    `;
+  }
+
+  /**
+   * Record a progress event for a workflow and broadcast it to connected clients
+   */
+  private recordResearchEvent(
+    workflowId: string,
+    event: Pick<ResearchProgressEvent, "kind" | "message"> &
+      Partial<Pick<ResearchProgressEvent, "step_index" | "tool_name">>
+  ) {
+    const workflow = this.getWorkflow(workflowId);
+    if (!workflow) return;
+
+    const progressEvent: ResearchProgressEvent = {
+      id: generateId(),
+      workflow_id: workflowId,
+      step_index: event.step_index ?? null,
+      kind: event.kind,
+      tool_name: event.tool_name ?? null,
+      message: event.message,
+      created_at: Date.now()
+    };
+
+    this.sql`
+      INSERT INTO research_workflow_events (id, workflow_id, step_index, kind, tool_name, message, created_at)
+      VALUES (${progressEvent.id}, ${workflowId}, ${progressEvent.step_index}, ${progressEvent.kind}, ${progressEvent.tool_name}, ${progressEvent.message}, ${progressEvent.created_at})
+    `;
+
+    const message: ResearchProgressMessage = {
+      type: RESEARCH_PROGRESS_MESSAGE,
+      workflowId,
+      taskId: workflow.task_id,
+      repositories: workflowRepositories(workflow),
+      question: workflow.question,
+      status: workflow.status,
+      event: progressEvent
+    };
+    this.broadcast(JSON.stringify(message));
+  }
+
+  /**
+   * Get the progress events of a workflow in the order they happened
+   */
+  private getWorkflowEvents(workflowId: string): ResearchProgressEvent[] {
+    this.ensureWorkflowsTable();
+    return this.sql<ResearchProgressEvent>`
+      SELECT * FROM research_workflow_events
+      WHERE workflow_id = ${workflowId}
+      ORDER BY created_at ASC
+    `;
+  }
+
+  /**
+   * Handle HTTP requests for MCP server management and other agent operations
+   */
+  async onRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    // Get research workflow status
+    if (
+      url.pathname.match(/\/research-workflows\/[\w-]+$/) &&
+      request.method === "GET"
+    ) {
+      const workflowId = url.pathname.split("/").pop()!;
+      const workflow = await this.getWorkflow(workflowId);
+
+      if (!workflow) {
+        return new Response(JSON.stringify({ error: "Workflow not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          ...workflow,
+          repositories: workflowRepositories(workflow),
+          report: workflow.report ? JSON.parse(workflow.report) : null,
+          steps: this.getWorkflowSteps(workflowId),
+          events: this.getWorkflowEvents(workflowId)
+        }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Cancel, retry or re-run a research workflow
+    const workflowActionMatch = url.pathname.match(
+      /\/research-workflows\/([\w-]+)\/(cancel|retry|rerun)$/
+    );
+    if (workflowActionMatch && request.method === "POST") {
+      const [, workflowId, action] = workflowActionMatch;
+      try {
+        if (action === "cancel") {
+          const workflow = this.cancelResearchWorkflow(workflowId);
+          return new Response(JSON.stringify(workflow), {
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+
+        if (action === "retry") {
+          const parent = this.getWorkflow(workflowId);
+          if (
+            parent &&
+            parent.status !== "failed" &&
+            parent.status !== "cancelled"
+          ) {
+            throw new ResearchWorkflowError(
+              `Only failed or cancelled workflows can be retried (status: ${parent.status})`,
+              409
+            );
+          }
+          const workflow = await this.rerunResearchWorkflow(workflowId);
+          return new Response(JSON.stringify(workflow), {
+            status: 201,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+
+        const overrides = (await request.json().catch(() => ({}))) as {
+          question?: string;
+          depth?: string;
+        };
+        const workflow = await this.rerunResearchWorkflow(workflowId, {
+          question: overrides.question,
+          depth: overrides.depth
+        });
+        return new Response(JSON.stringify(workflow), {
+          status: 201,
+          headers: { "Content-Type": "application/json" }
+        });
+      } catch (error) {
+        const status =
+          error instanceof ResearchWorkflowError ? error.status : 500;
+        return new Response(
+          JSON.stringify({
+            error: error instanceof Error ? error.message : String(error)
+          }),
+          { status, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // List all research workflows
+    if (
+      url.pathname.endsWith("/research-workflows") &&
+      request.method === "GET"
+    ) {
+      this.ensureWorkflowsTable();
+      const workflows = this.sql<{
+        id: string;
+        status: string;
+        repository: string;
+        repositories: string | null;
+        question: string;
+        depth: string;
+        parent_id: string | null;
+        results: string | null;
+        error: string | null;
+        created_at: number;
+        updated_at: number;
+      }>`SELECT * FROM research_workflows ORDER BY created_at DESC LIMIT 50`;
+
+      return new Response(
+        JSON.stringify(
+          workflows.map((workflow) => ({
+            ...workflow,
+            repositories: workflowRepositories(workflow)
+          }))
+        ),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // State history and reconnection status of MCP servers
+    if (
+      url.pathname.endsWith("/mcp-servers/health") &&
       request.method === "GET"
     ) {
-      this.ensureWorkflowsTable();
-      const workflows = this.sql<{
-        id: string;
-        status: string;
-        repository: string;
-        question: string;
-        depth: string;
-        results: string | null;
-        error: string | null;
-        created_at: number;
-        updated_at: number;
-      }>`SELECT * FROM research_workflows ORDER BY created_at DESC LIMIT 50`;
+      return new Response(JSON.stringify(this.mcpSupervisor.health()), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Get MCP servers state
+    if (url.pathname.endsWith("/mcp-servers") && request.method === "GET") {
+      const mcpState = this.getMcpServers();
+      // Servers whose last OAuth callback failed report why
+      for (const [serverId, server] of Object.entries(mcpState.servers)) {
+        const authError = this.mcpAuthErrors.get(serverId);
+        if (authError) {
+          Object.assign(server, { error: authError });
+        }
+      }
+      return new Response(JSON.stringify(mcpState, null, 2), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Add MCP server
+    if (url.pathname.endsWith("/mcp-servers") && request.method === "POST") {
+      const server = parseMcpServerInput(
+        await request.json().catch(() => null)
+      );
+      if (typeof server === "string") {
+        return new Response(JSON.stringify({ error: server }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      const { name, serverUrl } = server;
+      if (
+        this.mcp
+          .listServers()
+          .some(
+            (existing) => existing.name.toLowerCase() === name.toLowerCase()
+          )
+      ) {
+        return new Response(
+          JSON.stringify({ error: `A server named ${name} already exists` }),
+          { status: 409, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      console.log(
+        `[MCP] Connecting to ${name} at ${serverUrl} (transport: ${server.transport}, auth: ${server.authType})`
+      );
+
+      // Tokens and custom headers are stored encrypted, so they need the key
+      if (
+        (server.authToken || Object.keys(server.headers).length > 0) &&
+        !isTokenEncryptionConfigured(this.env)
+      ) {
+        return new Response(
+          JSON.stringify({
+            error:
+              "MCP_TOKEN_KEY is not set or is the example value. Add a random one (`openssl rand -base64 32`) as a Worker secret to connect with a personal access token or custom headers"
+          }),
+          { status: 500, headers: { "Content-Type": "application/json" } }
+        );
+      }
+
+      try {
+        const { id, authUrl } = await this.connectMcpServer(server, url.origin);
+
+        console.log(
+          `[MCP] Connection result - ID: ${id}, authUrl: ${authUrl || "none"}`
+        );
+
+        if (authUrl) {
+          return new Response(JSON.stringify({ serverId: id, authUrl }), {
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+
+        return new Response(
+          JSON.stringify({ serverId: id, status: "connected" }),
+          { headers: { "Content-Type": "application/json" } }
+        );
+      } catch (error) {
+        const message = redactSecrets(
+          error instanceof Error ? error.message : String(error)
+        );
+        console.error(`[MCP] Failed to connect to ${name}:`, message);
+        return new Response(JSON.stringify({ error: message }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    }
+
+    // Rotate an MCP server's personal access token
+    const tokenMatch = url.pathname.match(/\/mcp-servers\/([^/]+)\/token$/);
+    if (tokenMatch && request.method === "PUT") {
+      const serverId = tokenMatch[1];
+      const body = (await request.json().catch(() => null)) as {
+        authToken?: unknown;
+      } | null;
+      const authToken =
+        typeof body?.authToken === "string" ? body.authToken.trim() : "";
+      if (!authToken) {
+        return new Response(
+          JSON.stringify({ error: "authToken is required" }),
+          {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+          }
+        );
+      }
+      if (!this.getMcpServers().servers[serverId]) {
+        return new Response(JSON.stringify({ error: "Server not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      try {
+        await this.saveMcpServerToken(serverId, authToken);
+        console.log(`[MCP] Rotated the token for server ${serverId}`);
+
+        // A ready connection picks the new token up on its next request;
+        // anything else (e.g. failed on the old token) reconnects now
+        const connection = this.mcp.mcpConnections[serverId];
+        if (connection?.connectionState !== "ready") {
+          const result = await this.mcp.connectToServer(serverId);
+          if (result.state === "connected") {
+            await this.mcp.discoverIfConnected(serverId);
+          }
+        }
+        return new Response(
+          JSON.stringify({
+            serverId,
+            state: this.getMcpServers().servers[serverId]?.state
+          }),
+          { headers: { "Content-Type": "application/json" } }
+        );
+      } catch (error) {
+        const message = redactSecrets(
+          error instanceof Error ? error.message : String(error)
+        );
+        console.error(
+          `[MCP] Failed to rotate the token for ${serverId}:`,
+          message
+        );
+        return new Response(JSON.stringify({ error: message }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+    }
+
+    // Remove MCP server
+    if (
+      url.pathname.match(/\/mcp-servers\/(.+)$/) &&
+      request.method === "DELETE"
+    ) {
+      const serverId = url.pathname.split("/").pop()!;
+      await this.removeMcpServer(serverId);
+      this.deleteMcpServerCredentials(serverId);
+      return new Response(JSON.stringify({ status: "removed" }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Which issue tracker tasks come from, and whether it's ready
+    if (url.pathname.endsWith("/issue-tracker") && request.method === "GET") {
+      const issueTracker = this.getIssueTracker();
+      return new Response(
+        JSON.stringify(
+          issueTracker
+            ? {
+                kind: issueTracker.tracker.kind,
+                name: ISSUE_TRACKER_NAMES[issueTracker.tracker.kind],
+                state: issueTracker.state
+              }
+            : null
+        ),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Get my assigned tasks from the issue tracker
+    if (url.pathname.endsWith("/my-tasks") && request.method === "GET") {
+      return this.listTrackerTasks({
+        ...parseIssueQuery(url.searchParams),
+        assignedToMe: true
+      });
+    }
+
+    // Research history of a task, newest first
+    const taskResearchMatch = url.pathname.match(/\/tasks\/([^/]+)\/research$/);
+    if (taskResearchMatch && request.method === "GET") {
+      const taskId = decodeURIComponent(taskResearchMatch[1]);
+      const runs = await this.getTaskResearch(taskId);
+      return new Response(JSON.stringify(runs), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Get a single task/issue with full details including comments
+    const taskDetailMatch = url.pathname.match(/\/tasks\/([^/]+)$/);
+    if (taskDetailMatch && request.method === "GET") {
+      // GitHub issue IDs ("owner/repo#123") arrive URL-encoded
+      const taskId = decodeURIComponent(taskDetailMatch[1]);
+      const tracker = await this.getReadyIssueTracker();
+      if (tracker instanceof Response) {
+        return tracker;
+      }
+
+      try {
+        const issue = await tracker.getIssue(taskId);
+        if (!issue) {
+          return new Response(JSON.stringify({ error: "Issue not found" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+
+        let comments: TrackerComment[] = [];
+        try {
+          comments = await tracker.listComments(issue.id);
+        } catch (e) {
+          console.error("[Issue Tracker] Failed to fetch comments:", e);
+        }
+
+        // The connected user, so the page can tell their assignment apart
+        let viewer: TrackerUser | null = null;
+        try {
+          viewer = await tracker.getViewer();
+        } catch (e) {
+          console.error("[Issue Tracker] Failed to fetch the viewer:", e);
+        }
+
+        // Return full issue with comments, the connected user and the
+        // repositories it maps to
+        const repositories = this.getIssueRepositories(issue);
+        return new Response(
+          JSON.stringify({ ...issue, comments, viewer, repositories }),
+          { headers: { "Content-Type": "application/json" } }
+        );
+      } catch (error) {
+        console.error("[Issue Tracker] Failed to fetch task details:", error);
+        return new Response(
+          JSON.stringify({
+            error: "Failed to fetch task details",
+            details: error instanceof Error ? error.message : String(error)
+          }),
+          { status: 500, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Claim, unclaim or change the state of a task in the issue tracker
+    // Responds with the updated task
+    const taskActionMatch = url.pathname.match(
+      /\/tasks\/([^/]+)\/(claim|unclaim|transition)$/
+    );
+    if (taskActionMatch && request.method === "POST") {
+      const taskId = decodeURIComponent(taskActionMatch[1]);
+      const action = taskActionMatch[2];
+      const user = await authenticateRequest(request, this.env);
+      const tracker = await this.getReadyIssueTracker({
+        source: "task",
+        actor: user ? (user.email ?? user.id) : null,
+        decision: "approved"
+      });
+      if (tracker instanceof Response) {
+        return tracker;
+      }
+
+      try {
+        if (action === "claim") {
+          await tracker.claimIssue(taskId);
+        } else if (action === "unclaim") {
+          await tracker.unclaimIssue(taskId);
+        } else {
+          const { state } = (await request.json().catch(() => ({}))) as {
+            state?: string;
+          };
+          if (!state?.trim()) {
+            return new Response(
+              JSON.stringify({ error: "state is required" }),
+              {
+                status: 400,
+                headers: { "Content-Type": "application/json" }
+              }
+            );
+          }
+          await tracker.transitionIssue(taskId, state.trim());
+        }
+        console.log(`[Issue Tracker] ${action} task ${taskId}`);
+
+        const issue = await tracker.getIssue(taskId);
+        if (issue) {
+          this.upsertSnapshotTasks([issue]);
+        }
+        return new Response(JSON.stringify(issue), {
+          headers: { "Content-Type": "application/json" }
+        });
+      } catch (error) {
+        console.error(`[Issue Tracker] Failed to ${action} task:`, error);
+        return new Response(
+          JSON.stringify({
+            error: `Failed to ${action} task`,
+            details: error instanceof Error ? error.message : String(error)
+          }),
+          {
+            status: error instanceof IssueTrackerError ? error.status : 500,
+            headers: { "Content-Type": "application/json" }
+          }
+        );
+      }
+    }
+
+    // Repository mappings: list and create
+    if (url.pathname.endsWith("/repository-mappings")) {
+      if (request.method === "GET") {
+        return new Response(JSON.stringify(this.listRepositoryMappings()), {
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      if (request.method === "POST") {
+        const input = parseRepositoryMappingInput(
+          await request.json().catch(() => null)
+        );
+        if (typeof input === "string") {
+          return new Response(JSON.stringify({ error: input }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+        return new Response(
+          JSON.stringify(this.saveRepositoryMapping(generateId(), input)),
+          { status: 201, headers: { "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Repository mappings: update and delete
+    const mappingMatch = url.pathname.match(/\/repository-mappings\/([\w-]+)$/);
+    if (
+      mappingMatch &&
+      (request.method === "PUT" || request.method === "DELETE")
+    ) {
+      const mappingId = mappingMatch[1];
+      if (!this.getRepositoryMapping(mappingId)) {
+        return new Response(JSON.stringify({ error: "Mapping not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      if (request.method === "DELETE") {
+        this.sql`DELETE FROM repository_mappings WHERE id = ${mappingId}`;
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const input = parseRepositoryMappingInput(
+        await request.json().catch(() => null)
+      );
+      if (typeof input === "string") {
+        return new Response(JSON.stringify({ error: input }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return new Response(
+        JSON.stringify(this.saveRepositoryMapping(mappingId, input)),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Audit log of tool calls, filtered by the query parameters (tool,
+    // server, source, decision, status, actor, workflowId, since, until) and
+    // paged with cursor/limit
+    if (url.pathname.endsWith("/audit") && request.method === "GET") {
+      const query = parseAuditQuery(url.searchParams);
+      const offset = Math.max(Number.parseInt(query.cursor ?? "", 10) || 0, 0);
+      const entries = this.listAuditLog(query, query.limit + 1, offset);
+      return new Response(
+        JSON.stringify({
+          entries: entries.slice(0, query.limit),
+          nextCursor:
+            entries.length > query.limit ? String(offset + query.limit) : null
+        }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Export the audit log as CSV or JSON Lines (?format=csv|jsonl), with
+    // the same filters
+    if (url.pathname.endsWith("/audit/export") && request.method === "GET") {
+      const format = url.searchParams.get("format") ?? "csv";
+      if (format !== "csv" && format !== "jsonl") {
+        return new Response(
+          JSON.stringify({ error: "format must be csv or jsonl" }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      const entries = this.listAuditLog(
+        parseAuditQuery(url.searchParams),
+        MAX_AUDIT_EXPORT_ROWS
+      );
+      return new Response(
+        format === "csv" ? toAuditCsv(entries) : toAuditJsonl(entries),
+        {
+          headers: {
+            "Content-Type":
+              format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/x-ndjson",
+            "Content-Disposition": `attachment; filename="audit-log.${format}"`
+          }
+        }
+      );
+    }
+
+    // Tool policy: read, replace and reset to the default
+    if (url.pathname.endsWith("/tool-policy")) {
+      if (request.method === "PUT") {
+        const policy = parseToolPolicyInput(
+          await request.json().catch(() => null)
+        );
+        if (typeof policy === "string") {
+          return new Response(JSON.stringify({ error: policy }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+          });
+        }
+        this.saveToolPolicy(policy);
+      } else if (request.method === "DELETE") {
+        this.saveToolPolicy(null);
+      } else if (request.method !== "GET") {
+        return new Response(JSON.stringify({ error: "Method not allowed" }), {
+          status: 405,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      const policy = this.getToolPolicy();
+      const state: ToolPolicyState = {
+        policy,
+        tools: this.getToolPolicyEntries(policy)
+      };
+      return new Response(JSON.stringify(state), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Get repositories from GitHub MCP
+    if (url.pathname.endsWith("/repositories") && request.method === "GET") {
+      const repositories = await this.listRepositories();
+      return new Response(JSON.stringify(repositories), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Get tasks from the issue tracker, filtered by the query parameters
+    // (team, project, label, state, priority, assignee, q) and paged with
+    // cursor/limit
+    if (url.pathname.endsWith("/tasks") && request.method === "GET") {
+      return this.listTrackerTasks(parseIssueQuery(url.searchParams));
+    }
+
+    // Let base class handle other requests (chat, websocket, etc.)
+    const response = await super.onRequest?.(request);
+    if (!response) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return response;
+  }
+
+  /**
+   * List a page of tasks from the issue tracker in the task list format
+   * Returns an empty page when no tracker is connected or it isn't ready
+   * in time
+   */
+  private async listTrackerTasks(query: IssueQuery): Promise<Response> {
+    const tracker = await this.waitForIssueTracker(MCP_ROUTE_READY_TIMEOUT);
+    if (!tracker) {
+      return new Response(JSON.stringify({ tasks: [], nextCursor: null }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    try {
+      const { issues, nextCursor } = await tracker.listIssues(query);
+      const viewerId = query.assignedToMe
+        ? await this.findViewerId(tracker, issues)
+        : undefined;
+      const snapshot = this.upsertSnapshotTasks(issues, viewerId);
+      const tasks = issues.map((issue) => snapshot.tasks[issue.id]);
+
+      return new Response(JSON.stringify({ tasks, nextCursor }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      const name = ISSUE_TRACKER_NAMES[tracker.kind];
+      console.error("[Issue Tracker] Failed to fetch tasks:", error);
+      return new Response(
+        JSON.stringify({
+          error: `Failed to fetch tasks from ${name}. The ${name} MCP server may be unavailable.`,
+          details: error instanceof Error ? error.message : String(error)
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        }
+      );
+    }
+  }
+
+  /**
+   * Ensure task_snapshot table exists
+   * It holds at most one row, the snapshot
+   */
+  private ensureTaskSnapshotTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS task_snapshot (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        snapshot TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+  }
+
+  /**
+   * The tasks this agent has listed or seen change
+   */
+  getTaskSnapshot(): TaskSnapshot {
+    this.ensureTaskSnapshotTable();
+    const [row] = this.sql<{ snapshot: string }>`
+      SELECT snapshot FROM task_snapshot WHERE id = 1
+    `;
+    return row
+      ? JSON.parse(row.snapshot)
+      : { version: 0, viewerId: null, tasks: {}, removed: [] };
+  }
+
+  /**
+   * Apply a change to the task snapshot and send the tasks it added,
+   * changed or removed to connected clients
+   */
+  private updateTaskSnapshot(
+    update: (snapshot: TaskSnapshot) => Partial<TaskSnapshot>
+  ): TaskSnapshot {
+    const current = this.getTaskSnapshot();
+    const next = { ...current, ...update(current) };
+
+    // Drop the least recently changed tasks beyond the cap
+    if (Object.keys(next.tasks).length > MAX_SNAPSHOT_TASKS) {
+      next.tasks = Object.fromEntries(
+        Object.entries(next.tasks).slice(-MAX_SNAPSHOT_TASKS)
+      );
+    }
+    next.removed = next.removed.slice(-MAX_SNAPSHOT_REMOVED);
+
+    const tasks = Object.values(next.tasks).filter(
+      (task) => JSON.stringify(task) !== JSON.stringify(current.tasks[task.id])
+    );
+    const previouslyRemoved = new Set(current.removed);
+    const removed = next.removed.filter((id) => !previouslyRemoved.has(id));
+    const changed =
+      tasks.length > 0 ||
+      removed.length > 0 ||
+      next.viewerId !== current.viewerId;
+    if (changed) {
+      next.version = current.version + 1;
+    }
+
+    this.ensureTaskSnapshotTable();
+    this.sql`
+      INSERT OR REPLACE INTO task_snapshot (id, snapshot, updated_at)
+      VALUES (1, ${JSON.stringify(next)}, ${Date.now()})
+    `;
+
+    if (changed) {
+      const message: TaskSnapshotMessage = {
+        type: TASK_SNAPSHOT_MESSAGE,
+        version: next.version,
+        viewerId: next.viewerId,
+        tasks,
+        removed
+      };
+      this.broadcast(JSON.stringify(message));
+    }
+    return next;
+  }
+
+  /**
+   * Add or refresh tasks in the snapshot, keeping their research status
+   */
+  private upsertSnapshotTasks(
+    issues: TrackerIssue[],
+    viewerId?: string
+  ): TaskSnapshot {
+    return this.updateTaskSnapshot((snapshot) => {
+      const tasks = { ...snapshot.tasks };
+      for (const issue of issues) {
+        const previous = tasks[issue.id];
+        // Re-insert so the task counts as the most recently changed
+        delete tasks[issue.id];
+        tasks[issue.id] = {
+          id: issue.id,
+          identifier: issue.identifier,
+          tracker: issue.tracker,
+          title: issue.title,
+          description: issue.description,
+          url: issue.url,
+          claimedAt: issue.createdAt,
+          updatedAt: issue.updatedAt,
+          state: issue.state && {
+            name: issue.state.name,
+            type: issue.state.type
+          },
+          assignee: issue.assignee && {
+            id: issue.assignee.id,
+            name: issue.assignee.displayName || issue.assignee.name
+          },
+          researchStatus: previous?.researchStatus ?? "pending"
+        };
+      }
+      const ids = new Set(issues.map((issue) => issue.id));
+      return {
+        tasks,
+        removed: snapshot.removed.filter((id) => !ids.has(id)),
+        viewerId: viewerId ?? snapshot.viewerId
+      };
+    });
+  }
 
-      return new Response(JSON.stringify(workflows), {
-        headers: { "Content-Type": "application/json" }
-      });
+  /**
+   * The connected user's ID in the issue tracker, which clients need to add
+   * tasks assigned to the user after their list loaded
+   * Everything listed as assigned to the user carries it; when nothing is,
+   * the tracker is asked once
+   */
+  private async findViewerId(
+    tracker: IssueTracker,
+    assigned: TrackerIssue[]
+  ): Promise<string | undefined> {
+    const listed = assigned.find((issue) => issue.assignee)?.assignee?.id;
+    const known = listed ?? this.getTaskSnapshot().viewerId;
+    if (known) return known;
+    try {
+      return (await tracker.getViewer())?.id;
+    } catch (error) {
+      console.error("[Issue Tracker] Failed to fetch the viewer:", error);
+      return undefined;
     }
+  }
 
-    // Get MCP servers state
-    if (url.pathname.endsWith("/mcp-servers") && request.method === "GET") {
-      const mcpState = this.getMcpServers();
-      return new Response(JSON.stringify(mcpState, null, 2), {
-        headers: { "Content-Type": "application/json" }
-      });
+  /**
+   * Re-read one task from the issue tracker into the snapshot
+   * Tasks the tracker can no longer find are marked as removed
+   */
+  private async refreshSnapshotTask(taskId: string) {
+    const issueTracker = this.getIssueTracker();
+    if (issueTracker?.state !== "ready") return;
+
+    const issue = await issueTracker.tracker.getIssue(taskId);
+    if (issue) {
+      this.upsertSnapshotTasks([issue]);
+      return;
     }
+    this.updateTaskSnapshot((snapshot) => {
+      const tasks = { ...snapshot.tasks };
+      delete tasks[taskId];
+      return { tasks, removed: [...snapshot.removed, taskId] };
+    });
+  }
 
-    // Add MCP server
-    if (url.pathname.endsWith("/mcp-servers") && request.method === "POST") {
-      const { serverUrl, name, authToken } = (await request.json()) as {
-        serverUrl: string;
-        name: string;
-        authToken?: string;
-      };
+  /**
+   * Re-list the user's assigned tasks into the snapshot, for changes that
+   * don't name a single task (e.g. create_issue). Tasks that were assigned
+   * to the user but no longer are listed are re-read one by one
+   */
+  private async refreshSnapshotAssignments() {
+    const issueTracker = this.getIssueTracker();
+    if (issueTracker?.state !== "ready") return;
 
-      console.log(`[MCP] Connecting to ${name} at ${serverUrl}`);
-      console.log(
-        `[MCP] Auth token provided: ${authToken ? `YES (length: ${authToken.length})` : "NO"}`
-      );
+    const { issues } = await issueTracker.tracker.listIssues({
+      assignedToMe: true,
+      limit: MAX_ISSUE_PAGE_SIZE
+    });
+    const viewerId = await this.findViewerId(issueTracker.tracker, issues);
+    const snapshot = this.upsertSnapshotTasks(issues, viewerId);
+
+    const listed = new Set(issues.map((issue) => issue.id));
+    const stale = Object.values(snapshot.tasks).filter(
+      (task) =>
+        !listed.has(task.id) &&
+        !!snapshot.viewerId &&
+        task.assignee?.id === snapshot.viewerId
+    );
+    for (const task of stale) {
+      await this.refreshSnapshotTask(task.id);
+    }
+  }
 
-      // If authToken provided, use it in headers (for PAT-based auth)
-      const options = authToken
-        ? {
-            transport: {
-              headers: {
-                Authorization: `Bearer ${authToken}`
-              }
-            }
+  /**
+   * Record a research run's status on its task, which workflows may
+   * reference by ID or identifier
+   */
+  private setTaskResearchStatus(
+    taskId: string,
+    status: TaskSummary["researchStatus"]
+  ) {
+    const task = Object.values(this.getTaskSnapshot().tasks).find(
+      (t) => t.id === taskId || t.identifier === taskId
+    );
+    if (!task || task.researchStatus === status) return;
+
+    this.updateTaskSnapshot((snapshot) => ({
+      tasks: {
+        ...snapshot.tasks,
+        [task.id]: { ...task, researchStatus: status }
+      }
+    }));
+  }
+
+  /**
+   * Keep the task snapshot current when the chat model changes issues
+   * Wraps the issue tracker server's write tools so both direct and
+   * confirmed executions refresh the task they touched
+   */
+  private trackIssueWriteTools(mcpTools: ToolSet): ToolSet {
+    const issueTracker = this.getIssueTracker();
+    if (!issueTracker) return mcpTools;
+
+    const { kind } = issueTracker.tracker;
+    const serverId = Object.entries(this.getMcpServers().servers || {}).find(
+      ([_id, server]) => server.name === ISSUE_TRACKER_SERVERS[kind]
+    )?.[0];
+    if (!serverId) return mcpTools;
+
+    const prefix = mcpToolPrefix(serverId);
+    const wrapped = { ...mcpTools };
+    for (const [name, tool] of Object.entries(mcpTools)) {
+      const toolName = name.slice(prefix.length);
+      const execute = tool.execute;
+      if (!name.startsWith(prefix) || !execute || !isIssueWriteTool(toolName)) {
+        continue;
+      }
+      wrapped[name] = {
+        ...tool,
+        execute: async (input: unknown, options: ToolCallOptions) => {
+          const result = await execute(input, options);
+          const args =
+            typeof input === "object" && input !== null
+              ? (input as Record<string, unknown>)
+              : {};
+          const taskId = issueIdFromToolArgs(kind, args);
+          try {
+            await (taskId
+              ? this.refreshSnapshotTask(taskId)
+              : this.refreshSnapshotAssignments());
+          } catch (error) {
+            console.error(
+              `[Issue Tracker] Failed to refresh tasks after ${toolName}:`,
+              error
+            );
           }
-        : undefined;
+          return result;
+        }
+      };
+    }
+    return wrapped;
+  }
+
+  /**
+   * The issue tracker tasks come from, with the state of its MCP server
+   * ISSUE_TRACKER picks one explicitly; otherwise Linear is used when
+   * connected, then GitHub Issues. Returns null when none is connected
+   */
+  private getIssueTracker(
+    context?: TrackerWriteContext
+  ): { tracker: IssueTracker; state: string } | null {
+    const configured = this.env.ISSUE_TRACKER?.trim().toLowerCase();
+    const kinds: IssueTrackerKind[] =
+      configured === "linear" || configured === "github"
+        ? [configured]
+        : ["linear", "github"];
+
+    const servers = Object.entries(this.getMcpServers().servers || {});
+    for (const kind of kinds) {
+      const entry = servers.find(
+        ([_id, s]) => s.name === ISSUE_TRACKER_SERVERS[kind]
+      );
+      if (entry) {
+        const [serverId, server] = entry;
+        return {
+          tracker: createIssueTracker(
+            kind,
+            this.getMcpToolbox(serverId, context),
+            this.env
+          ),
+          state: server.state
+        };
+      }
+    }
+    return null;
+  }
 
-      console.log(`[MCP] Options:`, JSON.stringify(options, null, 2));
+  /**
+   * The issue tracker once its MCP server is ready, otherwise a 503 response
+   */
+  private async getReadyIssueTracker(
+    context?: TrackerWriteContext
+  ): Promise<IssueTracker | Response> {
+    const tracker = await this.waitForIssueTracker(
+      MCP_ROUTE_READY_TIMEOUT,
+      context
+    );
+    if (!tracker) {
+      return new Response(
+        JSON.stringify({
+          error: this.getIssueTracker()
+            ? "Issue tracker not ready"
+            : "No issue tracker connected"
+        }),
+        { status: 503, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    return tracker;
+  }
 
-      try {
-        const { id, authUrl } = await this.addMcpServer(
-          name,
-          serverUrl,
-          undefined,
-          undefined,
-          options
-        );
+  /**
+   * Wait for the issue tracker's MCP server to be ready
+   * Returns null when no tracker is connected or it isn't ready in time
+   */
+  private async waitForIssueTracker(
+    timeout = MCP_READY_TIMEOUT,
+    context?: TrackerWriteContext
+  ): Promise<IssueTracker | null> {
+    const issueTracker = this.getIssueTracker(context);
+    if (!issueTracker) {
+      return null;
+    }
+    try {
+      await this.awaitServerReady(
+        ISSUE_TRACKER_SERVERS[issueTracker.tracker.kind],
+        timeout
+      );
+      return issueTracker.tracker;
+    } catch (error) {
+      if (!(error instanceof McpServerNotReadyError)) throw error;
+      console.log(`[Issue Tracker] ${error.message}`);
+      return null;
+    }
+  }
 
-        console.log(
-          `[MCP] Connection result - ID: ${id}, authUrl: ${authUrl || "none"}`
-        );
+  /**
+   * Call one MCP server's tools by their unprefixed names
+   * Writes to issues and comments follow the tool policy like the chat
+   * model's calls and are recorded in the audit log; without a context
+   * they count as automatic. Disabled tools, and tools the policy asks
+   * first about when no user asked for the write (other than research
+   * posting its results), throw a 403 IssueTrackerError
+   */
+  private getMcpToolbox(
+    serverId: string,
+    context?: TrackerWriteContext
+  ): McpToolbox {
+    const prefix = mcpToolPrefix(serverId);
+    return {
+      has: (toolName) => `${prefix}${toolName}` in this.mcp.getAITools(),
+      call: async (toolName, args) => {
+        const name = `${prefix}${toolName}`;
+        const tool = this.mcp.getAITools()[name];
+        if (!tool?.execute) {
+          throw new Error(`${toolName} tool not available`);
+        }
+        const options = { toolCallId: generateId(), messages: [] };
+        if (!isIssueWriteTool(toolName)) {
+          return tool.execute(args, options);
+        }
 
-        if (authUrl) {
-          return new Response(JSON.stringify({ serverId: id, authUrl }), {
-            headers: { "Content-Type": "application/json" }
+        const call = {
+          source: context?.source ?? "task",
+          workflowId: context?.workflowId ?? null,
+          toolName: name,
+          toolCallId: options.toolCallId,
+          actor: context?.actor ?? null,
+          input: args,
+          startedAt: Date.now()
+        };
+        const decision = context?.decision ?? "auto";
+        const action = this.getToolActions()[name] ?? "auto";
+        // Research posting its own results isn't held for approval; it
+        // only stops when the tool is disabled
+        if (
+          action === "disabled" ||
+          (action === "confirm" &&
+            decision === "auto" &&
+            call.source !== "research")
+        ) {
+          // Recorded as denied by the policy, with no actor
+          this.recordToolCall({
+            ...call,
+            decision: "denied",
+            actor: null,
+            durationMs: null
           });
+          throw new IssueTrackerError(
+            action === "disabled"
+              ? `${toolName} is disabled by the tool policy`
+              : `${toolName} needs approval under the tool policy`,
+            403
+          );
         }
+        return this.executeAudited(tool.execute, args, options, {
+          ...call,
+          decision
+        });
+      }
+    };
+  }
 
-        return new Response(
-          JSON.stringify({ serverId: id, status: "connected" }),
-          { headers: { "Content-Type": "application/json" } }
-        );
-      } catch (error) {
-        console.error(`[MCP] Failed to connect to ${name}:`, error);
-        return new Response(
-          JSON.stringify({
-            error: error instanceof Error ? error.message : String(error)
-          }),
-          { status: 500, headers: { "Content-Type": "application/json" } }
-        );
+  /**
+   * Handles incoming chat messages and manages the response stream
+   */
+  async onChatMessage(
+    onFinish: StreamTextOnFinishCallback<ToolSet>,
+    _options?: { abortSignal?: AbortSignal }
+  ) {
+    // Collect all tools, including MCP tools
+    // Safely get MCP tools, handling the case where MCP servers are still initializing
+    let mcpTools: ToolSet = {};
+    try {
+      mcpTools = this.trackIssueWriteTools(this.mcp.getAITools());
+    } catch (error) {
+      console.warn("[Chat] MCP tools not yet available:", error);
+    }
+
+    // Leave out disabled tools and hold back the ones that need approval
+    const policyTools = applyToolPolicy(
+      { ...tools, ...mcpTools },
+      this.getToolActions()
+    );
+    const allTools = this.auditTools(policyTools.tools, "chat");
+    const { executions } = policyTools;
+
+    // Approvals and denials come from the connection that sent the request
+    const { connection } = getCurrentAgent();
+    const actor =
+      (connection?.state as ChatConnectionState | null)?.actor ?? null;
+
+    const stream = createUIMessageStream({
+      execute: async ({ writer }) => {
+        // Clean up incomplete tool calls to prevent API errors
+        const cleanedMessages = cleanupMessages(this.messages);
+
+        // Process any pending tool calls from previous messages
+        // This handles human-in-the-loop confirmations for tools
+        const processedMessages = await processToolCalls({
+          messages: cleanedMessages,
+          dataStream: writer,
+          tools: allTools,
+          executions,
+          onDecision: (decision: ToolCallDecision) =>
+            this.recordToolCall({
+              source: "chat",
+              workflowId: null,
+              toolName: decision.toolName,
+              toolCallId: decision.toolCallId,
+              decision: decision.approved ? "approved" : "denied",
+              actor,
+              input: decision.input,
+              originalInput: decision.originalInput,
+              output: decision.output,
+              error: decision.error,
+              startedAt: decision.startedAt,
+              durationMs: decision.durationMs
+            })
+        });
+
+        // Extract repository context from the latest message metadata
+        const latestMessage = processedMessages[processedMessages.length - 1];
+        const repositoryContext = latestMessage?.metadata?.repository;
+
+        // Build dynamic system prompt with repository context
+        let systemPrompt = `You are a helpful assistant that can do various tasks...
+
+${getSchedulePrompt({ date: new Date() })}
+
+If the user asks to schedule a task, use the schedule tool to schedule the task.`;
+
+        if (repositoryContext) {
+          systemPrompt += `
+
+REPOSITORY CONTEXT:
+You are currently working in the repository: ${repositoryContext.full_name}
+Owner: ${repositoryContext.owner}
+Repository: ${repositoryContext.name}
+
+All code-related questions, file searches, and development tasks should be scoped to this repository.
+When using GitHub MCP tools, always reference this repository context.`;
+        }
+
+        const result = streamText({
+          system: systemPrompt,
+
+          messages: convertToModelMessages(processedMessages),
+          model: getModel(this.env, "chat"),
+          tools: allTools,
+          // Type boundary: streamText expects specific tool types, but base class uses ToolSet
+          // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
+          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
+            typeof allTools
+          >,
+          stopWhen: stepCountIs(10)
+        });
+
+        writer.merge(result.toUIMessageStream());
+      }
+    });
+
+    return createUIMessageStreamResponse({ stream });
+  }
+  async executeTask(description: string, _task: Schedule<string>) {
+    await this.saveMessages([
+      ...this.messages,
+      {
+        id: generateId(),
+        role: "user",
+        parts: [
+          {
+            type: "text",
+            text: `Running scheduled task: ${description}`
+          }
+        ],
+        metadata: {
+          createdAt: new Date()
+        }
       }
+    ]);
+  }
+
+  async executeResearch(workflowId: string, _task: Schedule<string>) {
+    console.log(
+      `[Research Workflow] Starting research workflow: ${workflowId}`
+    );
+
+    // Get workflow details from storage first (outside try so they're accessible in catch)
+    const workflow = this.getWorkflow(workflowId);
+
+    if (!workflow) {
+      console.error(`[Research Workflow] Workflow not found: ${workflowId}`);
+      return;
     }
 
-    // Remove MCP server
-    if (
-      url.pathname.match(/\/mcp-servers\/(.+)$/) &&
-      request.method === "DELETE"
-    ) {
-      const serverId = url.pathname.split("/").pop()!;
-      await this.removeMcpServer(serverId);
-      return new Response(JSON.stringify({ status: "removed" }), {
-        headers: { "Content-Type": "application/json" }
-      });
+    // Cancelled before its scheduled run started
+    if (workflow.status === "cancelled") {
+      console.log(
+        `[Research Workflow] Skipping cancelled workflow: ${workflowId}`
+      );
+      return;
     }
 
-    // Get my assigned tasks from Linear MCP
-    if (url.pathname.endsWith("/my-tasks") && request.method === "GET") {
-      try {
-        // Check MCP server state
-        const mcpState = this.getMcpServers();
-        console.log("[Linear] MCP State:", JSON.stringify(mcpState, null, 2));
-
-        // Find Linear server
-        const servers = mcpState.servers || {};
-        const linearServerEntry = Object.entries(servers).find(
-          ([_id, s]: [string, any]) => s.name === "Linear"
-        );
+    const { question, depth: depthStr, task_id: taskId } = workflow;
+    const depth = depthStr as ResearchDepth;
+    const repositories = workflowRepositories(workflow);
+    const repositoryList = repositories.join(", ");
 
-        if (!linearServerEntry) {
-          console.log("[Linear] Linear server not connected");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
+    console.log(
+      `[Research Workflow] Repositories: ${repositoryList}, Question: "${question}", Depth: ${depth}${taskId ? `, Task: ${taskId}` : ""}`
+    );
+
+    // Lets the cancel endpoint abort in-flight model calls
+    const abortController = new AbortController();
+    const abortSignal = abortController.signal;
+    this.researchAbortControllers.set(workflowId, abortController);
+
+    try {
+      // Update status to in_progress
+      this.updateWorkflow(workflowId, { status: "in_progress" });
+      this.recordResearchEvent(workflowId, {
+        kind: "status",
+        message: `Started researching ${repositoryList}`
+      });
+
+      // Scheduled and RPC-started research may run before the agent's MCP
+      // connections are restored
+      await this.awaitServerReady("GitHub");
+      const mcpTools = this.mcp.getAITools();
+      console.log(
+        `[Research Workflow] Got ${Object.keys(mcpTools).length} MCP tools`
+      );
+
+      // Research runs unattended, so it only gets the research tools the
+      // tool policy lets run without approval
+      const toolActions = this.getToolActions();
+      let filteredMcpTools: ToolSet = {};
+      for (const [toolName, tool] of Object.entries(mcpTools)) {
+        if (
+          RESEARCH_TOOL_NAMES.some((name) => toolName.includes(name)) &&
+          toolActions[toolName] === "auto"
+        ) {
+          filteredMcpTools[toolName] = tool;
         }
+      }
+      filteredMcpTools = this.auditTools(
+        filteredMcpTools,
+        "research",
+        workflowId
+      );
 
-        const [linearServerId, linearServer] = linearServerEntry;
-        console.log("[Linear] Server state:", (linearServer as any).state);
+      console.log(
+        `[Research Workflow] Using ${Object.keys(filteredMcpTools).length} filtered tools (from ${Object.keys(mcpTools).length} total)`
+      );
 
-        // If server is not ready yet, return empty array
-        if ((linearServer as any).state !== "ready") {
+      // Reuse a cached answer when no default branch has moved since it was
+      // researched. Several repositories are cached together, keyed by their
+      // sorted names and head commits. Retries and re-runs always research
+      // again
+      const cacheRepositories = repositories
+        .map((repository) => repository.toLowerCase())
+        .sort();
+      const heads: string[] = [];
+      for (const repository of cacheRepositories) {
+        const head = await this.getRepositoryHead(filteredMcpTools, repository);
+        if (!head) break;
+        heads.push(head);
+      }
+      const cacheKey = cacheRepositories.join(",");
+      const headSha =
+        heads.length === cacheRepositories.length ? heads.join(",") : null;
+      if (headSha) {
+        this.sql`
+          UPDATE research_workflows SET head_sha = ${headSha} WHERE id = ${workflowId}
+        `;
+
+        const cached = workflow.parent_id
+          ? null
+          : this.getCachedResearch(cacheKey, question, depth, headSha);
+        if (cached) {
+          const unchanged = heads
+            .map((head, i) => `${cacheRepositories[i]}@${head.slice(0, 7)}`)
+            .join(", ");
           console.log(
-            "[Linear] Server not ready yet, state:",
-            (linearServer as any).state
+            `[Research Workflow] Cache hit for ${unchanged} from workflow ${cached.workflow_id}`
           );
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
+          this.sql`
+            UPDATE research_workflows SET cached = 1 WHERE id = ${workflowId}
+          `;
+          this.recordResearchEvent(workflowId, {
+            kind: "status",
+            message: `Reused cached answer (unchanged at ${unchanged})`
+          });
+          abortSignal.throwIfAborted();
+          await this.completeResearch(workflowId, {
+            repositories,
+            question,
+            taskId,
+            results: cached.results,
+            report: cached.report ? JSON.parse(cached.report) : undefined
           });
+          return;
         }
+      }
 
-        const tools = this.mcp.getAITools();
-        const toolNames = Object.keys(tools);
-        console.log("[Linear] Available MCP tools:", toolNames);
-        console.log("[Linear] Server ID:", linearServerId);
-
-        // Find the Linear issues list tool - it has format: tool_{serverId}_list_issues
-        const issuesListTool = toolNames.find((name) =>
-          name.includes(`tool_${linearServerId}_list_issues`)
+      // Draft a plan of sub-questions so each one gets its own step budget.
+      // Each repository is planned separately, so one repository can't use
+      // up the budget of the others
+      const { maxSubQuestions, stepsPerSubQuestion } =
+        RESEARCH_DEPTH_CONFIG[depth];
+      const plannedSteps: { question: string; repository: string }[] = [];
+      for (const repository of repositories) {
+        abortSignal.throwIfAborted();
+        const subQuestions = await this.planResearch(
+          repository,
+          question,
+          maxSubQuestions,
+          abortSignal,
+          repositories.filter((other) => other !== repository)
         );
-
-        if (!issuesListTool) {
-          console.error(
-            "[Linear] No issues list tool found for server",
-            linearServerId
-          );
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
+        for (const subQuestion of subQuestions) {
+          plannedSteps.push({ question: subQuestion, repository });
         }
+      }
+      this.createWorkflowSteps(workflowId, plannedSteps);
 
-        console.log("[Linear] Using tool:", issuesListTool);
+      console.log(
+        `[Research Workflow] Planned ${plannedSteps.length} sub-questions:`,
+        JSON.stringify(plannedSteps)
+      );
+      this.recordResearchEvent(workflowId, {
+        kind: "status",
+        message: `Planned ${plannedSteps.length} research step${plannedSteps.length === 1 ? "" : "s"}`
+      });
 
-        // Get the actual tool object and execute it directly
-        const tool = tools[issuesListTool];
-        if (!tool || !tool.execute) {
-          console.error("[Linear] Tool doesn't have execute function");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
+      // Research each sub-question as its own tracked step, collecting the
+      // files and search matches the final report may cite
+      const sources: ResearchSource[] = [];
+      for (const [index, step] of plannedSteps.entries()) {
+        abortSignal.throwIfAborted();
+        if (
+          repositories.length > 1 &&
+          step.repository !== plannedSteps[index - 1]?.repository
+        ) {
+          this.recordResearchEvent(workflowId, {
+            kind: "status",
+            message: `Researching ${step.repository}`
           });
         }
-
-        // Query Linear MCP for issues assigned to the current user
-        const filterParams = {
-          filter: {
-            assignee: { id: { eq: "me" } },
-            state: { type: { in: ["started", "unstarted", "backlog"] } }
-          }
-        };
-        console.log(
-          "[Linear] Filter params for my-tasks:",
-          JSON.stringify(filterParams, null, 2)
-        );
-        const result = await tool.execute(filterParams);
-
-        console.log(
-          "[Linear] Raw MCP response:",
-          JSON.stringify(result, null, 2)
-        );
-
-        // MCP tools return results in content array format
-        // Parse the actual data from the text content
-        let issues = [];
-        if ((result as any).content && Array.isArray((result as any).content)) {
-          const textContent = (result as any).content.find(
-            (c: any) => c.type === "text"
-          );
-          if (textContent && textContent.text) {
-            try {
-              issues = JSON.parse(textContent.text);
-              console.log("[Linear] Parsed my issues:", issues.length);
-              if (issues.length > 0) {
-                console.log("[Linear] Sample issue state:", {
-                  title: issues[0].title,
-                  state: issues[0].state,
-                  stateType: issues[0].state?.type
-                });
-              }
-            } catch (e) {
-              console.error("[Linear] Failed to parse issues JSON:", e);
-            }
-          }
-        }
-
-        // Filter client-side for issues that actually have an assignee and aren't completed
-        // (Linear MCP server doesn't always respect filters)
-        const assignedIssues = issues.filter((issue: any) => {
-          const hasAssignee = issue.assigneeId;
-          const notDone =
-            issue.status !== "Done" && issue.status !== "Canceled";
-          return hasAssignee && notDone;
-        });
-        console.log(
-          "[Linear] Filtered to assigned, active issues:",
-          assignedIssues.length,
-          "from",
-          issues.length
-        );
-
-        // Transform Linear issues to our task format
-        const tasks = assignedIssues.map((issue: any) => ({
-          id: issue.id,
-          title: issue.title,
-          description: issue.description,
-          url: issue.url,
-          claimedAt: issue.createdAt,
-          researchStatus: "pending" as const
-        }));
-
-        return new Response(JSON.stringify(tasks), {
-          headers: { "Content-Type": "application/json" }
+        await this.executeResearchStep(workflowId, index, {
+          repository: step.repository,
+          question,
+          subQuestion: step.question,
+          stepCount: plannedSteps.length,
+          depth,
+          tools: filteredMcpTools,
+          maxSteps: stepsPerSubQuestion,
+          sources,
+          abortSignal
         });
-      } catch (error) {
-        console.error("[Linear] Failed to fetch my tasks:", error);
-        return new Response(
-          JSON.stringify({
-            error:
-              "Failed to fetch tasks from Linear. The Linear MCP server may be unavailable.",
-            details: error instanceof Error ? error.message : String(error)
-          }),
-          {
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-          }
-        );
       }
-    }
 
-    // Get a single task/issue with full details including comments
-    const taskDetailMatch = url.pathname.match(/\/tasks\/([^/]+)$/);
-    if (taskDetailMatch && request.method === "GET") {
-      const taskId = taskDetailMatch[1];
-      try {
-        const mcpState = this.getMcpServers();
-        const servers = mcpState.servers || {};
-        const linearServerEntry = Object.entries(servers).find(
-          ([_id, s]: [string, any]) => s.name === "Linear"
+      const completedSteps = this.getWorkflowSteps(workflowId).filter(
+        (step) => step.status === "completed"
+      );
+      if (completedSteps.length === 0) {
+        throw new Error(
+          "All research steps failed. Check that the GitHub MCP server is working."
         );
+      }
 
-        if (!linearServerEntry) {
-          return new Response(
-            JSON.stringify({ error: "Linear server not connected" }),
-            { status: 503, headers: { "Content-Type": "application/json" } }
-          );
-        }
+      // Combine the step findings into a final answer with step citations
+      this.recordResearchEvent(workflowId, {
+        kind: "status",
+        message: "Writing final answer"
+      });
+      abortSignal.throwIfAborted();
+      // Citations of sources read without a commit are pinned to the head
+      // commits looked up above
+      const headShas = Object.fromEntries(
+        heads.map((head, i) => [cacheRepositories[i], head])
+      );
+      const report = await this.synthesizeResearch(
+        repositories,
+        question,
+        completedSteps,
+        sources,
+        headShas,
+        abortSignal
+      );
+      const fullResponse = renderResearchReport(report);
 
-        const [linearServerId, linearServer] = linearServerEntry;
-        if ((linearServer as any).state !== "ready") {
-          return new Response(
-            JSON.stringify({ error: "Linear server not ready" }),
-            { status: 503, headers: { "Content-Type": "application/json" } }
-          );
-        }
-        const tools = this.mcp.getAITools();
-        const toolNames = Object.keys(tools);
-        console.log("[Linear] Available tools for task detail:", toolNames.filter(n => n.includes(linearServerId)));
+      const citations = report.findings.flatMap((f) => f.citations);
+      console.log(
+        `[Research Workflow] Synthesis finished, response length: ${fullResponse.length}, steps: ${completedSteps.length}/${plannedSteps.length}, citations: ${citations.filter((c) => c.verified).length}/${citations.length} verified`
+      );
 
-        // Find the list_issues tool (Linear MCP doesn't have get_issue)
-        const listIssuesTool = toolNames.find((name) =>
-          name.includes(`tool_${linearServerId}_list_issues`)
+      // Check if we got a meaningful response
+      if (!fullResponse || fullResponse.length < 50) {
+        throw new Error(
+          `Research produced insufficient results (${fullResponse.length} chars). The AI may have encountered an error.`
         );
+      }
 
-        if (!listIssuesTool) {
-          console.error("[Linear] No list_issues tool found");
-          return new Response(
-            JSON.stringify({ error: "list_issues tool not available" }),
-            { status: 500, headers: { "Content-Type": "application/json" } }
-          );
-        }
+      abortSignal.throwIfAborted();
+      if (headSha) {
+        this.cacheResearch(workflowId, {
+          repository: cacheKey,
+          question,
+          depth,
+          headSha,
+          results: fullResponse,
+          report
+        });
+      }
 
-        // Get the issue by ID using list_issues with filter
-        const tool = tools[listIssuesTool];
-        const result = await tool.execute({ filter: { id: { eq: taskId } } });
+      await this.completeResearch(workflowId, {
+        repositories,
+        question,
+        taskId,
+        results: fullResponse,
+        report
+      });
+    } catch (error) {
+      // Cancellation already updated the workflow status
+      if (abortSignal.aborted) {
+        console.log(`[Research Workflow] Research cancelled: ${workflowId}`);
+        return;
+      }
 
-        let issue = null;
-        if ((result as any).content && Array.isArray((result as any).content)) {
-          const textContent = (result as any).content.find(
-            (c: any) => c.type === "text"
-          );
-          if (textContent && textContent.text) {
-            try {
-              const issues = JSON.parse(textContent.text);
-              issue = issues[0] || null;
-            } catch (e) {
-              console.error("[Linear] Failed to parse issue JSON:", e);
-            }
-          }
-        }
+      console.error("[Research Workflow] Failed to execute research:", error);
 
-        if (!issue) {
-          return new Response(
-            JSON.stringify({ error: "Issue not found" }),
-            { status: 404, headers: { "Content-Type": "application/json" } }
-          );
-        }
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
 
-        // Try to get comments for this issue
-        const listCommentsTool = toolNames.find((name) =>
-          name.includes(`tool_${linearServerId}_list_comments`)
-        );
+      // Save error to workflow
+      this.updateWorkflow(workflowId, {
+        status: "failed",
+        error: errorMessage
+      });
+      this.recordResearchEvent(workflowId, {
+        kind: "status",
+        message: `Research failed: ${errorMessage}`
+      });
 
-        let comments: any[] = [];
-        if (listCommentsTool) {
-          try {
-            const commentsResult = await tools[listCommentsTool].execute({
-              issueId: taskId
-            });
-            if (
-              (commentsResult as any).content &&
-              Array.isArray((commentsResult as any).content)
-            ) {
-              const textContent = (commentsResult as any).content.find(
-                (c: any) => c.type === "text"
-              );
-              if (textContent && textContent.text) {
-                comments = JSON.parse(textContent.text);
-              }
+      // Add error message to chat so user sees it
+      await this.saveMessages([
+        ...this.messages,
+        {
+          id: generateId(),
+          role: "assistant",
+          parts: [
+            {
+              type: "text",
+              text: `## Research Failed: ${repositoryList}\n\n**Question:** ${question}\n\n**Error:** ${errorMessage}\n\nPlease try again or check if the GitHub MCP server is properly connected.`
             }
-          } catch (e) {
-            console.error("[Linear] Failed to fetch comments:", e);
+          ],
+          metadata: {
+            createdAt: new Date(),
+            workflowId,
+            isError: true
           }
         }
-
-        // Return full issue with comments
-        return new Response(
-          JSON.stringify({
-            ...issue,
-            comments
-          }),
-          { headers: { "Content-Type": "application/json" } }
-        );
-      } catch (error) {
-        console.error("[Linear] Failed to fetch task details:", error);
-        return new Response(
-          JSON.stringify({
-            error: "Failed to fetch task details",
-            details: error instanceof Error ? error.message : String(error)
-          }),
-          { status: 500, headers: { "Content-Type": "application/json" } }
-        );
-      }
+      ]);
+    } finally {
+      this.researchAbortControllers.delete(workflowId);
     }
+  }
 
-    // Get repositories from GitHub MCP
-    if (url.pathname.endsWith("/repositories") && request.method === "GET") {
-      try {
-        const mcpState = this.getMcpServers();
-        const servers = mcpState.servers || {};
-        const githubServer = Object.values(servers).find(
-          (s: any) => s.name === "GitHub"
-        );
-
-        if (!githubServer || (githubServer as any).state !== "ready") {
-          console.log("[GitHub] GitHub server not connected or not ready");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-
-        const tools = this.mcp.getAITools();
-        const toolNames = Object.keys(tools);
-        console.log("[GitHub] Available MCP tools:", toolNames);
-
-        // First get authenticated user
-        const getMeTool = toolNames.find((name) => name.includes("get_me"));
-        if (!getMeTool) {
-          console.error("[GitHub] No get_me tool found");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
+  /**
+   * Save a workflow's results and deliver them to the chat and, for task
+   * research, to the issue tracker
+   */
+  private async completeResearch(
+    workflowId: string,
+    options: {
+      repositories: string[];
+      question: string;
+      taskId: string | null;
+      results: string;
+      report?: ResearchReport;
+    }
+  ) {
+    const { repositories, question, taskId, results } = options;
 
-        console.log("[GitHub] Getting authenticated user...");
-        const meResult = await tools[getMeTool].execute({});
-        console.log("[GitHub] User result:", JSON.stringify(meResult, null, 2));
+    // Save results to workflow
+    this.updateWorkflow(workflowId, {
+      status: "completed",
+      results,
+      report: options.report
+    });
+    this.recordResearchEvent(workflowId, {
+      kind: "status",
+      message: "Research completed"
+    });
 
-        // Parse username from result
-        let username = null;
-        if (
-          (meResult as any).content &&
-          Array.isArray((meResult as any).content)
-        ) {
-          const textContent = (meResult as any).content.find(
-            (c: any) => c.type === "text"
-          );
-          if (textContent && textContent.text) {
-            try {
-              const userData = JSON.parse(textContent.text);
-              username = userData.login;
-              console.log("[GitHub] Authenticated as:", username);
-            } catch (e) {
-              console.error("[GitHub] Failed to parse user data:", e);
-            }
+    // Add result message to chat so user sees it
+    await this.saveMessages([
+      ...this.messages,
+      {
+        id: generateId(),
+        role: "assistant",
+        parts: [
+          {
+            type: "text",
+            text: `## Research Results: ${repositories.join(", ")}\n\n**Question:** ${question}\n\n${results}`
           }
+        ],
+        metadata: {
+          createdAt: new Date(),
+          workflowId
         }
+      }
+    ]);
 
-        if (!username) {
-          console.error("[GitHub] Could not get username");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-
-        // Now search for user's repositories
-        const searchReposTool = toolNames.find((name) =>
-          name.includes("search_repositories")
-        );
-        if (!searchReposTool) {
-          console.error("[GitHub] No search_repositories tool found");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-
-        console.log("[GitHub] Searching repositories for user:", username);
-        const result = await tools[searchReposTool].execute({
-          query: `user:${username}`
-        });
-        console.log(
-          "[GitHub] Raw MCP response:",
-          JSON.stringify(result, null, 2)
-        );
+    console.log("[Research Workflow] Research completed and saved");
 
-        // Parse MCP response
-        let repositories = [];
-        if ((result as any).content && Array.isArray((result as any).content)) {
-          const textContent = (result as any).content.find(
-            (c: any) => c.type === "text"
-          );
-          if (textContent && textContent.text) {
-            try {
-              const searchResult = JSON.parse(textContent.text);
-              // GitHub search returns items array
-              repositories = searchResult.items || searchResult;
-              console.log("[GitHub] Parsed repositories:", repositories.length);
-            } catch (e) {
-              console.error("[GitHub] Failed to parse repositories JSON:", e);
-            }
-          }
-        }
+    // If this research is associated with a task, post results as a comment
+    if (taskId) {
+      await this.postResearchToTracker(
+        workflowId,
+        taskId,
+        repositories,
+        question,
+        results
+      );
+    }
+  }
 
-        return new Response(JSON.stringify(repositories), {
-          headers: { "Content-Type": "application/json" }
-        });
-      } catch (error) {
-        console.error("[GitHub] Failed to fetch repositories:", error);
-        return new Response(JSON.stringify([]), {
-          headers: { "Content-Type": "application/json" }
-        });
-      }
+  /**
+   * Get the commit SHA at the head of a repository's default branch
+   * Returns null when list_commits is unavailable or fails, which disables
+   * caching for the run
+   */
+  private async getRepositoryHead(
+    tools: ToolSet,
+    repository: string
+  ): Promise<string | null> {
+    const listCommitsTool = Object.keys(tools).find((name) =>
+      name.includes("list_commits")
+    );
+    const [owner, repo] = repository.split("/");
+    if (!listCommitsTool || !owner || !repo) {
+      return null;
     }
 
-    // Get all tasks from Linear MCP
-    if (url.pathname.endsWith("/tasks") && request.method === "GET") {
-      try {
-        // Check MCP server state
-        const mcpState = this.getMcpServers();
-        console.log("[Linear] MCP State:", JSON.stringify(mcpState, null, 2));
-
-        // Find Linear server
-        const servers = mcpState.servers || {};
-        const linearServerEntry = Object.entries(servers).find(
-          ([_id, s]: [string, any]) => s.name === "Linear"
-        );
+    try {
+      const result = (await tools[listCommitsTool].execute!(
+        { owner, repo, perPage: 1 },
+        { toolCallId: generateId(), messages: [] }
+      )) as { isError?: boolean; content?: { type: string; text?: string }[] };
+      if (result.isError) {
+        return null;
+      }
 
-        if (!linearServerEntry) {
-          console.log("[Linear] Linear server not connected");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
+      const text = result.content?.find((c) => c.type === "text")?.text;
+      const commits = text ? JSON.parse(text) : [];
+      const sha = Array.isArray(commits) ? commits[0]?.sha : null;
+      return typeof sha === "string" ? sha : null;
+    } catch (error) {
+      console.error(
+        `[Research Workflow] Failed to get HEAD of ${repository}:`,
+        error
+      );
+      return null;
+    }
+  }
 
-        const [linearServerId, linearServer] = linearServerEntry;
-        console.log("[Linear] Server state:", (linearServer as any).state);
+  /**
+   * Find a fresh cached answer for the same question at the same commit
+   * `repository` is the cache key: a repository name, or several joined
+   * with commas
+   */
+  private getCachedResearch(
+    repository: string,
+    question: string,
+    depth: string,
+    headSha: string
+  ) {
+    this.ensureWorkflowsTable();
+    const rows = this.sql<{
+      workflow_id: string;
+      results: string;
+      report: string | null;
+    }>`
+      SELECT workflow_id, results, report FROM research_cache
+      WHERE repository = ${repository.toLowerCase()}
+        AND question_key = ${normalizeResearchQuestion(question)}
+        AND depth = ${depth}
+        AND head_sha = ${headSha}
+        AND created_at > ${Date.now() - RESEARCH_CACHE_MAX_AGE}
+    `;
+    return rows[0] || null;
+  }
 
-        // If server is not ready yet, return empty array
-        if ((linearServer as any).state !== "ready") {
-          console.log(
-            "[Linear] Server not ready yet, state:",
-            (linearServer as any).state
-          );
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
+  /**
+   * Store a completed answer and drop entries too old to be reused
+   */
+  private cacheResearch(
+    workflowId: string,
+    entry: {
+      repository: string;
+      question: string;
+      depth: string;
+      headSha: string;
+      results: string;
+      report: ResearchReport;
+    }
+  ) {
+    this.ensureWorkflowsTable();
+    const now = Date.now();
+    this.sql`
+      INSERT OR REPLACE INTO research_cache (repository, question_key, depth, head_sha, workflow_id, results, report, created_at)
+      VALUES (${entry.repository.toLowerCase()}, ${normalizeResearchQuestion(entry.question)}, ${entry.depth}, ${entry.headSha}, ${workflowId}, ${entry.results}, ${JSON.stringify(entry.report)}, ${now})
+    `;
+    this.sql`
+      DELETE FROM research_cache WHERE created_at <= ${now - RESEARCH_CACHE_MAX_AGE}
+    `;
+  }
 
-        const tools = this.mcp.getAITools();
-        const toolNames = Object.keys(tools);
-        console.log("[Linear] Available MCP tools:", toolNames);
-        console.log("[Linear] Server ID:", linearServerId);
+  /**
+   * Post research results as a comment on an issue tracker task
+   * The comment is recorded as an automatic write; it runs even when the
+   * policy asks first about the tracker's comment tool, and is skipped only
+   * when that tool is disabled
+   */
+  private async postResearchToTracker(
+    workflowId: string,
+    taskId: string,
+    repositories: string[],
+    question: string,
+    results: string
+  ): Promise<void> {
+    console.log(`[Research Workflow] Posting results to task: ${taskId}`);
 
-        // Find the Linear issues list tool - it has format: tool_{serverId}_list_issues
-        const issuesListTool = toolNames.find((name) =>
-          name.includes(`tool_${linearServerId}_list_issues`)
+    try {
+      const tracker = await this.waitForIssueTracker(MCP_READY_TIMEOUT, {
+        source: "research",
+        workflowId,
+        actor: null,
+        decision: "auto"
+      });
+      if (!tracker) {
+        console.error(
+          "[Research Workflow] Issue tracker not ready, skipping comment post"
         );
+        return;
+      }
 
-        if (!issuesListTool) {
-          console.error(
-            "[Linear] No issues list tool found for server",
-            linearServerId
-          );
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
+      // Format the comment
+      const comment = `## 🔬 Research Results
 
-        console.log("[Linear] Using tool:", issuesListTool);
+**${repositories.length === 1 ? "Repository" : "Repositories"}:** ${repositories.join(", ")}
+**Question:** ${question}
 
-        // Get the actual tool object and execute it directly
-        const tool = tools[issuesListTool];
-        if (!tool || !tool.execute) {
-          console.error("[Linear] Tool doesn't have execute function");
-          return new Response(JSON.stringify([]), {
-            headers: { "Content-Type": "application/json" }
-          });
-        }
+---
 
-        // Query Linear MCP for all issues
-        const result = await tool.execute({
-          filter: {
-            state: { type: { in: ["started", "unstarted", "backlog"] } }
-          }
-        });
+${results}
 
-        console.log(
-          "[Linear] Raw MCP response:",
-          JSON.stringify(result, null, 2)
-        );
+---
+*Generated automatically by AI research workflow*`;
 
-        // MCP tools return results in content array format
-        // Parse the actual data from the text content
-        let issues = [];
-        if ((result as any).content && Array.isArray((result as any).content)) {
-          const textContent = (result as any).content.find(
-            (c: any) => c.type === "text"
-          );
-          if (textContent && textContent.text) {
-            try {
-              issues = JSON.parse(textContent.text);
-              console.log("[Linear] Parsed all issues:", issues.length);
-            } catch (e) {
-              console.error("[Linear] Failed to parse issues JSON:", e);
-            }
-          }
-        }
+      await tracker.createComment(taskId, comment);
 
-        // Filter client-side to exclude completed/canceled issues
-        const activeIssues = issues.filter((issue: any) => {
-          const notDone =
-            issue.status !== "Done" && issue.status !== "Canceled";
-          return notDone;
-        });
-        console.log(
-          "[Linear] Filtered to active issues:",
-          activeIssues.length,
-          "from",
-          issues.length
-        );
+      console.log(
+        `[Research Workflow] Successfully posted comment to ${ISSUE_TRACKER_NAMES[tracker.kind]} task ${taskId}`
+      );
+    } catch (error) {
+      console.error("[Research Workflow] Failed to post to the task:", error);
+      // Don't throw - this is a non-critical operation
+    }
+  }
 
-        // Transform Linear issues to our task format
-        const tasks = activeIssues.map((issue: any) => ({
-          id: issue.id,
-          title: issue.title,
-          description: issue.description,
-          url: issue.url,
-          claimedAt: issue.createdAt,
-          researchStatus: "pending" as const
-        }));
+  /**
+   * Ensure audit_log table exists
+   */
+  private ensureAuditLogTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        workflow_id TEXT,
+        tool_call_id TEXT,
+        tool_name TEXT NOT NULL,
+        server TEXT,
+        tool TEXT NOT NULL,
+        decision TEXT NOT NULL,
+        actor TEXT,
+        status TEXT NOT NULL,
+        input TEXT,
+        modified INTEGER NOT NULL DEFAULT 0,
+        original_input TEXT,
+        output TEXT,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        duration_ms INTEGER
+      )
+    `;
 
-        return new Response(JSON.stringify(tasks), {
-          headers: { "Content-Type": "application/json" }
-        });
-      } catch (error) {
-        console.error("[Linear] Failed to fetch tasks:", error);
-        return new Response(
-          JSON.stringify({
-            error:
-              "Failed to fetch tasks from Linear. The Linear MCP server may be unavailable.",
-            details: error instanceof Error ? error.message : String(error)
-          }),
-          {
-            status: 500,
-            headers: { "Content-Type": "application/json" }
-          }
-        );
-      }
+    // Add columns recording arguments the user edited before approving
+    try {
+      this.sql`
+        ALTER TABLE audit_log ADD COLUMN modified INTEGER NOT NULL DEFAULT 0
+      `;
+    } catch {
+      // Column already exists, ignore error
+    }
+    try {
+      this.sql`ALTER TABLE audit_log ADD COLUMN original_input TEXT`;
+    } catch {
+      // Column already exists, ignore error
     }
+    this.sql`
+      CREATE INDEX IF NOT EXISTS idx_audit_log_started_at
+      ON audit_log (started_at)
+    `;
+  }
 
-    // Let base class handle other requests (chat, websocket, etc.)
-    const response = await super.onRequest?.(request);
-    if (!response) {
-      return new Response("Not Found", { status: 404 });
+  private toAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+    return {
+      id: row.id,
+      source: row.source as AuditLogEntry["source"],
+      workflowId: row.workflow_id,
+      toolCallId: row.tool_call_id,
+      toolName: row.tool_name,
+      server: row.server,
+      tool: row.tool,
+      decision: row.decision as AuditLogEntry["decision"],
+      actor: row.actor,
+      status: row.status as AuditStatus,
+      input: row.input === null ? null : JSON.parse(row.input),
+      modified: row.modified === 1,
+      originalInput:
+        row.original_input === null ? null : JSON.parse(row.original_input),
+      output: row.output,
+      error: row.error,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms
+    };
+  }
+
+  /**
+   * Server name and own name of a tool, from its name as offered to the
+   * model
+   */
+  private describeTool(toolName: string): {
+    server: string | null;
+    tool: string;
+  } {
+    for (const server of this.mcp.listServers()) {
+      const prefix = mcpToolPrefix(server.id);
+      if (toolName.startsWith(prefix)) {
+        return { server: server.name, tool: toolName.slice(prefix.length) };
+      }
     }
-    return response;
+    return { server: null, tool: toolName };
   }
 
   /**
-   * Handles incoming chat messages and manages the response stream
+   * Record a tool call in the audit log and drop entries past retention
+   * Never throws, so a failed write can't fail the call it records
    */
-  async onChatMessage(
-    onFinish: StreamTextOnFinishCallback<ToolSet>,
-    _options?: { abortSignal?: AbortSignal }
-  ) {
-    // Collect all tools, including MCP tools
-    // Safely get MCP tools, handling the case where MCP servers are still initializing
-    let mcpTools: Record<string, any> = {};
+  private recordToolCall(call: AuditRecordInput) {
+    const { server, tool } = this.describeTool(call.toolName);
+    const status: AuditStatus =
+      call.decision === "denied"
+        ? "denied"
+        : call.error !== undefined
+          ? "error"
+          : "success";
+    const modified = call.originalInput !== undefined;
     try {
-      const rawMcpTools = this.mcp.getAITools();
-      // Wrap MCP tools to support human-in-the-loop confirmation
-      mcpTools = wrapMcpToolsForConfirmation(rawMcpTools);
+      this.ensureAuditLogTable();
+      this.sql`
+        INSERT INTO audit_log (id, source, workflow_id, tool_call_id, tool_name, server, tool, decision, actor, status, input, modified, original_input, output, error, started_at, duration_ms)
+        VALUES (${generateId()}, ${call.source}, ${call.workflowId}, ${call.toolCallId}, ${call.toolName}, ${server}, ${tool}, ${call.decision}, ${call.actor}, ${status}, ${JSON.stringify(call.input ?? null)}, ${modified ? 1 : 0}, ${modified ? JSON.stringify(call.originalInput ?? null) : null}, ${auditOutput(call.output)}, ${call.error === undefined ? null : redactSecrets(call.error)}, ${call.startedAt}, ${call.durationMs})
+      `;
+      this.sql`
+        DELETE FROM audit_log WHERE started_at < ${Date.now() - AUDIT_LOG_RETENTION}
+      `;
     } catch (error) {
-      console.warn("[Chat] MCP tools not yet available:", error);
+      console.error(`[Audit] Failed to record ${call.toolName}:`, error);
     }
+  }
 
-    const allTools = {
-      ...tools,
-      ...mcpTools
-    };
-
-    const stream = createUIMessageStream({
-      execute: async ({ writer }) => {
-        // Clean up incomplete tool calls to prevent API errors
-        const cleanedMessages = cleanupMessages(this.messages);
-
-        // Process any pending tool calls from previous messages
-        // This handles human-in-the-loop confirmations for tools
-        const processedMessages = await processToolCalls({
-          messages: cleanedMessages,
-          dataStream: writer,
-          tools: allTools,
-          executions
-        });
+  /**
+   * Wrap tools so every call they run on their own is recorded in the
+   * audit log. Calls that need approval are recorded by processToolCalls
+   */
+  private auditTools(
+    toolSet: ToolSet,
+    source: AuditRecordInput["source"],
+    workflowId: string | null = null
+  ): ToolSet {
+    const audited: ToolSet = {};
+    for (const [toolName, tool] of Object.entries(toolSet)) {
+      const execute = tool.execute;
+      if (!execute) {
+        audited[toolName] = tool;
+        continue;
+      }
+      audited[toolName] = {
+        ...tool,
+        execute: (input: unknown, options: ToolCallOptions) =>
+          this.executeAudited(execute, input, options, {
+            source,
+            workflowId,
+            toolName,
+            toolCallId: options?.toolCallId ?? null,
+            decision: "auto",
+            actor: null,
+            input,
+            startedAt: Date.now()
+          })
+      };
+    }
+    return audited;
+  }
 
-        // Extract repository context from the latest message metadata
-        const latestMessage = processedMessages[processedMessages.length - 1];
-        const repositoryContext = latestMessage?.metadata?.repository;
+  /**
+   * Run a tool and record the call with its result or error
+   */
+  private async executeAudited(
+    execute: NonNullable<ToolSet[string]["execute"]>,
+    input: unknown,
+    options: ToolCallOptions,
+    call: Omit<AuditRecordInput, "durationMs">
+  ): Promise<unknown> {
+    try {
+      const output = await execute(input, options);
+      this.recordToolCall({
+        ...call,
+        output,
+        durationMs: Date.now() - call.startedAt
+      });
+      return output;
+    } catch (error) {
+      this.recordToolCall({
+        ...call,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - call.startedAt
+      });
+      throw error;
+    }
+  }
 
-        // Build dynamic system prompt with repository context
-        let systemPrompt = `You are a helpful assistant that can do various tasks...
+  /**
+   * Audit log entries matching a query, newest first
+   */
+  listAuditLog(query: AuditQuery, limit: number, offset = 0): AuditLogEntry[] {
+    this.ensureAuditLogTable();
+    const tool = query.tool?.toLowerCase() ?? null;
+    const server = query.server?.toLowerCase() ?? null;
+    const actor = query.actor?.toLowerCase() ?? null;
+    const source = query.source ?? null;
+    const decision = query.decision ?? null;
+    const status = query.status ?? null;
+    const workflowId = query.workflowId ?? null;
+    const since = query.since ?? null;
+    const until = query.until ?? null;
+    return this.sql<AuditLogRow>`
+      SELECT * FROM audit_log
+      WHERE (${tool} IS NULL OR instr(lower(tool_name), ${tool}) > 0)
+        AND (${server} IS NULL OR lower(server) = ${server})
+        AND (${actor} IS NULL OR instr(lower(actor), ${actor}) > 0)
+        AND (${source} IS NULL OR source = ${source})
+        AND (${decision} IS NULL OR decision = ${decision})
+        AND (${status} IS NULL OR status = ${status})
+        AND (${workflowId} IS NULL OR workflow_id = ${workflowId})
+        AND (${since} IS NULL OR started_at >= ${since})
+        AND (${until} IS NULL OR started_at < ${until})
+      ORDER BY started_at DESC, id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `.map((row) => this.toAuditLogEntry(row));
+  }
 
-${getSchedulePrompt({ date: new Date() })}
+  /**
+   * Ensure tool_policy table exists
+   * It holds at most one row, the edited policy
+   */
+  private ensureToolPolicyTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS tool_policy (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        policy TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+  }
 
-If the user asks to schedule a task, use the schedule tool to schedule the task.`;
+  /**
+   * The edited tool policy, or the default one
+   */
+  getToolPolicy(): ToolPolicy {
+    this.ensureToolPolicyTable();
+    const [row] = this.sql<{ policy: string }>`
+      SELECT policy FROM tool_policy WHERE id = 1
+    `;
+    return row ? JSON.parse(row.policy) : DEFAULT_TOOL_POLICY;
+  }
 
-        if (repositoryContext) {
-          systemPrompt += `
+  /**
+   * Replace the tool policy, or go back to the default one with null
+   */
+  private saveToolPolicy(policy: ToolPolicy | null) {
+    this.ensureToolPolicyTable();
+    if (!policy) {
+      this.sql`DELETE FROM tool_policy`;
+      console.log("[Tool Policy] Reset to the default policy");
+      return;
+    }
+    this.sql`
+      INSERT OR REPLACE INTO tool_policy (id, policy, updated_at)
+      VALUES (1, ${JSON.stringify(policy)}, ${Date.now()})
+    `;
+    console.log(
+      `[Tool Policy] Saved: default ${policy.defaultAction}, ${policy.tools.length} tools, ${policy.patterns.length} patterns`
+    );
+  }
 
-REPOSITORY CONTEXT:
-You are currently working in the repository: ${repositoryContext.full_name}
-Owner: ${repositoryContext.owner}
-Repository: ${repositoryContext.name}
+  /**
+   * Every tool the chat model can be offered, with the action the tool
+   * policy resolves for it
+   */
+  getToolPolicyEntries(policy = this.getToolPolicy()): ToolPolicyEntry[] {
+    const entries: ToolPolicyEntry[] = Object.entries(tools).map(
+      ([name, tool]) => {
+        const action = resolveToolAction(policy, null, name);
+        return {
+          name,
+          server: null,
+          tool: name,
+          description: tool.description,
+          inputSchema: asSchema(tool.inputSchema).jsonSchema as Record<
+            string,
+            unknown
+          >,
+          // Tools without an execute function only run once approved
+          action: action === "auto" && !("execute" in tool) ? "confirm" : action
+        };
+      }
+    );
 
-All code-related questions, file searches, and development tasks should be scoped to this repository.
-When using GitHub MCP tools, always reference this repository context.`;
-        }
+    const serverNames = new Map(
+      this.mcp.listServers().map((server) => [server.id, server.name])
+    );
+    for (const tool of this.mcp.listTools()) {
+      const server = serverNames.get(tool.serverId);
+      if (!server) continue;
+      entries.push({
+        name: `${mcpToolPrefix(tool.serverId)}${tool.name}`,
+        server,
+        tool: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        action: resolveToolAction(policy, server, tool.name)
+      });
+    }
+    return entries;
+  }
 
-        const result = streamText({
-          system: systemPrompt,
+  /**
+   * Tool policy actions by the name tools are offered to the model under
+   */
+  private getToolActions(): Record<string, ToolPolicyAction> {
+    return Object.fromEntries(
+      this.getToolPolicyEntries().map((entry) => [entry.name, entry.action])
+    );
+  }
 
-          messages: convertToModelMessages(processedMessages),
-          model,
-          tools: allTools,
-          // Type boundary: streamText expects specific tool types, but base class uses ToolSet
-          // This is safe because our tools satisfy ToolSet interface (verified by 'satisfies' in tools.ts)
-          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
-            typeof allTools
-          >,
-          stopWhen: stepCountIs(10)
-        });
+  /**
+   * Ensure repository_mappings table exists
+   */
+  private ensureRepositoryMappingsTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS repository_mappings (
+        id TEXT PRIMARY KEY,
+        field TEXT NOT NULL,
+        value TEXT NOT NULL,
+        repositories TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+  }
 
-        writer.merge(result.toUIMessageStream());
-      }
-    });
+  private toRepositoryMapping(row: RepositoryMappingRow): RepositoryMapping {
+    return {
+      id: row.id,
+      field: row.field as RepositoryMapping["field"],
+      value: row.value,
+      repositories: JSON.parse(row.repositories),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
 
-    return createUIMessageStreamResponse({ stream });
+  /**
+   * Repository mappings, by field and value
+   */
+  listRepositoryMappings(): RepositoryMapping[] {
+    this.ensureRepositoryMappingsTable();
+    return this.sql<RepositoryMappingRow>`
+      SELECT * FROM repository_mappings ORDER BY field, value
+    `.map((row) => this.toRepositoryMapping(row));
   }
-  async executeTask(description: string, _task: Schedule<string>) {
-    await this.saveMessages([
-      ...this.messages,
-      {
-        id: generateId(),
-        role: "user",
-        parts: [
-          {
-            type: "text",
-            text: `Running scheduled task: ${description}`
-          }
-        ],
-        metadata: {
-          createdAt: new Date()
-        }
-      }
-    ]);
+
+  private getRepositoryMapping(mappingId: string): RepositoryMapping | null {
+    return (
+      this.listRepositoryMappings().find(
+        (mapping) => mapping.id === mappingId
+      ) ?? null
+    );
   }
 
-  async executeResearch(workflowId: string, _task: Schedule<string>) {
+  /**
+   * Create or replace a repository mapping
+   */
+  private saveRepositoryMapping(
+    mappingId: string,
+    input: RepositoryMappingInput
+  ): RepositoryMapping {
+    this.ensureRepositoryMappingsTable();
+    const now = Date.now();
+    const createdAt = this.getRepositoryMapping(mappingId)?.createdAt ?? now;
+    this.sql`
+      INSERT OR REPLACE INTO repository_mappings (id, field, value, repositories, created_at, updated_at)
+      VALUES (${mappingId}, ${input.field}, ${input.value}, ${JSON.stringify(input.repositories)}, ${createdAt}, ${now})
+    `;
     console.log(
-      `[Research Workflow] Starting research workflow: ${workflowId}`
+      `[Repository Mappings] ${input.field} "${input.value}" -> ${input.repositories.join(", ")}`
     );
+    return this.getRepositoryMapping(mappingId)!;
+  }
 
-    // Get workflow details from storage first (outside try so they're accessible in catch)
-    const workflow = this.getWorkflow(workflowId);
+  /**
+   * Repositories an issue maps to (see resolveMappedRepositories)
+   * Exposed for RPC callers such as TaskManager
+   */
+  getIssueRepositories(issue: TrackerIssue): string[] {
+    return resolveMappedRepositories(issue, this.listRepositoryMappings());
+  }
 
-    if (!workflow) {
-      console.error(`[Research Workflow] Workflow not found: ${workflowId}`);
-      return;
+  /**
+   * Repositories a task's issue maps to, by task ID or identifier
+   */
+  async getTaskRepositories(taskId: string): Promise<string[]> {
+    const issue = await this.getTrackerIssue(taskId);
+    return issue ? this.getIssueRepositories(issue) : [];
+  }
+
+  /**
+   * List repositories for the authenticated GitHub user via GitHub MCP
+   * Returns an empty list if the GitHub server isn't connected or doesn't
+   * become ready in time
+   */
+  async listRepositories(): Promise<GitHubRepository[]> {
+    try {
+      await this.awaitServerReady("GitHub", MCP_ROUTE_READY_TIMEOUT);
+    } catch (error) {
+      if (!(error instanceof McpServerNotReadyError)) throw error;
+      console.log(`[GitHub] ${error.message}`);
+      return [];
     }
 
-    const { repository, question, depth: depthStr, task_id: taskId } = workflow;
-    const depth = depthStr as "quick" | "medium" | "thorough";
+    try {
+      const tools = this.mcp.getAITools();
+      const toolNames = Object.keys(tools);
+      console.log("[GitHub] Available MCP tools:", toolNames);
+
+      // First get authenticated user
+      const getMeTool = toolNames.find((name) => name.includes("get_me"));
+      if (!getMeTool) {
+        console.error("[GitHub] No get_me tool found");
+        return [];
+      }
+
+      console.log("[GitHub] Getting authenticated user...");
+      const meResult = await tools[getMeTool].execute!(
+        {},
+        { toolCallId: generateId(), messages: [] }
+      );
+      console.log("[GitHub] User result:", JSON.stringify(meResult, null, 2));
+
+      // Parse username from result
+      let username: string | null = null;
+      try {
+        const userData = parseToolJson(meResult) as { login?: string } | null;
+        username = userData?.login ?? null;
+        console.log("[GitHub] Authenticated as:", username);
+      } catch (e) {
+        console.error("[GitHub] Failed to parse user data:", e);
+      }
 
-    console.log(
-      `[Research Workflow] Repository: ${repository}, Question: "${question}", Depth: ${depth}${taskId ? `, Task: ${taskId}` : ""}`
-    );
+      if (!username) {
+        console.error("[GitHub] Could not get username");
+        return [];
+      }
 
-    try {
-      // Update status to in_progress
-      this.updateWorkflow(workflowId, { status: "in_progress" });
+      // Now search for user's repositories
+      const searchReposTool = toolNames.find((name) =>
+        name.includes("search_repositories")
+      );
+      if (!searchReposTool) {
+        console.error("[GitHub] No search_repositories tool found");
+        return [];
+      }
 
-      // Wait for MCP servers to be ready
-      // In scheduled tasks, connections are restored in background and may not be ready immediately
-      const MAX_RETRIES = 30;
-      const RETRY_DELAY = 1000; // 1 second
-      let mcpTools = {};
+      console.log("[GitHub] Searching repositories for user:", username);
+      const result = await tools[searchReposTool].execute!(
+        { query: `user:${username}` },
+        { toolCallId: generateId(), messages: [] }
+      );
+      console.log(
+        "[GitHub] Raw MCP response:",
+        JSON.stringify(result, null, 2)
+      );
 
-      // Ensure jsonSchema is loaded (required for getAITools to work)
-      // This is normally done during connect() but not during restoreConnectionsFromStorage()
-      if (typeof (this.mcp as any).ensureJsonSchema === "function") {
-        await (this.mcp as any).ensureJsonSchema();
-        console.log("[Research Workflow] jsonSchema initialized");
+      // Parse MCP response
+      let repositories: GitHubRepository[] = [];
+      try {
+        const searchResult = parseToolJson(result) as
+          | { items?: GitHubRepository[] }
+          | GitHubRepository[]
+          | null;
+        // GitHub search returns items array
+        repositories =
+          (Array.isArray(searchResult) ? searchResult : searchResult?.items) ??
+          [];
+        console.log("[GitHub] Parsed repositories:", repositories.length);
+      } catch (e) {
+        console.error("[GitHub] Failed to parse repositories JSON:", e);
       }
 
-      for (let i = 0; i < MAX_RETRIES; i++) {
-        const mcpState = this.getMcpServers();
-        const servers = (mcpState as any).servers || {};
-        const serverEntries = Object.entries(servers);
-
-        // Check if we have any servers at all
-        if (serverEntries.length === 0) {
-          console.log(
-            `[Research Workflow] No MCP servers registered (attempt ${i + 1}/${MAX_RETRIES})`
-          );
-          if (i < MAX_RETRIES - 1) {
-            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-            continue;
-          }
-          throw new Error(
-            "No MCP servers available. Please connect GitHub MCP server first."
-          );
-        }
+      return repositories;
+    } catch (error) {
+      console.error("[GitHub] Failed to fetch repositories:", error);
+      return [];
+    }
+  }
 
-        // Check server states
-        const serverStates = serverEntries.map(([id, s]: [string, any]) => ({
-          id,
-          name: s.name,
-          state: s.state
-        }));
-        console.log(
-          `[Research Workflow] Server states (attempt ${i + 1}):`,
-          JSON.stringify(serverStates)
-        );
+  /**
+   * Fetch a single issue tracker task by ID or identifier
+   * Waits for the issue tracker's MCP server, since RPC callers (e.g.
+   * TaskManager) may reach this agent before its MCP connections are restored
+   */
+  async getTrackerIssue(taskId: string): Promise<TrackerIssue | null> {
+    const tracker = await this.waitForIssueTracker();
+    if (!tracker) {
+      throw new Error("Issue tracker MCP server not connected or not ready");
+    }
+    return tracker.getIssue(taskId);
+  }
 
-        // Check if GitHub server is ready
-        const githubServer = serverEntries.find(
-          ([_, s]: [string, any]) => s.name === "GitHub"
-        );
-        if (!githubServer) {
-          console.log(
-            `[Research Workflow] GitHub server not found (attempt ${i + 1}/${MAX_RETRIES})`
-          );
-          if (i < MAX_RETRIES - 1) {
-            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-            continue;
-          }
-          throw new Error(
-            "GitHub MCP server not connected. Please connect it first."
-          );
-        }
+  /**
+   * Open issue tracker tasks assigned to the connected user
+   * Used by the TaskManager's assignment poller over RPC
+   */
+  async listAssignedIssues(): Promise<TrackerIssue[]> {
+    const tracker = await this.waitForIssueTracker();
+    if (!tracker) {
+      throw new Error("Issue tracker MCP server not connected or not ready");
+    }
+    const { issues } = await tracker.listIssues({
+      assignedToMe: true,
+      limit: MAX_ISSUE_PAGE_SIZE
+    });
+    return issues;
+  }
 
-        const githubState = (githubServer[1] as any).state;
-        if (githubState !== "ready") {
-          console.log(
-            `[Research Workflow] GitHub server not ready yet: ${githubState} (attempt ${i + 1}/${MAX_RETRIES})`
-          );
-          if (i < MAX_RETRIES - 1) {
-            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-            continue;
-          }
-          throw new Error(
-            `GitHub MCP server not ready after ${MAX_RETRIES} attempts. Current state: ${githubState}`
-          );
-        }
+  /**
+   * Handle events from the Linear and GitHub webhooks
+   * The task snapshot picks up the changed issues, and assignments run the
+   * TaskManager's poller right away when automatic research is on
+   */
+  async handleTrackerEvents(events: TrackerEvent[]) {
+    for (const event of events) {
+      console.log(`[Webhooks] Received ${event.type}`);
+      const message: TrackerEventMessage = {
+        type: TRACKER_EVENT_MESSAGE,
+        event
+      };
+      this.broadcast(JSON.stringify(message));
 
-        // Server is ready, try to get tools
+      if (
+        event.type !== "pull_request.opened" &&
+        event.issue.tracker === this.getIssueTracker()?.tracker.kind
+      ) {
         try {
-          mcpTools = this.mcp.getAITools();
-          const toolCount = Object.keys(mcpTools).length;
-          console.log(
-            `[Research Workflow] Got ${toolCount} MCP tools successfully`
-          );
-          break;
+          await this.refreshSnapshotTask(event.issue.id);
         } catch (error) {
-          console.log(
-            `[Research Workflow] Error getting tools despite ready state: ${error}`
-          );
-          if (i < MAX_RETRIES - 1) {
-            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-            continue;
-          }
-          throw new Error(
-            `Failed to get MCP tools: ${error instanceof Error ? error.message : String(error)}`
+          console.error(
+            `[Webhooks] Failed to refresh ${event.issue.id}:`,
+            error
           );
         }
       }
+    }
 
-      // Filter to only essential GitHub tools to reduce context size
-      // Each tool schema adds tokens - 63 tools is too many
-      const essentialToolPatterns = [
-        "search_code",
-        "get_file_contents",
-        "search_repositories",
-        "list_commits",
-        "get_commit"
-      ];
+    if (
+      this.env.AUTO_RESEARCH_CRON &&
+      events.some((event) => event.type === "issue.assigned")
+    ) {
+      const taskManager = await getAgentByName(this.env.TaskManager, this.name);
+      await taskManager.requestAssignmentPoll();
+    }
+  }
 
-      const filteredMcpTools: Record<string, any> = {};
-      for (const [toolName, tool] of Object.entries(mcpTools)) {
-        if (essentialToolPatterns.some((pattern) => toolName.includes(pattern))) {
-          filteredMcpTools[toolName] = tool;
+  /**
+   * Research workflows run for a task, newest first
+   * Workflows may reference the issue by ID or by identifier (e.g. "ENG-123"
+   * when the chat model started them), so both are matched when the issue
+   * tracker can resolve the task
+   */
+  async getTaskResearch(taskId: string): Promise<TaskResearchRun[]> {
+    this.ensureWorkflowsTable();
+
+    const taskIds = new Set([taskId]);
+    const issueTracker = this.getIssueTracker();
+    if (issueTracker?.state === "ready") {
+      try {
+        const issue = await issueTracker.tracker.getIssue(taskId);
+        if (issue) {
+          taskIds.add(issue.id);
+          if (issue.identifier) taskIds.add(issue.identifier);
         }
+      } catch (error) {
+        console.error("[Issue Tracker] Failed to resolve task:", error);
       }
+    }
 
-      console.log(
-        `[Research Workflow] Using ${Object.keys(filteredMcpTools).length} filtered tools (from ${Object.keys(mcpTools).length} total)`
-      );
+    const runs: TaskResearchRun[] = [];
+    for (const id of taskIds) {
+      const rows = this.sql<{
+        id: string;
+        status: string;
+        repository: string;
+        repositories: string | null;
+        question: string;
+        depth: string;
+        task_id: string;
+        parent_id: string | null;
+        results: string | null;
+        report: string | null;
+        cached: number;
+        error: string | null;
+        created_at: number;
+        updated_at: number;
+      }>`SELECT * FROM research_workflows WHERE task_id = ${id}`;
+
+      for (const row of rows) {
+        runs.push({
+          id: row.id,
+          status: row.status,
+          repositories: workflowRepositories(row),
+          question: row.question,
+          depth: row.depth,
+          taskId: row.task_id,
+          parentId: row.parent_id,
+          results: row.results,
+          report: row.report ? JSON.parse(row.report) : null,
+          cached: row.cached === 1,
+          error: row.error,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at
+        });
+      }
+    }
 
-      // Build the research prompt
-      const researchPrompt = this.buildResearchPrompt(
-        repository,
-        question,
-        depth
-      );
+    return runs.sort((a, b) => b.createdAt - a.createdAt);
+  }
 
-      // Create a standalone message for research (don't include chat history to avoid context limits)
-      const researchMessages = [
-        {
-          id: generateId(),
-          role: "user" as const,
-          parts: [
-            {
-              type: "text" as const,
-              text: researchPrompt
-            }
-          ],
-          metadata: {
-            createdAt: new Date()
-          }
-        }
-      ];
+  /**
+   * Get a research workflow record (exposed for RPC callers such as TaskManager)
+   */
+  async getResearchWorkflow(workflowId: string) {
+    return this.getWorkflow(workflowId);
+  }
 
-      console.log(
-        "[Research Workflow] Running AI completion with MCP tools..."
+  /**
+   * Get the newest retry or re-run started from a workflow, following
+   * retries of retries, or the workflow itself when it has none
+   */
+  async getLatestResearchWorkflow(workflowId: string) {
+    let workflow = this.getWorkflow(workflowId);
+    while (workflow) {
+      const [child] = this.sql<{ id: string }>`
+        SELECT id FROM research_workflows WHERE parent_id = ${workflow.id}
+        ORDER BY created_at DESC, rowid DESC LIMIT 1
+      `;
+      if (!child) break;
+      workflow = this.getWorkflow(child.id);
+    }
+    return workflow;
+  }
+
+  /**
+   * Break a research question into sub-questions about one repository
+   * `otherRepositories` are researched separately, so their parts of the
+   * question are left out
+   * Falls back to the original question if planning fails
+   */
+  private async planResearch(
+    repository: string,
+    question: string,
+    maxSubQuestions: number,
+    abortSignal?: AbortSignal,
+    otherRepositories: string[] = []
+  ): Promise<string[]> {
+    if (maxSubQuestions <= 1) {
+      return [question];
+    }
+
+    try {
+      const { object } = await generateObject({
+        model: getModel(this.env, "research"),
+        schema: z.object({
+          subQuestions: z
+            .array(z.string())
+            .min(1)
+            .max(maxSubQuestions)
+            .describe("Focused sub-questions, in the order to research them")
+        }),
+        system:
+          "You plan code research. Break the question into focused sub-questions that can each be answered by searching and reading code. Do not add sub-questions that are not needed to answer the question.",
+        prompt: `Repository: ${repository}
+${otherRepositories.length > 0 ? `\nResearched separately: ${otherRepositories.join(", ")}. Only plan sub-questions ${repository} can answer.\n` : ""}
+Question: ${question}
+
+Write between 1 and ${maxSubQuestions} sub-questions.`,
+        abortSignal
+      });
+
+      const subQuestions = object.subQuestions
+        .map((q) => q.trim())
+        .filter(Boolean)
+        .slice(0, maxSubQuestions);
+      return subQuestions.length > 0 ? subQuestions : [question];
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
+      console.error(
+        "[Research Workflow] Planning failed, researching question directly:",
+        error
       );
+      return [question];
+    }
+  }
+
+  /**
+   * Research one sub-question with the GitHub MCP tools and record its findings
+   * Files and search matches it returned are added to `sources`
+   * A failed step is recorded and skipped so the other steps can still run
+   */
+  private async executeResearchStep(
+    workflowId: string,
+    stepIndex: number,
+    options: {
+      repository: string;
+      question: string;
+      subQuestion: string;
+      stepCount: number;
+      depth: ResearchDepth;
+      tools: ToolSet;
+      maxSteps: number;
+      sources: ResearchSource[];
+      abortSignal?: AbortSignal;
+    }
+  ): Promise<void> {
+    const { repository, question, subQuestion, stepCount, depth } = options;
+    this.updateWorkflowStep(workflowId, stepIndex, { status: "in_progress" });
+    this.recordResearchEvent(workflowId, {
+      kind: "step",
+      step_index: stepIndex,
+      message: `Step ${stepIndex + 1}/${stepCount}: ${subQuestion}`
+    });
+
+    console.log(
+      `[Research Workflow] Step ${stepIndex + 1}/${stepCount}: "${subQuestion}"`
+    );
+
+    try {
+      const context =
+        stepCount > 1
+          ? `This is step ${stepIndex + 1} of ${stepCount} in answering the overall question: "${question}". Focus only on the sub-question below.\n\n`
+          : "";
 
       const result = streamText({
         system: `You are a research assistant specialized in code exploration.
@@ -1060,178 +3555,156 @@ Use the available GitHub MCP tools to thoroughly research the codebase:
 - Provide detailed findings with code examples
 
 Be thorough and provide a comprehensive answer.`,
-        messages: convertToModelMessages(researchMessages),
-        model,
-        tools: filteredMcpTools,
-        stopWhen: stepCountIs(15)
+        prompt:
+          context + this.buildResearchPrompt(repository, subQuestion, depth),
+        model: getModel(this.env, "research"),
+        tools: options.tools,
+        stopWhen: stepCountIs(options.maxSteps),
+        abortSignal: options.abortSignal,
+        onChunk: ({ chunk }) => {
+          if (chunk.type === "tool-call") {
+            this.recordResearchEvent(workflowId, {
+              kind: "tool-call",
+              step_index: stepIndex,
+              tool_name: chunk.toolName,
+              message: describeResearchToolCall(chunk.toolName, chunk.input)
+            });
+          }
+        }
       });
 
-      // Wait for the stream to complete and get final text
-      const fullResponse = await result.text;
-      const steps = await result.steps;
-
-      console.log(
-        `[Research Workflow] AI completion finished, response length: ${fullResponse.length}, steps: ${steps.length}`
-      );
+      const findings = await result.text;
+      if (!findings.trim()) {
+        throw new Error("Step produced no findings");
+      }
 
-      // Check if we got a meaningful response
-      if (!fullResponse || fullResponse.length < 50) {
-        throw new Error(
-          `Research produced insufficient results (${fullResponse.length} chars). The AI may have encountered an error.`
-        );
+      for (const step of await result.steps) {
+        for (const toolResult of step.toolResults) {
+          addResearchSources(
+            options.sources,
+            extractResearchSources(
+              toolResult.toolName,
+              toolResult.input,
+              toolResult.output
+            ),
+            stepIndex
+          );
+        }
       }
 
-      // Save results to workflow
-      this.updateWorkflow(workflowId, {
+      this.updateWorkflowStep(workflowId, stepIndex, {
         status: "completed",
-        results: fullResponse
+        findings
+      });
+      this.recordResearchEvent(workflowId, {
+        kind: "step",
+        step_index: stepIndex,
+        message: `Finished step ${stepIndex + 1}/${stepCount}`
       });
-
-      // Add result message to chat so user sees it
-      await this.saveMessages([
-        ...this.messages,
-        {
-          id: generateId(),
-          role: "assistant",
-          parts: [
-            {
-              type: "text",
-              text: `## Research Results: ${repository}\n\n**Question:** ${question}\n\n${fullResponse}`
-            }
-          ],
-          metadata: {
-            createdAt: new Date(),
-            workflowId
-          }
-        }
-      ]);
-
-      console.log("[Research Workflow] Research completed and saved");
-
-      // If this research is associated with a Linear task, post results as a comment
-      if (taskId) {
-        await this.postResearchToLinear(taskId, repository, question, fullResponse);
-      }
     } catch (error) {
-      console.error("[Research Workflow] Failed to execute research:", error);
+      // Let cancellation stop the whole workflow instead of skipping a step
+      if (options.abortSignal?.aborted) {
+        this.updateWorkflowStep(workflowId, stepIndex, { status: "cancelled" });
+        throw error;
+      }
 
+      console.error(`[Research Workflow] Step ${stepIndex + 1} failed:`, error);
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-
-      // Save error to workflow
-      this.updateWorkflow(workflowId, {
+      this.updateWorkflowStep(workflowId, stepIndex, {
         status: "failed",
         error: errorMessage
       });
-
-      // Add error message to chat so user sees it
-      await this.saveMessages([
-        ...this.messages,
-        {
-          id: generateId(),
-          role: "assistant",
-          parts: [
-            {
-              type: "text",
-              text: `## Research Failed: ${repository}\n\n**Question:** ${question}\n\n**Error:** ${errorMessage}\n\nPlease try again or check if the GitHub MCP server is properly connected.`
-            }
-          ],
-          metadata: {
-            createdAt: new Date(),
-            workflowId,
-            isError: true
-          }
-        }
-      ]);
+      this.recordResearchEvent(workflowId, {
+        kind: "step",
+        step_index: stepIndex,
+        message: `Step ${stepIndex + 1}/${stepCount} failed: ${errorMessage}`
+      });
     }
   }
 
   /**
-   * Post research results as a comment to a Linear task
+   * Combine step findings into a structured report whose findings cite the
+   * steps and the files they came from
    */
-  private async postResearchToLinear(
-    taskId: string,
-    repository: string,
+  private async synthesizeResearch(
+    repositories: string[],
     question: string,
-    results: string
-  ): Promise<void> {
-    console.log(`[Research Workflow] Posting results to Linear task: ${taskId}`);
-
-    try {
-      // Wait for Linear MCP to be ready
-      const MAX_RETRIES = 15;
-      const RETRY_DELAY = 1000;
-
-      for (let i = 0; i < MAX_RETRIES; i++) {
-        const mcpState = this.getMcpServers();
-        const servers = (mcpState as any).servers || {};
-        const linearServer = Object.entries(servers).find(
-          ([_, s]: [string, any]) => s.name === "Linear"
-        );
-
-        if (linearServer && (linearServer[1] as any).state === "ready") {
-          break;
-        }
-
-        console.log(
-          `[Research Workflow] Waiting for Linear MCP (attempt ${i + 1}/${MAX_RETRIES})`
-        );
-
-        if (i === MAX_RETRIES - 1) {
-          console.error(
-            "[Research Workflow] Linear MCP not ready, skipping comment post"
-          );
-          return;
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
-      }
-
-      // Get MCP tools and find the Linear comment tool
-      const mcpTools = this.mcp.getAITools();
-      const commentToolName = Object.keys(mcpTools).find(
-        (name) => name.includes("add_issue_comment") || name.includes("create_comment")
-      );
-
-      if (!commentToolName) {
-        console.error(
-          "[Research Workflow] Linear comment tool not found, available tools:",
-          Object.keys(mcpTools).filter((n) => n.toLowerCase().includes("linear"))
-        );
-        return;
-      }
-
-      const commentTool = mcpTools[commentToolName];
-      if (!commentTool?.execute) {
-        console.error("[Research Workflow] Linear comment tool has no execute function");
-        return;
-      }
-
-      // Format the comment
-      const comment = `## 🔬 Research Results
-
-**Repository:** ${repository}
-**Question:** ${question}
-
----
-
-${results}
-
----
-*Generated automatically by AI research workflow*`;
+    steps: ResearchStep[],
+    sources: ResearchSource[],
+    headShas: Record<string, string>,
+    abortSignal?: AbortSignal
+  ): Promise<ResearchReport> {
+    const multiRepository = repositories.length > 1;
+    const stepFindings = steps
+      .map(
+        (step) =>
+          `### Step ${step.step_index + 1}${multiRepository ? ` (${step.repository})` : ""}: ${step.question}\n\n${step.findings}`
+      )
+      .join("\n\n---\n\n");
 
-      // Call the Linear MCP tool to post the comment
-      console.log(`[Research Workflow] Calling ${commentToolName} for task ${taskId}`);
-      await commentTool.execute({
-        issueId: taskId,
-        body: comment
-      });
+    const sourceList = sources
+      .map(
+        (source) =>
+          `- ${source.id}: ${source.repository}/${source.path} (${source.content ? "read" : "search match"}, step ${source.stepIndex + 1})`
+      )
+      .join("\n");
+
+    const { object } = await generateObject({
+      model: getModel(this.env, "summarization"),
+      schema: z.object({
+        summary: z
+          .string()
+          .describe(
+            "Markdown answer to the question, citing steps as [Step N]"
+          ),
+        findings: z.array(
+          z.object({
+            title: z.string(),
+            detail: z.string().describe("Markdown explanation of the finding"),
+            steps: z
+              .array(z.number().int())
+              .describe("Step numbers the finding came from"),
+            citations: z.array(
+              z.object({
+                source: z.string().describe("Source ID, e.g. S1"),
+                quote: z
+                  .string()
+                  .nullable()
+                  .describe("Exact lines of code from the source, if any"),
+                startLine: z.number().int().nullable(),
+                endLine: z.number().int().nullable()
+              })
+            )
+          })
+        )
+      }),
+      system: `You are a research assistant that writes the final answer to a code research question about ${multiRepository ? `the repositories ${repositories.map((r) => `"${r}"`).join(", ")}` : `the repository "${repositories[0]}"`}.
+You are given the findings of one or more research steps and the sources (files and code search matches) they used. Use only these findings.
+In the summary, cite the step each claim came from as [Step N]. List the key findings separately.${multiRepository ? "\nEach step researched one repository. Say which repository each claim in the summary comes from, and keep findings about different repositories separate." : ""}
+Cite sources only by the IDs listed. When a finding is based on specific code, quote the exact lines from the findings so they can be located in the file.`,
+      prompt: `Question: ${question}
+
+${stepFindings}
+
+## Sources
+
+${sourceList || "(none)"}`,
+      abortSignal
+    });
 
-      console.log(`[Research Workflow] Successfully posted comment to Linear task ${taskId}`);
-    } catch (error) {
-      console.error("[Research Workflow] Failed to post to Linear:", error);
-      // Don't throw - this is a non-critical operation
+    // Repository of each step, by step index
+    const stepRepositories: string[] = [];
+    for (const step of steps) {
+      stepRepositories[step.step_index] = step.repository ?? repositories[0];
     }
+    return resolveResearchReport(
+      object,
+      sources,
+      steps.length,
+      stepRepositories,
+      headShas
+    );
   }
 
   /**
@@ -1304,13 +3777,16 @@ INSTRUCTIONS:
  * Worker entry point that routes incoming requests to the appropriate handler
  */
 export default {
-  async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext) {
     const url = new URL(request.url);
 
+    // The key is only needed when a role is configured to use OpenAI
+    const missingOpenAIKey =
+      requiresOpenAIKey(env) && !process.env.OPENAI_API_KEY;
+
     if (url.pathname === "/check-open-ai-key") {
-      const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
       return Response.json({
-        success: hasOpenAIKey
+        success: !missingOpenAIKey
       });
     }
 
@@ -1325,10 +3801,55 @@ export default {
       });
     }
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (missingOpenAIKey) {
       console.error(
-        "OPENAI_API_KEY is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret bulk .dev.vars` to upload it to production"
+        "OPENAI_API_KEY is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret put OPENAI_API_KEY` to set it in production"
+      );
+    }
+
+    // Signed Linear and GitHub webhooks, handed to a Chat agent instance
+    const webhookMatch = url.pathname.match(/^\/webhooks\/(linear|github)$/);
+    if (webhookMatch && request.method === "POST") {
+      const events = await readWebhook(
+        request,
+        env,
+        webhookMatch[1] as WebhookSource
+      );
+      if (events instanceof Response) {
+        return events;
+      }
+      // Deliveries aren't tied to a session, so the webhook URL names the
+      // user's agent instance
+      const agent = url.searchParams.get("agent");
+      if (!agent) {
+        return Response.json(
+          { error: "Missing agent query parameter" },
+          { status: 400 }
+        );
+      }
+      // Acknowledge right away; handling the events waits for the issue
+      // tracker, and Linear and GitHub time out slow deliveries
+      ctx.waitUntil(
+        getAgentByName(env.Chat, agent)
+          .then((chat) => chat.handleTrackerEvents(events))
+          .catch((error) => {
+            console.error("[Webhooks] Failed to handle events:", error);
+          })
       );
+      return Response.json({ received: events.length }, { status: 202 });
+    }
+
+    // The signed-in user and the name of their agent instances
+    if (url.pathname === "/auth/session") {
+      return handleSessionRequest(request, env);
+    }
+
+    // Agent routes only serve the signed-in user's own instances
+    if (url.pathname.startsWith("/agents/")) {
+      const denied = await authorizeAgentRequest(request, env);
+      if (denied) {
+        return denied;
+      }
     }
 
     // Try to route to agent first
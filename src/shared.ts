@@ -3,3 +3,489 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+/**
+ * Output the client sends for a tool call the user approved after editing
+ * its arguments; the tool runs with `input` instead of the model's
+ */
+export interface EditedToolApproval {
+  approval: typeof APPROVAL.YES;
+  input: Record<string, unknown>;
+}
+
+// What the user answers to a tool call that needs approval
+export type ToolApproval =
+  | typeof APPROVAL.YES
+  | typeof APPROVAL.NO
+  | EditedToolApproval;
+
+// WebSocket message type for live research workflow progress
+export const RESEARCH_PROGRESS_MESSAGE = "research-progress";
+
+/**
+ * A single progress event of a research workflow, such as a tool call the
+ * research model made or a step starting or finishing
+ */
+export interface ResearchProgressEvent {
+  id: string;
+  workflow_id: string;
+  step_index: number | null;
+  kind: "status" | "step" | "tool-call";
+  tool_name: string | null;
+  message: string;
+  created_at: number;
+}
+
+/**
+ * Broadcast to connected clients whenever a research workflow records progress
+ */
+export interface ResearchProgressMessage {
+  type: typeof RESEARCH_PROGRESS_MESSAGE;
+  workflowId: string;
+  taskId: string | null;
+  repositories: string[];
+  question: string;
+  status: string;
+  event: ResearchProgressEvent;
+}
+
+/**
+ * A code location a research finding is based on
+ * `verified` is true when the cited lines were found in a file the research
+ * actually read
+ */
+export interface ResearchCitation {
+  repository: string;
+  path: string;
+  commitSha: string | null;
+  startLine: number | null;
+  endLine: number | null;
+  // Permalink pinned to the commit; null when no commit is known
+  url: string | null;
+  verified: boolean;
+}
+
+export interface ResearchFinding {
+  title: string;
+  detail: string;
+  // 1-based research plan steps the finding came from
+  steps: number[];
+  citations: ResearchCitation[];
+  // Repositories the finding came from, set when the research spanned
+  // several repositories
+  repositories?: string[];
+}
+
+/**
+ * Structured output of a research workflow
+ */
+export interface ResearchReport {
+  summary: string;
+  findings: ResearchFinding[];
+}
+
+// Repositories a single research workflow may cover; each gets its own
+// research plan and step budget
+export const MAX_RESEARCH_REPOSITORIES = 5;
+
+/**
+ * A research workflow run for a task, as listed by GET /tasks/:id/research
+ */
+export interface TaskResearchRun {
+  id: string;
+  status: string;
+  repositories: string[];
+  question: string;
+  depth: string;
+  taskId: string;
+  // The run this one retried or re-ran
+  parentId: string | null;
+  // Markdown rendering of the report
+  results: string | null;
+  report: ResearchReport | null;
+  // Answered from the research cache
+  cached: boolean;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Issue trackers tasks can come from
+ */
+export type IssueTrackerKind = "linear" | "github";
+
+export const ISSUE_TRACKER_NAMES: Record<IssueTrackerKind, string> = {
+  linear: "Linear",
+  github: "GitHub"
+};
+
+// Workflow states offered when moving a task; Linear states are configured
+// per team, so any other name can be typed in as well
+export const ISSUE_TRACKER_STATES: Record<IssueTrackerKind, string[]> = {
+  linear: ["Backlog", "Todo", "In Progress", "In Review", "Done", "Canceled"],
+  github: ["open", "closed"]
+};
+
+/**
+ * A user of an issue tracker: an assignee, comment author or the connected
+ * user
+ */
+export interface TrackerUser {
+  id: string;
+  name: string;
+  displayName?: string;
+}
+
+/**
+ * An issue normalized from any issue tracker
+ * `id` is what the tracker's adapter accepts back, e.g. a Linear issue ID or
+ * "owner/repo#123" for a GitHub issue
+ */
+export interface TrackerIssue {
+  tracker: IssueTrackerKind;
+  id: string;
+  identifier?: string;
+  title: string;
+  description?: string;
+  url: string;
+  createdAt: string;
+  updatedAt?: string;
+  state?: {
+    name: string;
+    type: string;
+    color?: string;
+  };
+  priority?: number;
+  priorityLabel?: string;
+  // Linear team and project names
+  team?: string;
+  project?: string;
+  labels?: { id: string; name: string; color?: string }[];
+  assignee?: TrackerUser;
+}
+
+export interface TrackerComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  user?: TrackerUser;
+}
+
+// WebSocket message type for issue tracker and GitHub webhook events
+export const TRACKER_EVENT_MESSAGE = "tracker-event";
+
+/**
+ * The issue a webhook event is about, with the ID its tracker's adapter
+ * accepts back (see TrackerIssue)
+ */
+export interface TrackerEventIssue {
+  tracker: IssueTrackerKind;
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string;
+}
+
+/**
+ * A Linear or GitHub webhook delivery, turned into an internal event
+ */
+export type TrackerEvent =
+  | {
+      type: "issue.assigned";
+      issue: TrackerEventIssue;
+      assignee: { id: string; name: string };
+    }
+  | { type: "issue.unassigned"; issue: TrackerEventIssue }
+  | {
+      type: "issue.updated";
+      issue: TrackerEventIssue;
+      // What happened, e.g. "created", "updated", "closed"
+      action: string;
+    }
+  | {
+      type: "issue.commented";
+      issue: TrackerEventIssue;
+      comment: {
+        id: string;
+        body: string;
+        user?: { id: string; name: string };
+      };
+    }
+  | {
+      type: "pull_request.opened";
+      repository: string;
+      number: number;
+      title: string;
+      url: string;
+      author?: string;
+    };
+
+/**
+ * Broadcast to connected clients for every webhook event the agent receives
+ */
+export interface TrackerEventMessage {
+  type: typeof TRACKER_EVENT_MESSAGE;
+  event: TrackerEvent;
+}
+
+/**
+ * A task as listed by GET /tasks and /my-tasks
+ */
+export interface TaskSummary {
+  id: string;
+  identifier?: string;
+  tracker: IssueTrackerKind;
+  title: string;
+  description?: string;
+  url: string;
+  claimedAt: string;
+  updatedAt?: string;
+  state?: { name: string; type: string };
+  assignee?: { id: string; name: string };
+  researchStatus:
+    | "pending"
+    | "in_progress"
+    | "completed"
+    | "failed"
+    | "cancelled";
+}
+
+/**
+ * Tasks the Chat agent has listed or seen change. Tool calls, webhooks and
+ * research runs update single tasks, and the agent sends the changes to
+ * clients so they patch their lists instead of refetching them
+ */
+export interface TaskSnapshot {
+  // Bumped on every change
+  version: number;
+  // The connected user's ID in the issue tracker, once known
+  viewerId: string | null;
+  tasks: Record<string, TaskSummary>;
+  // Tasks that were deleted or can no longer be read, most recent last
+  removed: string[];
+}
+
+// WebSocket message type for changes to the task snapshot
+export const TASK_SNAPSHOT_MESSAGE = "task-snapshot";
+
+/**
+ * Broadcast to connected clients whenever the task snapshot changes, with
+ * only the tasks added, changed or removed by that change
+ */
+export interface TaskSnapshotMessage {
+  type: typeof TASK_SNAPSHOT_MESSAGE;
+  version: number;
+  viewerId: string | null;
+  tasks: TaskSummary[];
+  removed: string[];
+}
+
+/**
+ * Issue fields a repository mapping can match on
+ */
+export type RepositoryMappingField = "team" | "project" | "label";
+
+export const REPOSITORY_MAPPING_FIELDS: RepositoryMappingField[] = [
+  "project",
+  "team",
+  "label"
+];
+
+/**
+ * GitHub repositories that tasks with a given team, project or label belong
+ * to. Research for a task defaults to its mapped repositories
+ */
+export interface RepositoryMapping {
+  id: string;
+  field: RepositoryMappingField;
+  // Team, project or label name, matched case-insensitively
+  value: string;
+  // Full names ("owner/repo")
+  repositories: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A user signed in through Cloudflare Access
+ */
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  // Name of the user's Chat and TaskManager instances
+  agentName: string;
+}
+
+/**
+ * Returned by GET /auth/session; `user` is null in anonymous mode
+ */
+export interface AuthSession {
+  user: AuthUser | null;
+  agentName: string;
+}
+
+/**
+ * Transport used to talk to an MCP server; "auto" tries streamable HTTP and
+ * falls back to SSE
+ */
+export type McpTransportType = "auto" | "streamable-http" | "sse";
+
+export const MCP_TRANSPORT_TYPES: McpTransportType[] = [
+  "auto",
+  "streamable-http",
+  "sse"
+];
+
+/**
+ * How an MCP server authenticates: through its OAuth flow, with a personal
+ * access token sent as a Bearer token, or not at all (custom headers can
+ * still carry credentials)
+ */
+export type McpAuthType = "oauth" | "token" | "none";
+
+export const MCP_AUTH_TYPES: McpAuthType[] = ["oauth", "token", "none"];
+
+/**
+ * A state an MCP server's connection entered, and when
+ */
+export interface McpServerStateChange {
+  state: string;
+  at: number;
+  // Why the connection failed, for "failed"
+  error?: string;
+}
+
+/**
+ * Returned per server by GET /mcp-servers/health
+ */
+export interface McpServerHealth {
+  id: string;
+  name: string;
+  state: string;
+  // When the server entered its current state
+  since: number;
+  // Recent state changes, oldest first
+  history: McpServerStateChange[];
+  // Reconnection attempts since the server was last ready
+  reconnectAttempts: number;
+  // When the next reconnection attempt runs, while the server is failed
+  nextReconnectAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * What happens when the model calls a tool: it runs right away, waits for
+ * the user to approve it, or isn't offered to the model at all
+ */
+export type ToolPolicyAction = "auto" | "confirm" | "disabled";
+
+export const TOOL_POLICY_ACTIONS: ToolPolicyAction[] = [
+  "auto",
+  "confirm",
+  "disabled"
+];
+
+/**
+ * Action for one tool. `server` is the MCP server's name, or null for the
+ * agent's built-in tools
+ */
+export interface ToolPolicyTool {
+  server: string | null;
+  tool: string;
+  action: ToolPolicyAction;
+}
+
+/**
+ * Action for every tool whose name matches `pattern`, where "*" matches any
+ * characters. Matched case-insensitively against the tool's own name
+ */
+export interface ToolPolicyPattern {
+  pattern: string;
+  action: ToolPolicyAction;
+}
+
+/**
+ * How tools are run. A tool's action comes from, in order: its own entry in
+ * `tools`, the first matching pattern, its server's default, `defaultAction`
+ */
+export interface ToolPolicy {
+  defaultAction: ToolPolicyAction;
+  // By MCP server name
+  servers: Record<string, ToolPolicyAction>;
+  tools: ToolPolicyTool[];
+  patterns: ToolPolicyPattern[];
+}
+
+/**
+ * A tool the model can be offered, with the action the policy resolves for
+ * it. `name` is the tool's name in chat messages
+ */
+export interface ToolPolicyEntry {
+  name: string;
+  server: string | null;
+  tool: string;
+  description?: string;
+  // JSON Schema of the tool's arguments
+  inputSchema?: Record<string, unknown>;
+  action: ToolPolicyAction;
+}
+
+/**
+ * Returned by GET /tool-policy
+ */
+export interface ToolPolicyState {
+  policy: ToolPolicy;
+  tools: ToolPolicyEntry[];
+}
+
+/**
+ * Where a tool call came from: the chat model, a research workflow, or a
+ * task page action (claim, unclaim, state change)
+ */
+export type AuditSource = "chat" | "research" | "task";
+
+export const AUDIT_SOURCES: AuditSource[] = ["chat", "research", "task"];
+
+/**
+ * Whether a tool call ran without asking, or the user approved or denied it
+ */
+export type AuditDecision = "auto" | "approved" | "denied";
+
+export const AUDIT_DECISIONS: AuditDecision[] = ["auto", "approved", "denied"];
+
+export type AuditStatus = "success" | "error" | "denied";
+
+export const AUDIT_STATUSES: AuditStatus[] = ["success", "error", "denied"];
+
+/**
+ * One tool call in the audit log, returned by GET /audit
+ */
+export interface AuditLogEntry {
+  id: string;
+  source: AuditSource;
+  // Research workflow that made the call
+  workflowId: string | null;
+  toolCallId: string | null;
+  // The tool's name as offered to the model
+  toolName: string;
+  // MCP server name, or null for built-in tools
+  server: string | null;
+  tool: string;
+  decision: AuditDecision;
+  // Email or ID of the user who approved or denied the call
+  actor: string | null;
+  status: AuditStatus;
+  // The arguments the tool ran with
+  input: unknown;
+  // Whether the user edited the arguments before approving, and what the
+  // model asked for when they did
+  modified: boolean;
+  originalInput: unknown;
+  // What the tool returned as JSON, cut to 10,000 characters
+  output: string | null;
+  error: string | null;
+  startedAt: number;
+  // Null for denied calls
+  durationMs: number | null;
+}
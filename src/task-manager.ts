@@ -1,22 +1,328 @@
-import { Agent } from "agents";
+import { Agent, getAgentByName, type Schedule } from "agents";
+import { generateId } from "ai";
+import {
+  ISSUE_TRACKER_NAMES,
+  MAX_RESEARCH_REPOSITORIES,
+  type TrackerIssue
+} from "./shared";
+
+/**
+ * A research job tracks one issue-to-GitHub research run for a task
+ * The actual exploration happens in a Chat research workflow; the job records
+ * what was inferred from the issue and links to that workflow
+ */
+export interface ResearchJob {
+  id: string;
+  task_id: string;
+  status: "queued" | "researching" | "completed" | "failed" | "cancelled";
+  depth: string;
+  repositories: string[];
+  search_terms: string[];
+  workflow_id: string | null;
+  results: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Research jobs the poller queues per run; the rest wait for the next poll
+const MAX_AUTO_RESEARCH_PER_POLL = 3;
+
+type ResearchJobRow = Omit<ResearchJob, "repositories" | "search_terms"> & {
+  repositories: string;
+  search_terms: string;
+};
+
+// Common words that make poor code search terms
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "can",
+  "for",
+  "from",
+  "has",
+  "have",
+  "how",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "not",
+  "of",
+  "on",
+  "or",
+  "should",
+  "so",
+  "that",
+  "the",
+  "this",
+  "to",
+  "we",
+  "when",
+  "which",
+  "will",
+  "with",
+  "add",
+  "fix",
+  "make",
+  "update",
+  "use",
+  "support",
+  "issue",
+  "bug",
+  "feature"
+]);
+
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Infer candidate repositories from issue text
+ * GitHub URLs are always taken; known repositories (full names from the
+ * GitHub MCP server) are matched by full name or by repo name as a whole word
+ */
+export function inferRepositories(
+  text: string,
+  knownRepositories: string[] = []
+): string[] {
+  const candidates: string[] = [];
+  const add = (repo: string) => {
+    if (!candidates.some((c) => c.toLowerCase() === repo.toLowerCase())) {
+      candidates.push(repo);
+    }
+  };
+
+  for (const match of text.matchAll(
+    /github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?(?=[/\s)#?"'`>]|$)/g
+  )) {
+    add(`${match[1]}/${match[2]}`);
+  }
+
+  const lowerText = text.toLowerCase();
+  for (const fullName of knownRepositories) {
+    const name = fullName.split("/").pop() ?? fullName;
+    const namePattern = new RegExp(
+      `(^|[^\\w/-])${name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^\\w/-])`
+    );
+    if (
+      lowerText.includes(fullName.toLowerCase()) ||
+      namePattern.test(lowerText)
+    ) {
+      add(fullName);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Infer code search terms from an issue's title and description
+ * Prefers code-like tokens (backticked spans, file paths, camelCase and
+ * snake_case identifiers) and falls back to meaningful title words
+ */
+export function inferSearchTerms(title: string, description = ""): string[] {
+  const terms: string[] = [];
+  const add = (term: string) => {
+    const trimmed = term.trim();
+    if (
+      trimmed.length > 2 &&
+      !STOPWORDS.has(trimmed.toLowerCase()) &&
+      !terms.some((t) => t.toLowerCase() === trimmed.toLowerCase())
+    ) {
+      terms.push(trimmed);
+    }
+  };
+
+  const text = `${title}\n${description}`;
+
+  // Backticked code spans
+  for (const match of text.matchAll(/`([^`\n]{2,60})`/g)) {
+    add(match[1]);
+  }
+
+  // File paths and file names
+  for (const match of text.matchAll(/\b[\w-]+(?:\/[\w.-]+)*\.[a-z]{1,5}\b/g)) {
+    if (!match[0].includes("github.com")) {
+      add(match[0]);
+    }
+  }
+
+  // camelCase, PascalCase and snake_case identifiers
+  for (const match of text.matchAll(
+    /\b(?:[a-z]+[A-Z][\w]*|[A-Z][a-z]+[A-Z][\w]*|[a-z]+_[a-z_]+)\b/g
+  )) {
+    add(match[0]);
+  }
+
+  // Remaining meaningful words from the title
+  for (const word of title.split(/[^\w-]+/)) {
+    if (!/^\d+$/.test(word)) {
+      add(word.toLowerCase());
+    }
+  }
+
+  return terms.slice(0, MAX_SEARCH_TERMS);
+}
 
 /**
  * TaskManager Agent
- * Orchestrates AI-powered research for Linear tasks using MCP tools
- * Linear is the source of truth for task state (assignments, status, etc.)
+ * Orchestrates AI-powered research for issue tracker tasks using MCP tools
+ * The issue tracker (Linear or GitHub Issues) is the source of truth for task
+ * state (assignments, status, etc.)
  */
 export class TaskManager extends Agent<Env> {
+  /**
+   * Ensure research_jobs table exists
+   */
+  private ensureJobsTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS research_jobs (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        depth TEXT NOT NULL,
+        repositories TEXT NOT NULL,
+        search_terms TEXT NOT NULL,
+        workflow_id TEXT,
+        results TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+  }
+
+  /**
+   * Ensure auto_research_assignments table exists
+   * One row per task the poller has researched for its current assignment
+   */
+  private ensureAssignmentsTable() {
+    this.sql`
+      CREATE TABLE IF NOT EXISTS auto_research_assignments (
+        task_id TEXT PRIMARY KEY,
+        assignee_id TEXT,
+        job_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `;
+  }
+
+  private toJob(row: ResearchJobRow): ResearchJob {
+    return {
+      ...row,
+      repositories: JSON.parse(row.repositories),
+      search_terms: JSON.parse(row.search_terms)
+    };
+  }
+
+  /**
+   * Get job by ID
+   */
+  private getJob(jobId: string): ResearchJob | null {
+    this.ensureJobsTable();
+    const rows = this.sql<ResearchJobRow>`
+      SELECT * FROM research_jobs WHERE id = ${jobId}
+    `;
+    return rows[0] ? this.toJob(rows[0]) : null;
+  }
+
+  /**
+   * Update job fields
+   */
+  private updateJob(
+    jobId: string,
+    updates: Partial<
+      Pick<
+        ResearchJob,
+        | "status"
+        | "repositories"
+        | "search_terms"
+        | "workflow_id"
+        | "results"
+        | "error"
+      >
+    >
+  ) {
+    const job = this.getJob(jobId);
+    if (!job) return;
+
+    const next = { ...job, ...updates };
+    this.sql`
+      UPDATE research_jobs
+      SET status = ${next.status},
+          repositories = ${JSON.stringify(next.repositories)},
+          search_terms = ${JSON.stringify(next.search_terms)},
+          workflow_id = ${next.workflow_id},
+          results = ${next.results},
+          error = ${next.error},
+          updated_at = ${Date.now()}
+      WHERE id = ${jobId}
+    `;
+  }
+
   /**
    * Handle HTTP requests for task research and operations
    */
   async onRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
 
-    // Trigger research for a Linear task
+    // Trigger research for an issue tracker task
     if (url.pathname.match(/\/research\/(.+)$/) && request.method === "POST") {
-      const taskId = url.pathname.split("/").pop()!;
-      const research = await this.runResearch(taskId);
+      // GitHub issue IDs ("owner/repo#123") arrive URL-encoded
+      const taskId = decodeURIComponent(url.pathname.split("/").pop()!);
+      const { repository, repositories, depth } = (await request
+        .json()
+        .catch(() => ({}))) as {
+        repository?: string;
+        repositories?: string[];
+        depth?: string;
+      };
+      const research = await this.runResearch(taskId, {
+        repositories: repositories ?? (repository ? [repository] : []),
+        depth
+      });
       return new Response(JSON.stringify(research, null, 2), {
+        status: 202,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // Poll a research job
+    const jobMatch = url.pathname.match(/\/research-jobs\/([\w-]+)$/);
+    if (jobMatch && request.method === "GET") {
+      const job = await this.syncJob(jobMatch[1]);
+      if (!job) {
+        return new Response(JSON.stringify({ error: "Job not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return new Response(JSON.stringify(job, null, 2), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    // List research jobs, optionally for a single task
+    if (url.pathname.endsWith("/research-jobs") && request.method === "GET") {
+      this.ensureJobsTable();
+      const taskId = url.searchParams.get("taskId");
+      const rows = taskId
+        ? this.sql<ResearchJobRow>`
+            SELECT * FROM research_jobs WHERE task_id = ${taskId}
+            ORDER BY created_at DESC LIMIT 50
+          `
+        : this.sql<ResearchJobRow>`
+            SELECT * FROM research_jobs ORDER BY created_at DESC LIMIT 50
+          `;
+      return new Response(JSON.stringify(rows.map((row) => this.toJob(row))), {
         headers: { "Content-Type": "application/json" }
       });
     }
@@ -26,22 +332,245 @@ export class TaskManager extends Agent<Env> {
 
   /**
    * Run AI-powered research for a task
-   * Uses Linear MCP to get task details and GitHub MCP to search code
+   * Records a durable job and schedules the orchestration, so callers get a
+   * job ID to poll instead of waiting on the whole research pass
    */
-  private async runResearch(taskId: string) {
-    // TODO: Implement research orchestration
-    // 1. Get task details from Linear MCP
-    // 2. Use Chat agent with MCP tools to:
-    //    - Search codebase for relevant files (GitHub MCP)
-    //    - Find similar Linear issues (Linear MCP)
-    //    - Create a git branch (GitHub MCP)
-    // 3. Return or post results as Linear comment
+  private async runResearch(
+    taskId: string,
+    options: { repositories?: string[]; depth?: string } = {}
+  ): Promise<ResearchJob> {
+    this.ensureJobsTable();
+    const jobId = generateId();
+    const now = Date.now();
+    const depth = options.depth ?? "medium";
+    const repositories = options.repositories ?? [];
 
-    return {
-      taskId,
-      status: "research_pending",
-      message:
-        "Research orchestration not yet implemented. Will use Linear + GitHub MCP tools via Chat agent."
-    };
+    this.sql`
+      INSERT INTO research_jobs (id, task_id, status, depth, repositories, search_terms, created_at, updated_at)
+      VALUES (${jobId}, ${taskId}, ${"queued"}, ${depth}, ${JSON.stringify(repositories)}, ${"[]"}, ${now}, ${now})
+    `;
+
+    this.schedule(0, "executeJob", jobId);
+    console.log(
+      `[TaskManager] Queued research job ${jobId} for task ${taskId}`
+    );
+
+    return this.getJob(jobId)!;
+  }
+
+  /**
+   * Orchestrate research for a queued job
+   * 1. Get task details from the issue tracker (via the Chat agent)
+   * 2. Pick repositories (mapped, or inferred from the issue) and search terms
+   * 3. Start a Chat research workflow, which searches the code with GitHub MCP
+   *    and posts the findings back to the issue as a comment
+   */
+  async executeJob(jobId: string, _task: Schedule<string>) {
+    const job = this.getJob(jobId);
+    if (!job) {
+      console.error(`[TaskManager] Job not found: ${jobId}`);
+      return;
+    }
+
+    try {
+      // The Chat agent with the same name owns the MCP connections
+      const chat = await getAgentByName(this.env.Chat, this.name);
+
+      const issue = await chat.getTrackerIssue(job.task_id);
+      if (!issue) {
+        throw new Error(`Issue ${job.task_id} not found`);
+      }
+
+      const issueText = `${issue.title}\n${issue.description ?? ""}`;
+      const searchTerms = inferSearchTerms(issue.title, issue.description);
+
+      // Explicit repositories win, then the issue's mapped repositories,
+      // then repositories mentioned in the issue. All of them are researched
+      // together, up to MAX_RESEARCH_REPOSITORIES
+      let repositories = job.repositories;
+      if (repositories.length === 0) {
+        repositories = await chat.getIssueRepositories(issue);
+      }
+      if (repositories.length === 0) {
+        const known = (await chat.listRepositories()).map(
+          (repo) => repo.full_name
+        );
+        repositories = inferRepositories(issueText, known);
+      }
+      repositories = repositories.slice(0, MAX_RESEARCH_REPOSITORIES);
+
+      console.log(
+        `[TaskManager] Job ${jobId}: repositories=${JSON.stringify(repositories)}, terms=${JSON.stringify(searchTerms)}`
+      );
+
+      if (repositories.length === 0) {
+        throw new Error(
+          "Could not infer a repository from the issue. Map its team, project or label to a repository in Setup, mention a GitHub repository in the issue or pass one explicitly."
+        );
+      }
+
+      const question = this.buildTaskQuestion(issue, searchTerms);
+      const workflowId = generateId();
+      await chat.createResearchWorkflow(
+        workflowId,
+        repositories,
+        question,
+        job.depth,
+        issue.id
+      );
+
+      this.updateJob(jobId, {
+        status: "researching",
+        repositories,
+        search_terms: searchTerms,
+        workflow_id: workflowId
+      });
+    } catch (error) {
+      console.error(`[TaskManager] Research job ${jobId} failed:`, error);
+      this.updateJob(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Create, update or cancel the assignment poller to match AUTO_RESEARCH_CRON
+   */
+  async syncAutoResearchSchedule() {
+    const cron = this.env.AUTO_RESEARCH_CRON;
+    const schedules = this.getSchedules({ type: "cron" }).filter(
+      (schedule) => schedule.callback === "pollAssignedTasks"
+    );
+
+    let scheduled = false;
+    for (const schedule of schedules) {
+      if (
+        cron &&
+        !scheduled &&
+        schedule.type === "cron" &&
+        schedule.cron === cron
+      ) {
+        scheduled = true;
+      } else {
+        await this.cancelSchedule(schedule.id);
+      }
+    }
+
+    if (cron && !scheduled) {
+      await this.schedule(cron, "pollAssignedTasks");
+      console.log(`[TaskManager] Polling for assigned tasks on "${cron}"`);
+    }
+  }
+
+  /**
+   * Run the assignment poller now instead of waiting for its next cron tick,
+   * e.g. when a webhook reports an assignment
+   */
+  async requestAssignmentPoll() {
+    await this.schedule(0, "pollAssignedTasks");
+  }
+
+  /**
+   * Queue research for tasks newly assigned to the connected user
+   * A task is researched once per assignment: its row is dropped when it is
+   * unassigned or reassigned, so assigning it again triggers a new run
+   */
+  async pollAssignedTasks() {
+    if (!this.env.AUTO_RESEARCH_CRON) {
+      await this.syncAutoResearchSchedule();
+    }
+    this.ensureAssignmentsTable();
+
+    let issues: TrackerIssue[];
+    try {
+      const chat = await getAgentByName(this.env.Chat, this.name);
+      issues = await chat.listAssignedIssues();
+    } catch (error) {
+      console.error("[TaskManager] Failed to list assigned tasks:", error);
+      return;
+    }
+
+    const assigned = new Map(issues.map((issue) => [issue.id, issue]));
+    const seen = this.sql<{ task_id: string; assignee_id: string | null }>`
+      SELECT task_id, assignee_id FROM auto_research_assignments
+    `;
+    const researched = new Set<string>();
+    for (const row of seen) {
+      const issue = assigned.get(row.task_id);
+      if (issue && (issue.assignee?.id ?? null) === row.assignee_id) {
+        researched.add(row.task_id);
+      } else {
+        this.sql`
+          DELETE FROM auto_research_assignments WHERE task_id = ${row.task_id}
+        `;
+      }
+    }
+
+    const pending = issues.filter((issue) => !researched.has(issue.id));
+    for (const issue of pending.slice(0, MAX_AUTO_RESEARCH_PER_POLL)) {
+      const job = await this.runResearch(issue.id);
+      this.sql`
+        INSERT INTO auto_research_assignments (task_id, assignee_id, job_id, created_at)
+        VALUES (${issue.id}, ${issue.assignee?.id ?? null}, ${job.id}, ${Date.now()})
+      `;
+    }
+
+    if (pending.length > 0) {
+      console.log(
+        `[TaskManager] Queued research for ${Math.min(pending.length, MAX_AUTO_RESEARCH_PER_POLL)} of ${pending.length} newly assigned task(s)`
+      );
+    }
+  }
+
+  /**
+   * Get a job, refreshing its status from the linked Chat workflow
+   * Retries and re-runs of that workflow take its place, so the job follows
+   * the newest run
+   */
+  private async syncJob(jobId: string): Promise<ResearchJob | null> {
+    const job = this.getJob(jobId);
+    if (!job?.workflow_id) {
+      return job;
+    }
+
+    const chat = await getAgentByName(this.env.Chat, this.name);
+    const workflow = await chat.getLatestResearchWorkflow(job.workflow_id);
+    if (!workflow) {
+      return job;
+    }
+
+    const status =
+      workflow.status === "completed" ||
+      workflow.status === "failed" ||
+      workflow.status === "cancelled"
+        ? workflow.status
+        : "researching";
+    if (status !== job.status || workflow.id !== job.workflow_id) {
+      this.updateJob(jobId, {
+        status,
+        workflow_id: workflow.id,
+        results: status === "completed" ? workflow.results : null,
+        error: status === "failed" ? workflow.error : null
+      });
+    }
+
+    return this.getJob(jobId);
+  }
+
+  /**
+   * Build the research question for an issue tracker task
+   */
+  private buildTaskQuestion(
+    issue: TrackerIssue,
+    searchTerms: string[]
+  ): string {
+    const description = (issue.description ?? "").slice(0, 2000);
+    const terms =
+      searchTerms.length > 0
+        ? `\n\nSuggested search terms: ${searchTerms.join(", ")}`
+        : "";
+
+    return `Which parts of the codebase are relevant to ${ISSUE_TRACKER_NAMES[issue.tracker]} issue ${issue.identifier ?? issue.id} "${issue.title}", and how should it be implemented?${description ? `\n\nIssue description:\n${description}` : ""}${terms}`;
   }
 }
@@ -0,0 +1,182 @@
+import {
+  TOOL_POLICY_ACTIONS,
+  type ToolPolicy,
+  type ToolPolicyAction,
+  type ToolPolicyPattern,
+  type ToolPolicyTool
+} from "./shared";
+
+/**
+ * Tool policy
+ *
+ * Decides for every tool the chat model can call, built-in or from an MCP
+ * server, whether it runs right away, waits for the user's approval or is
+ * left out. The agent applies it when offering tools to the model and the
+ * chat UI reads it to know which calls to ask about.
+ */
+
+/**
+ * Used until the policy is edited: issue and comment writes need approval,
+ * like getWeatherInformation, which has no execute function of its own
+ */
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  defaultAction: "auto",
+  servers: {},
+  tools: [{ server: null, tool: "getWeatherInformation", action: "confirm" }],
+  patterns: [
+    "update_issue",
+    "create_issue",
+    "delete_issue",
+    "create_comment",
+    "update_comment",
+    "delete_comment",
+    "assign_issue"
+  ].map(
+    (name): ToolPolicyPattern => ({
+      pattern: `*${name}*`,
+      action: "confirm"
+    })
+  )
+};
+
+const MAX_NAME_LENGTH = 200;
+
+function isAction(value: unknown): value is ToolPolicyAction {
+  return TOOL_POLICY_ACTIONS.includes(value as ToolPolicyAction);
+}
+
+function parseName(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const name = value.trim();
+  return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+/**
+ * Validate a policy from a request body
+ * Later entries for the same tool or pattern replace earlier ones. Returns
+ * the cleaned-up policy, or an error message
+ */
+export function parseToolPolicyInput(body: unknown): ToolPolicy | string {
+  const { defaultAction, servers, tools, patterns } = (body ?? {}) as {
+    defaultAction?: unknown;
+    servers?: unknown;
+    tools?: unknown;
+    patterns?: unknown;
+  };
+  const actions = TOOL_POLICY_ACTIONS.join(", ");
+
+  if (!isAction(defaultAction)) {
+    return `defaultAction must be one of ${actions}`;
+  }
+
+  const serverDefaults: Record<string, ToolPolicyAction> = {};
+  if (servers !== undefined) {
+    if (typeof servers !== "object" || servers === null) {
+      return "servers must map server names to actions";
+    }
+    for (const [server, action] of Object.entries(servers)) {
+      const name = parseName(server);
+      if (!name) {
+        return "Server names must not be empty";
+      }
+      if (!isAction(action)) {
+        return `Action for server ${name} must be one of ${actions}`;
+      }
+      serverDefaults[name] = action;
+    }
+  }
+
+  const toolEntries = new Map<string, ToolPolicyTool>();
+  if (tools !== undefined && !Array.isArray(tools)) {
+    return "tools must be a list";
+  }
+  for (const entry of (tools ?? []) as Record<string, unknown>[]) {
+    const tool = parseName(entry?.tool);
+    if (!tool) {
+      return "Every tool needs a name";
+    }
+    const server =
+      entry.server === null || entry.server === undefined
+        ? null
+        : parseName(entry.server);
+    if (server === null && entry.server != null) {
+      return `Invalid server for tool ${tool}`;
+    }
+    if (!isAction(entry.action)) {
+      return `Action for tool ${tool} must be one of ${actions}`;
+    }
+    toolEntries.set(`${server?.toLowerCase() ?? ""}\n${tool.toLowerCase()}`, {
+      server,
+      tool,
+      action: entry.action
+    });
+  }
+
+  const patternEntries = new Map<string, ToolPolicyPattern>();
+  if (patterns !== undefined && !Array.isArray(patterns)) {
+    return "patterns must be a list";
+  }
+  for (const entry of (patterns ?? []) as Record<string, unknown>[]) {
+    const pattern = parseName(entry?.pattern);
+    if (!pattern) {
+      return "Patterns must not be empty";
+    }
+    if (!isAction(entry.action)) {
+      return `Action for pattern ${pattern} must be one of ${actions}`;
+    }
+    patternEntries.set(pattern.toLowerCase(), {
+      pattern,
+      action: entry.action
+    });
+  }
+
+  return {
+    defaultAction,
+    servers: serverDefaults,
+    tools: [...toolEntries.values()],
+    patterns: [...patternEntries.values()]
+  };
+}
+
+/**
+ * Whether a tool name matches a pattern, where "*" matches any characters
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(toolName);
+}
+
+/**
+ * Action for a tool: its own entry, else the first matching pattern, else
+ * its server's default, else the policy's default. `server` is the MCP
+ * server's name, or null for built-in tools
+ */
+export function resolveToolAction(
+  policy: ToolPolicy,
+  server: string | null,
+  tool: string
+): ToolPolicyAction {
+  const serverName = server?.toLowerCase() ?? null;
+  const own = policy.tools.find(
+    (entry) =>
+      (entry.server?.toLowerCase() ?? null) === serverName &&
+      entry.tool.toLowerCase() === tool.toLowerCase()
+  );
+  if (own) return own.action;
+
+  const pattern = policy.patterns.find((entry) =>
+    matchesToolPattern(entry.pattern, tool)
+  );
+  if (pattern) return pattern.action;
+
+  if (server !== null) {
+    const serverDefault = Object.entries(policy.servers).find(
+      ([name]) => name.toLowerCase() === serverName
+    );
+    if (serverDefault) return serverDefault[1];
+  }
+  return policy.defaultAction;
+}
@@ -2,10 +2,11 @@
  * Tool definitions for the AI chat agent
  * Tools can either require human confirmation or execute automatically
  */
-import { tool, type ToolSet, generateId } from "ai";
+import { tool, type ToolCallOptions, type ToolSet, generateId } from "ai";
 import { z } from "zod/v3";
 
 import type { Chat } from "./server";
+import { MAX_RESEARCH_REPOSITORIES, type ToolPolicyAction } from "./shared";
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
 
@@ -111,17 +112,24 @@ const cancelScheduledTask = tool({
 /**
  * Hierarchical repository research tool
  * Runs as an async background workflow - results appear in chat automatically
- * Optionally posts results as a comment to a Linear task
+ * Optionally posts results as a comment to an issue tracker task
  */
 const researchRepository = tool({
   description:
-    "Start a background research workflow to explore a GitHub repository and answer questions about the codebase. IMPORTANT: This runs asynchronously - results will appear in the chat automatically when complete. Do NOT call this tool multiple times for the same question. Only call once per research request. If a repository is selected in the current context, you don't need to specify it. Optionally provide a Linear task ID to post results as a comment on that task.",
+    "Start a background research workflow to explore one or more GitHub repositories and answer questions about the codebase. IMPORTANT: This runs asynchronously - results will appear in the chat automatically when complete. Do NOT call this tool multiple times for the same question. Only call once per research request; to research a feature that spans several repositories, pass them all in one call. If a task ID is given, the repositories default to the ones mapped to the task's team, project or label; otherwise a repository selected in the current context is used. Optionally provide a Linear or GitHub issue ID to post results as a comment on that task.",
   inputSchema: z.object({
     repository: z
       .string()
       .optional()
       .describe(
-        "Full repository name in format 'owner/repo'. Optional if a repository is already selected in the chat context."
+        "Full repository name in format 'owner/repo'. Optional if the task maps to a repository or one is already selected in the chat context."
+      ),
+    repositories: z
+      .array(z.string())
+      .max(MAX_RESEARCH_REPOSITORIES)
+      .optional()
+      .describe(
+        "Several repositories ('owner/repo') to research together, e.g. a frontend, an API and a shared SDK. Each gets its own search budget and the answer says which repository each finding comes from. Use instead of repository."
       ),
     question: z
       .string()
@@ -130,38 +138,67 @@ const researchRepository = tool({
       .enum(["quick", "medium", "thorough"])
       .describe("How thorough the research should be")
       .default("medium"),
-    linearTaskId: z
+    taskId: z
       .string()
       .optional()
       .describe(
-        "Optional Linear task/issue ID (e.g., 'ABC-123' or UUID). If provided, research results will be posted as a comment on that task."
+        "Optional issue ID: a Linear issue ('ABC-123' or UUID) or a GitHub issue ('owner/repo#123'). If provided, research results will be posted as a comment on that issue."
       )
   }),
-  execute: async ({ repository, question, depth, linearTaskId }) => {
+  execute: async ({ repository, repositories, question, depth, taskId }) => {
     const { agent } = getCurrentAgent<Chat>();
 
-    // If no repository specified, try to get it from the chat context
-    let resolvedRepo = repository;
-    if (!resolvedRepo) {
+    let resolvedRepos =
+      repositories && repositories.length > 0
+        ? repositories
+        : repository
+          ? [repository]
+          : [];
+
+    // Research for a task defaults to the repositories its issue maps to
+    if (resolvedRepos.length === 0 && taskId) {
+      try {
+        resolvedRepos = (await agent!.getTaskRepositories(taskId)).slice(
+          0,
+          MAX_RESEARCH_REPOSITORIES
+        );
+      } catch (error) {
+        console.error(
+          `[Research] Failed to resolve repositories for ${taskId}:`,
+          error
+        );
+      }
+      if (resolvedRepos.length > 0) {
+        console.log(
+          `[Research] Using repositories mapped to ${taskId}: ${resolvedRepos.join(", ")}`
+        );
+      }
+    }
+
+    // Otherwise try to get it from the chat context
+    if (resolvedRepos.length === 0) {
       const messages = agent!.messages;
       // Look for repository context in recent messages (check last 10)
       for (let i = messages.length - 1; i >= Math.max(0, messages.length - 10); i--) {
         const msg = messages[i];
         const repoContext = (msg.metadata as any)?.repository;
         if (repoContext?.full_name) {
-          resolvedRepo = repoContext.full_name;
-          console.log(`[Research] Using repository from context: ${resolvedRepo}`);
+          resolvedRepos = [repoContext.full_name];
+          console.log(
+            `[Research] Using repository from context: ${repoContext.full_name}`
+          );
           break;
         }
       }
     }
 
-    if (!resolvedRepo) {
+    if (resolvedRepos.length === 0) {
       return "No repository specified and none found in chat context. Please specify a repository in format 'owner/repo' or select one first.";
     }
+    const repositoryList = resolvedRepos.join(", ");
 
     console.log(
-      `[Research] Creating research workflow for ${resolvedRepo}: "${question}" (depth: ${depth})${linearTaskId ? ` [Linear: ${linearTaskId}]` : ""}`
+      `[Research] Creating research workflow for ${repositoryList}: "${question}" (depth: ${depth})${taskId ? ` [Task: ${taskId}]` : ""}`
     );
 
     try {
@@ -170,19 +207,19 @@ const researchRepository = tool({
       // Create workflow record and schedule it
       await agent!.createResearchWorkflow(
         workflowId,
-        resolvedRepo,
+        resolvedRepos,
         question,
         depth,
-        linearTaskId
+        taskId
       );
 
       console.log(`[Research] Created workflow: ${workflowId}`);
 
       // Return clear message that research is happening in background
-      const linearNote = linearTaskId
-        ? ` Results will also be posted as a comment on Linear task ${linearTaskId}.`
+      const taskNote = taskId
+        ? ` Results will also be posted as a comment on task ${taskId}.`
         : "";
-      return `Research workflow started for ${resolvedRepo}.${linearNote} The results will appear automatically in this chat when complete. No further action needed - please wait for the results to appear.`;
+      return `Research workflow started for ${repositoryList}.${taskNote} The results will appear automatically in this chat when complete. No further action needed - please wait for the results to appear.`;
     } catch (error) {
       console.error("[Research] Failed to create research workflow:", error);
       return `Failed to start research: ${error}. Please check that the GitHub MCP server is connected.`;
@@ -216,58 +253,58 @@ export const executions: Record<string, (input: any, context?: any) => Promise<a
 };
 
 /**
- * MCP tool patterns that require human confirmation before execution
- * These patterns are matched against the tool name (after removing the MCP prefix)
- * e.g., "update_issue" matches "tool_ABC123_update_issue"
+ * GitHub MCP tools research uses to explore code. Each tool schema adds
+ * tokens, so research isn't offered the rest
  */
-export const mcpToolsRequiringConfirmation = [
-  "update_issue",
-  "create_issue",
-  "delete_issue",
-  "create_comment",
-  "update_comment",
-  "delete_comment",
-  "assign_issue"
+export const RESEARCH_TOOL_NAMES = [
+  "search_code",
+  "get_file_contents",
+  "search_repositories",
+  "list_commits",
+  "get_commit"
 ];
 
 /**
- * Check if an MCP tool name matches a confirmation-required pattern
+ * Apply the tool policy's actions, by tool name, to the tools offered to
+ * the model. Disabled tools are left out. Tools that need confirmation lose
+ * their execute function, which moves to the returned executions to run
+ * once the user approves the call
  */
-export function mcpToolRequiresConfirmation(toolName: string): boolean {
-  return mcpToolsRequiringConfirmation.some((pattern) =>
-    toolName.toLowerCase().includes(pattern.toLowerCase())
-  );
-}
-
-/**
- * Wrap MCP tools to support human-in-the-loop confirmation
- * Tools matching confirmation patterns will have their execute function removed
- * and stored separately for later execution after user approval
- */
-export function wrapMcpToolsForConfirmation(
-  mcpTools: Record<string, any>
-): Record<string, any> {
-  const wrappedTools: Record<string, any> = {};
+export function applyToolPolicy(
+  toolSet: ToolSet,
+  actions: Record<string, ToolPolicyAction>
+): {
+  tools: ToolSet;
+  executions: typeof executions;
+} {
+  const policyTools: ToolSet = {};
+  const policyExecutions = { ...executions };
 
-  for (const [toolName, tool] of Object.entries(mcpTools)) {
-    if (mcpToolRequiresConfirmation(toolName)) {
-      // Store the original execute function in executions
-      if (tool.execute) {
-        executions[toolName] = async (input: any) => {
-          return await tool.execute(input);
-        };
-      }
-
-      // Create a new tool without execute (requires confirmation)
-      wrappedTools[toolName] = {
+  for (const [toolName, tool] of Object.entries(toolSet)) {
+    const action = actions[toolName] ?? "auto";
+    if (action === "disabled") {
+      delete policyExecutions[toolName];
+      continue;
+    }
+    const execute = tool.execute;
+    if (action === "confirm" && execute) {
+      policyExecutions[toolName] = async (
+        input: unknown,
+        context?: ToolCallOptions
+      ) => {
+        return await execute(
+          input,
+          context ?? { toolCallId: generateId(), messages: [] }
+        );
+      };
+      policyTools[toolName] = {
         ...tool,
         execute: undefined
       };
     } else {
-      // Tool doesn't require confirmation, keep as-is
-      wrappedTools[toolName] = tool;
+      policyTools[toolName] = tool;
     }
   }
 
-  return wrappedTools;
+  return { tools: policyTools, executions: policyExecutions };
 }
@@ -1,13 +1,14 @@
 // via https://github.com/vercel/ai/blob/main/examples/next-openai/app/api/use-chat-human-in-the-loop/utils.ts
 
 import type {
+  Tool,
   UIMessage,
   UIMessageStreamWriter,
   ToolSet,
   ToolCallOptions
 } from "ai";
-import { convertToModelMessages, isToolUIPart } from "ai";
-import { APPROVAL } from "./shared";
+import { asSchema, convertToModelMessages, isToolUIPart } from "ai";
+import { APPROVAL, type EditedToolApproval } from "./shared";
 
 function isValidToolName<K extends PropertyKey, T extends object>(
   key: K,
@@ -16,15 +17,65 @@ function isValidToolName<K extends PropertyKey, T extends object>(
   return key in obj;
 }
 
+function isEditedToolApproval(output: unknown): output is EditedToolApproval {
+  const approval = output as EditedToolApproval | null;
+  return (
+    typeof approval === "object" &&
+    approval !== null &&
+    approval.approval === APPROVAL.YES &&
+    typeof approval.input === "object" &&
+    approval.input !== null &&
+    !Array.isArray(approval.input)
+  );
+}
+
+/**
+ * Check arguments against a tool's input schema
+ * Returns why they don't match, or null when they do or the schema has no
+ * validator (MCP tools' servers validate their own arguments)
+ */
+async function validateToolInput(
+  tool: Tool | undefined,
+  input: unknown
+): Promise<string | null> {
+  if (!tool?.inputSchema) return null;
+  const result = await asSchema(tool.inputSchema).validate?.(input);
+  return result && !result.success ? result.error.message : null;
+}
+
+/**
+ * The user's answer to a tool call that needed approval, and what the call
+ * returned if it ran
+ */
+export interface ToolCallDecision {
+  toolName: string;
+  toolCallId: string;
+  // The arguments the tool ran with
+  input: unknown;
+  approved: boolean;
+  // Whether the user edited the arguments, and the model's when they did
+  modified: boolean;
+  originalInput?: unknown;
+  output?: unknown;
+  error?: string;
+  startedAt: number;
+  // Null for denied calls, which don't run
+  durationMs: number | null;
+}
+
 /**
  * Processes tool invocations where human input is required, executing tools when authorized.
+ * Approvals with edited arguments (EditedToolApproval) run the tool with them instead.
+ * onDecision is told about every approval and denial, after approved tools ran
  */
 export async function processToolCalls<Tools extends ToolSet>({
+  tools,
   dataStream,
   messages,
-  executions
+  executions,
+  onDecision
 }: {
-  tools: Tools; // used for type inference
+  tools: Tools; // used for type inference and to validate edited arguments
   dataStream: UIMessageStreamWriter;
   messages: UIMessage[];
   executions: Record<
@@ -32,6 +83,7 @@ export async function processToolCalls<Tools extends ToolSet>({
     // biome-ignore lint/suspicious/noExplicitAny: needs a better type
     (args: any, context: ToolCallOptions) => Promise<unknown>
   >;
+  onDecision?: (decision: ToolCallDecision) => void;
 }): Promise<UIMessage[]> {
   // Process all messages, not just the last one
   const processedMessages = await Promise.all(
@@ -54,39 +106,95 @@ export async function processToolCalls<Tools extends ToolSet>({
             return part;
 
           let result: unknown;
+          const editedInput = isEditedToolApproval(part.output)
+            ? part.output.input
+            : undefined;
+          // Arguments the tool runs with
+          const input = editedInput ?? part.input;
 
-          if (part.output === APPROVAL.YES) {
+          if (part.output === APPROVAL.YES || editedInput) {
             // User approved the tool execution
             if (!isValidToolName(toolName, executions)) {
               return part;
             }
 
+            const decision = {
+              toolName,
+              toolCallId: part.toolCallId,
+              input,
+              approved: true,
+              modified: editedInput !== undefined,
+              originalInput: editedInput ? part.input : undefined,
+              startedAt: Date.now()
+            };
             const toolInstance = executions[toolName];
-            if (toolInstance) {
-              result = await toolInstance(part.input, {
-                messages: convertToModelMessages(messages),
-                toolCallId: part.toolCallId
+            const invalid = editedInput
+              ? await validateToolInput(tools[toolName], editedInput)
+              : null;
+            if (invalid) {
+              const error = `Error: Invalid arguments: ${invalid}`;
+              result = error;
+              onDecision?.({ ...decision, error, durationMs: 0 });
+            } else if (toolInstance) {
+              try {
+                result = await toolInstance(input, {
+                  messages: convertToModelMessages(messages),
+                  toolCallId: part.toolCallId
+                });
+              } catch (error) {
+                onDecision?.({
+                  ...decision,
+                  error: error instanceof Error ? error.message : String(error),
+                  durationMs: Date.now() - decision.startedAt
+                });
+                throw error;
+              }
+              onDecision?.({
+                ...decision,
+                output: result,
+                durationMs: Date.now() - decision.startedAt
               });
             } else {
-              result = "Error: No execute function found on tool";
+              const error = "Error: No execute function found on tool";
+              result = error;
+              onDecision?.({ ...decision, error, durationMs: 0 });
             }
           } else if (part.output === APPROVAL.NO) {
             result = "Error: User denied access to tool execution";
+            onDecision?.({
+              toolName,
+              toolCallId: part.toolCallId,
+              input: part.input,
+              approved: false,
+              modified: false,
+              startedAt: Date.now(),
+              durationMs: null
+            });
           } else {
             // If no approval input yet, leave the part as-is for user interaction
             return part;
           }
 
-          // Forward updated tool result to the client.
+          // Forward edited arguments and the updated tool result to the
+          // client; output chunks can't carry arguments
+          if (editedInput) {
+            dataStream.write({
+              type: "tool-input-available",
+              toolCallId: part.toolCallId,
+              toolName,
+              input
+            });
+          }
           dataStream.write({
             type: "tool-output-available",
             toolCallId: part.toolCallId,
             output: result
           });
 
-          // Return updated tool part with the actual result.
+          // Return updated tool part with the actual arguments and result.
           return {
             ...part,
+            input,
             output: result
           };
         })
@@ -0,0 +1,343 @@
+import type { TrackerEvent, TrackerEventIssue } from "./shared";
+
+/**
+ * Inbound Linear and GitHub webhooks
+ *
+ * Deliveries are verified against their HMAC-SHA256 signature, turned into
+ * `TrackerEvent`s and handed to the Chat agent instance named by the
+ * required `agent` query parameter, e.g.
+ * https://<worker>/webhooks/linear?agent=default
+ */
+
+export interface WebhookEnv {
+  LINEAR_WEBHOOK_SECRET?: string;
+  GITHUB_WEBHOOK_SECRET?: string;
+}
+
+export type WebhookSource = "linear" | "github";
+
+// Linear deliveries older than this are rejected as possible replays
+const LINEAR_MAX_AGE_MS = 60 * 1000;
+
+const encoder = new TextEncoder();
+
+// The parts of Linear and GitHub payloads that are read. Deliveries are
+// signed by the sender, so they're trusted to match once they're objects
+
+interface LinearIssueData {
+  id: string;
+  identifier?: string;
+  title?: string;
+  url?: string;
+}
+
+interface LinearWebhookPayload {
+  action: string;
+  type: string;
+  webhookTimestamp?: number;
+  // Previous values of the fields an update changed
+  updatedFrom?: Record<string, unknown>;
+  data?: LinearIssueData & {
+    assigneeId?: string | null;
+    assignee?: { name?: string } | null;
+    // Comments
+    issueId?: string;
+    issue?: Partial<LinearIssueData>;
+    body?: string;
+    user?: { id: string; name: string } | null;
+  };
+}
+
+interface GitHubUser {
+  id: number;
+  login: string;
+}
+
+interface GitHubIssue {
+  number: number;
+  title?: string;
+  html_url?: string;
+  // Set when the issue is a pull request
+  pull_request?: unknown;
+}
+
+interface GitHubWebhookPayload {
+  action: string;
+  repository?: { full_name?: string };
+  issue?: GitHubIssue;
+  assignee?: GitHubUser | null;
+  comment?: { id: number; body?: string; user?: GitHubUser | null };
+  pull_request?: {
+    number: number;
+    title: string;
+    html_url: string;
+    user?: GitHubUser | null;
+  };
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Check a hex HMAC-SHA256 signature of the raw request body
+ * crypto.subtle.verify compares in constant time
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string
+): Promise<boolean> {
+  const expected = hexToBytes(signature);
+  if (!expected) {
+    return false;
+  }
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  return crypto.subtle.verify("HMAC", key, expected, encoder.encode(body));
+}
+
+function webhookSecret(env: WebhookEnv, source: WebhookSource) {
+  return source === "linear"
+    ? env.LINEAR_WEBHOOK_SECRET
+    : env.GITHUB_WEBHOOK_SECRET;
+}
+
+function webhookSignature(request: Request, source: WebhookSource) {
+  if (source === "linear") {
+    return request.headers.get("Linear-Signature");
+  }
+  // GitHub sends "sha256=<hex>"
+  return request.headers.get("X-Hub-Signature-256")?.replace(/^sha256=/, "");
+}
+
+function linearIssue(issue: LinearIssueData): TrackerEventIssue {
+  return {
+    tracker: "linear",
+    id: String(issue.id),
+    identifier: issue.identifier,
+    title: issue.title,
+    url: issue.url
+  };
+}
+
+/**
+ * Turn a Linear webhook payload into events
+ * Issue updates carry the previous values of changed fields in `updatedFrom`
+ */
+export function parseLinearWebhook(body: unknown): TrackerEvent[] {
+  if (typeof body !== "object" || body === null) {
+    return [];
+  }
+  const payload = body as LinearWebhookPayload;
+  const { action, type, data } = payload;
+  if (!data) {
+    return [];
+  }
+
+  if (type === "Issue") {
+    const issue = linearIssue(data);
+    const assigneeChanged =
+      action === "create"
+        ? !!data.assigneeId
+        : action === "update" &&
+          payload.updatedFrom &&
+          "assigneeId" in payload.updatedFrom;
+
+    if (assigneeChanged) {
+      return data.assigneeId
+        ? [
+            {
+              type: "issue.assigned",
+              issue,
+              assignee: {
+                id: String(data.assigneeId),
+                name: data.assignee?.name ?? String(data.assigneeId)
+              }
+            }
+          ]
+        : [{ type: "issue.unassigned", issue }];
+    }
+    const actions: Record<string, string> = {
+      create: "created",
+      update: "updated",
+      remove: "removed"
+    };
+    return [
+      { type: "issue.updated", issue, action: actions[action] ?? action }
+    ];
+  }
+
+  if (type === "Comment" && action === "create" && data.issueId) {
+    return [
+      {
+        type: "issue.commented",
+        issue: linearIssue({ id: data.issueId, ...data.issue }),
+        comment: {
+          id: String(data.id),
+          body: data.body ?? "",
+          user: data.user
+            ? { id: String(data.user.id), name: data.user.name }
+            : undefined
+        }
+      }
+    ];
+  }
+
+  return [];
+}
+
+function githubIssue(
+  repository: string,
+  issue: GitHubIssue
+): TrackerEventIssue {
+  const id = `${repository}#${issue.number}`;
+  return {
+    tracker: "github",
+    id,
+    identifier: id,
+    title: issue.title,
+    url: issue.html_url
+  };
+}
+
+/**
+ * Turn a GitHub webhook payload into events
+ * `event` is the X-GitHub-Event header (issues, issue_comment, pull_request)
+ */
+export function parseGitHubWebhook(
+  event: string,
+  body: unknown
+): TrackerEvent[] {
+  if (typeof body !== "object" || body === null) {
+    return [];
+  }
+  const payload = body as GitHubWebhookPayload;
+  const repository = payload.repository?.full_name;
+  if (!repository) {
+    return [];
+  }
+
+  if (event === "issues" && payload.issue) {
+    const issue = githubIssue(repository, payload.issue);
+    if (payload.action === "assigned" && payload.assignee) {
+      return [
+        {
+          type: "issue.assigned",
+          issue,
+          assignee: {
+            id: String(payload.assignee.id),
+            name: payload.assignee.login
+          }
+        }
+      ];
+    }
+    if (payload.action === "unassigned") {
+      return [{ type: "issue.unassigned", issue }];
+    }
+    return [{ type: "issue.updated", issue, action: payload.action }];
+  }
+
+  // Pull request comments arrive as issue_comment too
+  if (
+    event === "issue_comment" &&
+    payload.action === "created" &&
+    payload.issue &&
+    payload.comment &&
+    !payload.issue.pull_request
+  ) {
+    return [
+      {
+        type: "issue.commented",
+        issue: githubIssue(repository, payload.issue),
+        comment: {
+          id: String(payload.comment.id),
+          body: payload.comment.body ?? "",
+          user: payload.comment.user
+            ? {
+                id: String(payload.comment.user.id),
+                name: payload.comment.user.login
+              }
+            : undefined
+        }
+      }
+    ];
+  }
+
+  if (
+    event === "pull_request" &&
+    payload.action === "opened" &&
+    payload.pull_request
+  ) {
+    return [
+      {
+        type: "pull_request.opened",
+        repository,
+        number: payload.pull_request.number,
+        title: payload.pull_request.title,
+        url: payload.pull_request.html_url,
+        author: payload.pull_request.user?.login
+      }
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Verify and parse a webhook delivery
+ * Returns the events, or an error Response to send back to the sender
+ */
+export async function readWebhook(
+  request: Request,
+  env: WebhookEnv,
+  source: WebhookSource
+): Promise<TrackerEvent[] | Response> {
+  const secret = webhookSecret(env, source);
+  if (!secret) {
+    return Response.json(
+      { error: `The ${source} webhook secret is not configured` },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.text();
+  const signature = webhookSignature(request, source);
+  if (!signature || !(await verifyWebhookSignature(secret, body, signature))) {
+    return Response.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (source === "linear") {
+    const { webhookTimestamp } = (payload ?? {}) as {
+      webhookTimestamp?: number;
+    };
+    const age = Date.now() - Number(webhookTimestamp);
+    if (!(Math.abs(age) <= LINEAR_MAX_AGE_MS)) {
+      return Response.json({ error: "Stale webhook" }, { status: 401 });
+    }
+    return parseLinearWebhook(payload);
+  }
+  return parseGitHubWebhook(
+    request.headers.get("X-GitHub-Event") ?? "",
+    payload
+  );
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  auditOutput,
+  parseAuditQuery,
+  toAuditCsv,
+  toAuditJsonl
+} from "../src/audit-log";
+import type { AuditLogEntry } from "../src/shared";
+
+const entry: AuditLogEntry = {
+  id: "entry-1",
+  source: "chat",
+  workflowId: null,
+  toolCallId: "call-1",
+  toolName: "tool_abc123_create_comment",
+  server: "Linear",
+  tool: "create_comment",
+  decision: "approved",
+  actor: "ada@example.com",
+  status: "success",
+  input: { issueId: "ENG-1", body: 'Says "hi", twice\nand =SUM(A1)' },
+  modified: true,
+  originalInput: { issueId: "ENG-1", body: "Says hi" },
+  output: '{"id":"comment-1"}',
+  error: null,
+  startedAt: Date.UTC(2025, 0, 31, 12),
+  durationMs: 42
+};
+
+describe("parseAuditQuery", () => {
+  it("reads filters and ignores unknown values", () => {
+    expect(
+      parseAuditQuery(
+        new URLSearchParams(
+          "tool=comment&decision=approved&status=maybe&since=2025-01-31&until=1738400000000&limit=5000"
+        )
+      )
+    ).toEqual({
+      tool: "comment",
+      server: undefined,
+      source: undefined,
+      decision: "approved",
+      status: undefined,
+      actor: undefined,
+      workflowId: undefined,
+      since: Date.UTC(2025, 0, 31),
+      until: 1738400000000,
+      cursor: undefined,
+      limit: 1000
+    });
+  });
+});
+
+describe("auditOutput", () => {
+  it("redacts tokens and cuts long results", () => {
+    expect(auditOutput({ token: "Bearer abc.def" })).toBe(
+      '{"token":"Bearer [redacted]"}'
+    );
+    expect(auditOutput("x".repeat(20_000))).toHaveLength(10_001);
+    expect(auditOutput(undefined)).toBeNull();
+  });
+});
+
+describe("toAuditCsv", () => {
+  it("quotes fields and guards against formulas", () => {
+    const [header, row] = toAuditCsv([entry]).split("\r\n");
+    expect(header).toBe(
+      "id,startedAt,durationMs,source,workflowId,toolCallId,toolName,server,tool,decision,actor,status,input,modified,originalInput,output,error"
+    );
+    expect(row).toContain("2025-01-31T12:00:00.000Z,42,chat,,call-1,");
+    expect(row).toContain(
+      ',true,"{""issueId"":""ENG-1"",""body"":""Says hi""}",'
+    );
+    expect(toAuditCsv([entry])).toContain(
+      '"{""issueId"":""ENG-1"",""body"":""Says \\""hi\\"", twice\\nand =SUM(A1)""}"'
+    );
+    expect(
+      toAuditCsv([{ ...entry, error: "=HYPERLINK()", status: "error" }])
+    ).toContain(",'=HYPERLINK()");
+  });
+});
+
+describe("toAuditJsonl", () => {
+  it("writes one entry per line", () => {
+    const lines = toAuditJsonl([entry, { ...entry, id: "entry-2" }])
+      .trim()
+      .split("\n");
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual([
+      "entry-1",
+      "entry-2"
+    ]);
+  });
+});
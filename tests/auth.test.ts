@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from "vitest";
+import { agentNameForUser, authorizeAgentRequest } from "../src/auth";
+
+const ACCESS_ENV = {
+  ACCESS_TEAM_DOMAIN: "acme.cloudflareaccess.com",
+  ACCESS_AUD: "aud-tag"
+};
+
+const encoder = new TextEncoder();
+
+function base64Url(bytes: Uint8Array | string) {
+  const data = typeof bytes === "string" ? encoder.encode(bytes) : bytes;
+  return btoa(String.fromCharCode(...data))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+let keyPair: CryptoKeyPair;
+const originalFetch = globalThis.fetch;
+
+beforeAll(async () => {
+  keyPair = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256"
+    },
+    true,
+    ["sign", "verify"]
+  )) as CryptoKeyPair;
+});
+
+// Serve the public key as the team's Access certs
+beforeEach(async () => {
+  const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (url === "https://acme.cloudflareaccess.com/cdn-cgi/access/certs") {
+      return Response.json({ keys: [{ ...jwk, kid: "key-1" }] });
+    }
+    return originalFetch(input);
+  }) as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+async function accessJwt(claims: Record<string, unknown>) {
+  const header = base64Url(JSON.stringify({ alg: "RS256", kid: "key-1" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iss: "https://acme.cloudflareaccess.com",
+      aud: ["aud-tag"],
+      sub: "user-uuid",
+      email: "ada@example.com",
+      exp: Math.floor(Date.now() / 1000) + 300,
+      ...claims
+    })
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    keyPair.privateKey,
+    encoder.encode(`${header}.${payload}`)
+  );
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
+
+describe("authorizeAgentRequest", () => {
+  it("only lets a signed-in user reach their own agent", async () => {
+    const agentName = await agentNameForUser("user-uuid");
+    const request = async (name: string, claims = {}) =>
+      authorizeAgentRequest(
+        new Request(`http://example.com/agents/chat/${name}/tasks`, {
+          headers: { "Cf-Access-Jwt-Assertion": await accessJwt(claims) }
+        }),
+        ACCESS_ENV
+      );
+
+    expect(await request(agentName)).toBeNull();
+    expect((await request("default"))?.status).toBe(403);
+    expect((await request(agentName, { aud: ["other"] }))?.status).toBe(401);
+    expect((await request(agentName, { exp: 1 }))?.status).toBe(401);
+  });
+
+  it("rejects requests when no authentication is configured", async () => {
+    const response = await authorizeAgentRequest(
+      new Request("http://example.com/agents/chat/default/tasks"),
+      {}
+    );
+    expect(response?.status).toBe(401);
+
+    expect(
+      await authorizeAgentRequest(
+        new Request("http://example.com/agents/chat/default/tasks"),
+        { ALLOW_ANONYMOUS: "true" }
+      )
+    ).toBeNull();
+  });
+});
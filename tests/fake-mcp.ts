@@ -0,0 +1,344 @@
+import { createExecutionContext } from "cloudflare:test";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createMcpHandler, WorkerTransport } from "agents/mcp";
+import { z } from "zod";
+
+/**
+ * In-process fake GitHub and Linear MCP servers
+ *
+ * `installFakeMcpServers` replaces the global fetch so requests to the fake
+ * server URLs are answered by real MCP servers running in the test, while the
+ * agent connects to them exactly as it would to the hosted ones.
+ */
+
+export const GITHUB_MCP_URL = "https://github-mcp.test/mcp";
+export const LINEAR_MCP_URL = "https://linear-mcp.test/mcp";
+
+export interface FakeIssue {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  url: string;
+  status: string;
+  team?: string;
+  // Assignee name and ID, as the Linear MCP server returns them
+  assignee?: string;
+  assigneeId?: string;
+  createdAt: string;
+}
+
+export interface FakeComment {
+  id: string;
+  body: string;
+  createdAt: string;
+  user?: { id: string; name: string };
+}
+
+export interface FakeFile {
+  repository: string;
+  path: string;
+  content: string;
+}
+
+export interface FakeMcpFixtures {
+  login: string;
+  // Commit at the head of every repository's default branch
+  headSha: string;
+  issues: FakeIssue[];
+  comments: Record<string, FakeComment[]>;
+  files: FakeFile[];
+}
+
+export interface FakeMcpServers {
+  // Comments posted through create_comment
+  createdComments: { issueId: string; body: string }[];
+  // Names of every tool called, in order
+  toolCalls: string[];
+  // Authorization header of every request that had one, in order
+  authorizations: string[];
+  restore: () => void;
+}
+
+function json(value: unknown) {
+  return { content: [{ type: "text" as const, text: JSON.stringify(value) }] };
+}
+
+function createGitHubServer(
+  fixtures: FakeMcpFixtures,
+  servers: FakeMcpServers
+) {
+  const server = new McpServer({ name: "fake-github", version: "1.0.0" });
+
+  server.registerTool(
+    "get_me",
+    { description: "Get the authenticated user", inputSchema: {} },
+    async () => {
+      servers.toolCalls.push("get_me");
+      return json({ login: fixtures.login });
+    }
+  );
+
+  server.registerTool(
+    "search_code",
+    {
+      description: "Search code across repositories",
+      inputSchema: { query: z.string() }
+    },
+    async ({ query }) => {
+      servers.toolCalls.push("search_code");
+      const terms = query
+        .split(/\s+/)
+        .filter((term) => !term.includes(":"))
+        .map((term) => term.toLowerCase());
+      const items = fixtures.files
+        .filter((file) =>
+          terms.some((term) => file.content.toLowerCase().includes(term))
+        )
+        .map((file) => ({
+          name: file.path.split("/").pop(),
+          path: file.path,
+          sha: "0000000000000000000000000000000000000000",
+          html_url: `https://github.com/${file.repository}/blob/${fixtures.headSha}/${file.path}`,
+          repository: { full_name: file.repository }
+        }));
+      return json({ total_count: items.length, items });
+    }
+  );
+
+  server.registerTool(
+    "get_file_contents",
+    {
+      description: "Get the contents of a file",
+      inputSchema: {
+        owner: z.string(),
+        repo: z.string(),
+        path: z.string(),
+        ref: z.string().optional()
+      }
+    },
+    async ({ owner, repo, path }) => {
+      servers.toolCalls.push("get_file_contents");
+      const repository = `${owner}/${repo}`;
+      const file = fixtures.files.find(
+        (f) => f.repository === repository && f.path === path
+      );
+      if (!file) {
+        return {
+          isError: true,
+          content: [{ type: "text" as const, text: `Not found: ${path}` }]
+        };
+      }
+      return {
+        content: [
+          { type: "text" as const, text: "successfully downloaded text file" },
+          {
+            type: "resource" as const,
+            resource: {
+              uri: `repo://${repository}/sha/${fixtures.headSha}/contents/${path}`,
+              mimeType: "text/plain",
+              text: file.content
+            }
+          }
+        ]
+      };
+    }
+  );
+
+  server.registerTool(
+    "list_commits",
+    {
+      description: "List commits of a branch",
+      inputSchema: {
+        owner: z.string(),
+        repo: z.string(),
+        perPage: z.number().optional()
+      }
+    },
+    async () => {
+      servers.toolCalls.push("list_commits");
+      return json([{ sha: fixtures.headSha }]);
+    }
+  );
+
+  return server;
+}
+
+function createLinearServer(
+  fixtures: FakeMcpFixtures,
+  servers: FakeMcpServers
+) {
+  const server = new McpServer({ name: "fake-linear", version: "1.0.0" });
+
+  server.registerTool(
+    "list_issues",
+    {
+      description: "List issues",
+      inputSchema: {
+        filter: z.any().optional(),
+        query: z.string().optional(),
+        state: z.string().optional(),
+        assignee: z.string().optional(),
+        limit: z.number().optional(),
+        cursor: z.string().optional()
+      }
+    },
+    async ({ filter, query, state, assignee, limit, cursor }) => {
+      servers.toolCalls.push("list_issues");
+      const id = filter?.id?.eq;
+      if (id) {
+        return json(
+          fixtures.issues.filter((i) => i.id === id || i.identifier === id)
+        );
+      }
+
+      const matches = fixtures.issues.filter(
+        (i) =>
+          (!query ||
+            `${i.title} ${i.description ?? ""}`
+              .toLowerCase()
+              .includes(query.toLowerCase())) &&
+          (!state || i.status.toLowerCase() === state.toLowerCase()) &&
+          (!assignee || (assignee === "me" ? !!i.assigneeId : false))
+      );
+      // Cursors are offsets into the matching issues
+      const start = Number(cursor ?? 0);
+      const end = start + (limit ?? 50);
+      return json({
+        issues: matches.slice(start, end),
+        pageInfo: {
+          hasNextPage: end < matches.length,
+          endCursor: String(end)
+        }
+      });
+    }
+  );
+
+  server.registerTool(
+    "get_user",
+    { description: "Get a user", inputSchema: { query: z.string() } },
+    async ({ query }) => {
+      servers.toolCalls.push("get_user");
+      // Ada is the connected user, as update_issue's "me"
+      return query === "me"
+        ? json({ id: "user-1", name: "Ada" })
+        : {
+            isError: true,
+            content: [
+              { type: "text" as const, text: `User ${query} not found` }
+            ]
+          };
+    }
+  );
+
+  server.registerTool(
+    "list_comments",
+    { description: "List comments", inputSchema: { issueId: z.string() } },
+    async ({ issueId }) => {
+      servers.toolCalls.push("list_comments");
+      // Like Linear, accept the issue's identifier as well as its ID
+      const issue = fixtures.issues.find(
+        (i) => i.id === issueId || i.identifier === issueId
+      );
+      return json(fixtures.comments[issue?.id ?? issueId] ?? []);
+    }
+  );
+
+  server.registerTool(
+    "update_issue",
+    {
+      description: "Update an issue",
+      inputSchema: {
+        id: z.string(),
+        assignee: z.string().nullable().optional(),
+        state: z.string().optional()
+      }
+    },
+    async ({ id, assignee, state }) => {
+      servers.toolCalls.push("update_issue");
+      const issue = fixtures.issues.find(
+        (i) => i.id === id || i.identifier === id
+      );
+      if (!issue) {
+        return {
+          isError: true,
+          content: [{ type: "text" as const, text: `Issue ${id} not found` }]
+        };
+      }
+      if (assignee === "me") {
+        issue.assignee = "Ada";
+        issue.assigneeId = "user-1";
+      } else if (assignee === null) {
+        issue.assignee = undefined;
+        issue.assigneeId = undefined;
+      }
+      if (state) {
+        issue.status = state;
+      }
+      return json(issue);
+    }
+  );
+
+  server.registerTool(
+    "create_comment",
+    {
+      description: "Create a comment on an issue",
+      inputSchema: { issueId: z.string(), body: z.string() }
+    },
+    async ({ issueId, body }) => {
+      servers.toolCalls.push("create_comment");
+      servers.createdComments.push({ issueId, body });
+      return json({ id: `comment-${servers.createdComments.length}` });
+    }
+  );
+
+  return server;
+}
+
+/**
+ * Start fake GitHub and Linear MCP servers and route their URLs to them
+ * Call `restore()` when done to put the real fetch back
+ */
+export function installFakeMcpServers(
+  initialFixtures: FakeMcpFixtures
+): FakeMcpServers {
+  // Tools like update_issue change the fixtures, so each install gets a copy
+  const fixtures = structuredClone(initialFixtures);
+  const originalFetch = globalThis.fetch;
+  const servers: FakeMcpServers = {
+    createdComments: [],
+    toolCalls: [],
+    authorizations: [],
+    restore: () => {
+      globalThis.fetch = originalFetch;
+    }
+  };
+
+  const handlers = new Map([
+    [
+      new URL(GITHUB_MCP_URL).host,
+      createMcpHandler(createGitHubServer(fixtures, servers), {
+        transport: new WorkerTransport({ enableJsonResponse: true })
+      })
+    ],
+    [
+      new URL(LINEAR_MCP_URL).host,
+      createMcpHandler(createLinearServer(fixtures, servers), {
+        transport: new WorkerTransport({ enableJsonResponse: true })
+      })
+    ]
+  ]);
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const handler = handlers.get(new URL(request.url).host);
+    if (handler) {
+      const authorization = request.headers.get("Authorization");
+      if (authorization) servers.authorizations.push(authorization);
+      return handler(request, {}, createExecutionContext());
+    }
+    return originalFetch(input, init);
+  }) as typeof fetch;
+
+  return servers;
+}
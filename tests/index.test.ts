@@ -12,15 +12,24 @@ declare module "cloudflare:test" {
   interface ProvidedEnv extends Env {}
 }
 
+async function fetchWorker(path: string) {
+  const request = new Request(`http://example.com${path}`);
+  // Create an empty context to pass to `worker.fetch()`
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, env, ctx);
+  // Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
 describe("Chat worker", () => {
-  it("responds with Not found", async () => {
-    const request = new Request("http://example.com");
-    // Create an empty context to pass to `worker.fetch()`
-    const ctx = createExecutionContext();
-    const response = await worker.fetch(request, env, ctx);
-    // Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-    await waitOnExecutionContext(ctx);
-    expect(await response.text()).toBe("Not found");
-    expect(response.status).toBe(404);
+  it("does not require an OpenAI key when no role uses OpenAI", async () => {
+    const response = await fetchWorker("/check-open-ai-key");
+    expect(await response.json()).toEqual({ success: true });
+  });
+
+  it("serves static assets for non-agent routes", async () => {
+    const response = await fetchWorker("/favicon.ico");
+    expect(response.status).toBe(200);
   });
 });
@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import {
+  createGitHubIssueTracker,
+  createLinearIssueTracker,
+  type IssueQuery,
+  type McpToolbox
+} from "../src/issue-trackers";
+
+/**
+ * A toolbox answering each tool with fixed JSON and recording the calls
+ */
+function createToolbox(responses: Record<string, unknown>) {
+  const calls: { toolName: string; args: Record<string, unknown> }[] = [];
+  const toolbox: McpToolbox = {
+    has: (toolName) => toolName in responses,
+    call: async (toolName, args) => {
+      calls.push({ toolName, args });
+      if (!(toolName in responses)) {
+        throw new Error(`${toolName} tool not available`);
+      }
+      return {
+        content: [{ type: "text", text: JSON.stringify(responses[toolName]) }]
+      };
+    }
+  };
+  return { toolbox, calls };
+}
+
+const GITHUB_ISSUE = {
+  number: 42,
+  title: "Login ignores returnTo",
+  body: "Users land on the home page after login",
+  state: "open",
+  html_url: "https://github.com/acme/web/issues/42",
+  repository_url: "https://api.github.com/repos/acme/web",
+  created_at: "2025-01-01T00:00:00Z",
+  labels: [{ id: 7, name: "bug", color: "d73a4a" }],
+  assignee: { id: 1, login: "octocat" }
+};
+
+describe("GitHub issue tracker", () => {
+  it("searches open issues in the configured repositories", async () => {
+    const { toolbox, calls } = createToolbox({
+      search_issues: {
+        items: [GITHUB_ISSUE, { ...GITHUB_ISSUE, number: 43, pull_request: {} }]
+      }
+    });
+    const tracker = createGitHubIssueTracker(toolbox, {
+      repositories: ["acme/web"]
+    });
+
+    const { issues, nextCursor } = await tracker.listIssues({
+      assignedToMe: true,
+      label: "good first issue",
+      search: "login"
+    });
+
+    expect(calls[0].args).toEqual({
+      query:
+        'is:issue is:open assignee:@me label:"good first issue" repo:acme/web login',
+      perPage: 50,
+      page: 1
+    });
+    expect(nextCursor).toBeNull();
+    expect(issues).toEqual([
+      {
+        tracker: "github",
+        id: "acme/web#42",
+        identifier: "acme/web#42",
+        title: "Login ignores returnTo",
+        description: "Users land on the home page after login",
+        url: "https://github.com/acme/web/issues/42",
+        createdAt: "2025-01-01T00:00:00Z",
+        updatedAt: undefined,
+        state: { name: "Open", type: "open", color: "#1a7f37" },
+        labels: [{ id: "7", name: "bug", color: "#d73a4a" }],
+        assignee: { id: "1", name: "octocat" }
+      }
+    ]);
+  });
+
+  it("reads issues and comments with issue_read when get_issue is missing", async () => {
+    const { toolbox, calls } = createToolbox({
+      issue_read: [
+        {
+          id: 9,
+          body: "Reproduced on staging",
+          created_at: "2025-01-02T00:00:00Z",
+          user: { id: 2, login: "hubot" }
+        }
+      ],
+      add_issue_comment: { id: 10 }
+    });
+    const tracker = createGitHubIssueTracker(toolbox);
+
+    const comments = await tracker.listComments("acme/web#42");
+    await tracker.createComment("acme/web#42", "Findings");
+
+    expect(calls).toEqual([
+      {
+        toolName: "issue_read",
+        args: {
+          method: "get_comments",
+          owner: "acme",
+          repo: "web",
+          issue_number: 42
+        }
+      },
+      {
+        toolName: "add_issue_comment",
+        args: { owner: "acme", repo: "web", issue_number: 42, body: "Findings" }
+      }
+    ]);
+    expect(comments[0]).toMatchObject({
+      id: "9",
+      body: "Reproduced on staging",
+      user: { id: "2", name: "hubot" }
+    });
+    expect(await tracker.getIssue("not-an-issue")).toBeNull();
+  });
+
+  it("claims an issue without dropping its other assignees", async () => {
+    const { toolbox, calls } = createToolbox({
+      get_me: { login: "octocat" },
+      get_issue: { ...GITHUB_ISSUE, assignees: [{ login: "hubot" }] },
+      update_issue: GITHUB_ISSUE
+    });
+    const tracker = createGitHubIssueTracker(toolbox);
+
+    await tracker.claimIssue("acme/web#42");
+
+    expect(calls[calls.length - 1]).toEqual({
+      toolName: "update_issue",
+      args: {
+        owner: "acme",
+        repo: "web",
+        issue_number: 42,
+        assignees: ["hubot", "octocat"]
+      }
+    });
+    await expect(
+      tracker.transitionIssue("acme/web#42", "In Review")
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe("Linear issue tracker", () => {
+  it("drops finished issues and flattens Linear MCP fields", async () => {
+    const { toolbox } = createToolbox({
+      list_issues: [
+        {
+          id: "issue-1",
+          identifier: "ENG-1",
+          title: "Login ignores returnTo",
+          url: "https://linear.app/acme/issue/ENG-1",
+          createdAt: "2025-01-01T00:00:00.000Z",
+          status: "Todo",
+          priority: { value: 2, name: "High" },
+          labels: ["Bug"],
+          assignee: "Ada",
+          assigneeId: "user-1"
+        },
+        { id: "issue-2", title: "Shipped", status: "Done" }
+      ]
+    });
+
+    const { issues } = await createLinearIssueTracker(toolbox).listIssues();
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      tracker: "linear",
+      id: "issue-1",
+      state: { name: "Todo" },
+      priority: 2,
+      priorityLabel: "High",
+      labels: [{ id: "Bug", name: "Bug" }],
+      assignee: { id: "user-1", name: "Ada" }
+    });
+  });
+
+  it("filters by label, priority and the connected user strictly", async () => {
+    const { toolbox } = createToolbox({
+      list_issues: [
+        {
+          id: "issue-1",
+          status: "Todo",
+          labels: ["Bug"],
+          priority: 2,
+          assignee: "Ada",
+          assigneeId: "user-1"
+        },
+        {
+          id: "issue-2",
+          status: "Todo",
+          assignee: "Ada",
+          assigneeId: "user-1"
+        },
+        {
+          id: "issue-3",
+          status: "Todo",
+          labels: ["Bug"],
+          priority: 2,
+          assignee: "Grace",
+          assigneeId: "user-2"
+        }
+      ],
+      get_user: { id: "user-1", name: "Ada" }
+    });
+    const tracker = createLinearIssueTracker(toolbox);
+    const ids = async (query: IssueQuery) =>
+      (await tracker.listIssues(query)).issues.map((issue) => issue.id);
+
+    expect(await ids({ label: "bug" })).toEqual(["issue-1", "issue-3"]);
+    expect(await ids({ priority: 2 })).toEqual(["issue-1", "issue-3"]);
+    expect(await ids({ assignedToMe: true })).toEqual(["issue-1", "issue-2"]);
+  });
+
+  it("reads further pages to fill a filtered page", async () => {
+    const { toolbox, calls } = createToolbox({
+      list_issues: {
+        issues: [
+          { id: "issue-1", status: "Todo" },
+          { id: "issue-2", status: "Done" }
+        ],
+        pageInfo: { hasNextPage: true, endCursor: "next" }
+      }
+    });
+
+    const page = await createLinearIssueTracker(toolbox).listIssues({
+      limit: 2
+    });
+
+    expect(page.issues.map((issue) => issue.id)).toEqual([
+      "issue-1",
+      "issue-1"
+    ]);
+    expect(page.nextCursor).toBe("next");
+    expect(calls.map((call) => call.args)).toEqual([
+      { limit: 2 },
+      { limit: 1, cursor: "next" }
+    ]);
+  });
+
+  it("only unclaims issues assigned to the connected user", async () => {
+    const { toolbox, calls } = createToolbox({
+      list_issues: [
+        {
+          id: "issue-1",
+          identifier: "ENG-1",
+          assignee: "Grace",
+          assigneeId: "user-2"
+        }
+      ],
+      get_user: { id: "user-1", name: "Ada" },
+      update_issue: {}
+    });
+    const tracker = createLinearIssueTracker(toolbox);
+
+    expect(await tracker.getViewer()).toEqual({
+      id: "user-1",
+      name: "Ada",
+      displayName: undefined
+    });
+    await expect(tracker.unclaimIssue("ENG-1")).rejects.toMatchObject({
+      status: 409
+    });
+    expect(calls.map((call) => call.toolName)).not.toContain("update_issue");
+  });
+});
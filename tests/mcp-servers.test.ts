@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { parseMcpServerInput } from "../src/mcp-servers";
+
+describe("parseMcpServerInput", () => {
+  it("defaults to OAuth over auto-detected transport", () => {
+    expect(
+      parseMcpServerInput({
+        name: " Sentry ",
+        serverUrl: "https://mcp.sentry.dev/mcp"
+      })
+    ).toEqual({
+      name: "Sentry",
+      serverUrl: "https://mcp.sentry.dev/mcp",
+      transport: "auto",
+      authType: "oauth",
+      authToken: undefined,
+      headers: {}
+    });
+  });
+
+  it("uses token auth when a token is given", () => {
+    expect(
+      parseMcpServerInput({
+        name: "GitHub",
+        serverUrl: "https://api.githubcopilot.com/mcp/",
+        authToken: " ghp_token "
+      })
+    ).toMatchObject({ authType: "token", authToken: "ghp_token" });
+  });
+
+  it("validates the transport, auth type and headers", () => {
+    const server = {
+      name: "Docs",
+      serverUrl: "https://docs.example.com/sse",
+      transport: "sse"
+    };
+    expect(
+      parseMcpServerInput({ ...server, headers: { " X-Api-Key ": "secret" } })
+    ).toMatchObject({ transport: "sse", headers: { "X-Api-Key": "secret" } });
+    expect(parseMcpServerInput({ ...server, serverUrl: "ftp://docs" })).toBe(
+      "serverUrl must be an http or https URL"
+    );
+    expect(parseMcpServerInput({ ...server, transport: "websocket" })).toBe(
+      "transport must be one of auto, streamable-http, sse"
+    );
+    expect(parseMcpServerInput({ ...server, authType: "token" })).toBe(
+      'authToken is required when authType is "token"'
+    );
+    expect(
+      parseMcpServerInput({ ...server, headers: { "Bad Header": "value" } })
+    ).toBe('Invalid header name "Bad Header"');
+    expect(
+      parseMcpServerInput({ ...server, headers: { Authorization: "Bearer x" } })
+    ).toBe(
+      'The Authorization header is set by authType "oauth"; use authType "none" to send your own'
+    );
+    expect(
+      parseMcpServerInput({
+        ...server,
+        authType: "none",
+        headers: { Authorization: "Bearer x" }
+      })
+    ).toMatchObject({ headers: { Authorization: "Bearer x" } });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { MCPClientManager } from "agents/mcp/client";
+import { McpServerNotReadyError, McpSupervisor } from "../src/mcp-supervisor";
+
+/**
+ * Just enough of MCPClientManager for the supervisor: one registered server
+ * whose connection attempts follow `results`
+ */
+function fakeManager(results: ("failed" | "connected")[]) {
+  const listeners: (() => void)[] = [];
+  const connection = {
+    connectionState: "failed",
+    url: new URL("https://mcp.example.com/mcp")
+  };
+  const manager = {
+    mcpConnections: { "server-1": connection },
+    listServers: () => [{ id: "server-1", name: "GitHub", auth_url: null }],
+    onServerStateChanged: (listener: () => void) => listeners.push(listener),
+    onObservabilityEvent: () => {},
+    connectToServer: vi.fn(async () => {
+      const state = results.shift() ?? "failed";
+      connection.connectionState = state;
+      return state === "failed"
+        ? { state, error: "Bearer secret rejected" }
+        : { state };
+    }),
+    discoverIfConnected: vi.fn(async () => {
+      connection.connectionState = "ready";
+      for (const listener of listeners) listener();
+    })
+  };
+  return { manager, connection };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Scheduler that records the reconnects the supervisor asks for, which the
+ * tests then run themselves
+ */
+function fakeScheduler() {
+  const scheduled: [string, number][] = [];
+  const schedule = async (serverId: string, delaySeconds: number) => {
+    scheduled.push([serverId, delaySeconds]);
+    return Date.now() + delaySeconds * 1000;
+  };
+  return { scheduled, schedule };
+}
+
+describe("McpSupervisor", () => {
+  it("reconnects failed servers with exponential backoff", async () => {
+    vi.useFakeTimers();
+    const { manager } = fakeManager(["failed", "connected"]);
+    const { scheduled, schedule } = fakeScheduler();
+    const supervisor = new McpSupervisor(
+      manager as unknown as MCPClientManager,
+      schedule
+    );
+
+    supervisor.sample();
+    supervisor.sample();
+    expect(scheduled).toEqual([["server-1", 1]]);
+    expect(supervisor.health()[0]).toMatchObject({
+      state: "failed",
+      reconnectAttempts: 0,
+      nextReconnectAt: Date.now() + 1000
+    });
+
+    await supervisor.reconnect("server-1");
+    expect(manager.connectToServer).toHaveBeenCalledTimes(1);
+    // The second attempt waits twice as long
+    expect(scheduled).toEqual([
+      ["server-1", 1],
+      ["server-1", 2]
+    ]);
+    expect(supervisor.health()[0]).toMatchObject({
+      state: "failed",
+      reconnectAttempts: 1,
+      nextReconnectAt: Date.now() + 2000,
+      lastError: "Bearer [redacted] rejected"
+    });
+
+    await supervisor.reconnect("server-1");
+    expect(manager.connectToServer).toHaveBeenCalledTimes(2);
+    const [health] = supervisor.health();
+    expect(health).toMatchObject({
+      state: "ready",
+      reconnectAttempts: 0,
+      nextReconnectAt: null,
+      lastError: null
+    });
+    expect(health.history.map((change) => change.state)).toEqual([
+      "failed",
+      "ready"
+    ]);
+
+    // A reconnect scheduled before the server recovered does nothing
+    await supervisor.reconnect("server-1");
+    expect(manager.connectToServer).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs reconnects scheduled before the agent was evicted", async () => {
+    const { manager } = fakeManager(["connected"]);
+    const supervisor = new McpSupervisor(
+      manager as unknown as MCPClientManager,
+      fakeScheduler().schedule
+    );
+
+    await supervisor.reconnect("server-1");
+    expect(manager.connectToServer).toHaveBeenCalledTimes(1);
+    expect(supervisor.health()[0].state).toBe("ready");
+  });
+
+  it("waits for a server by name", async () => {
+    const { manager, connection } = fakeManager([]);
+    connection.connectionState = "discovering";
+    const supervisor = new McpSupervisor(
+      manager as unknown as MCPClientManager,
+      fakeScheduler().schedule
+    );
+
+    const ready = supervisor.awaitReady("GitHub", 5000);
+    connection.connectionState = "ready";
+    expect(await ready).toBe("server-1");
+
+    await expect(supervisor.awaitReady("Linear", 5000)).rejects.toThrow(
+      "Linear MCP server not connected"
+    );
+    connection.connectionState = "connecting";
+    await expect(supervisor.awaitReady("GitHub", 0)).rejects.toBeInstanceOf(
+      McpServerNotReadyError
+    );
+  });
+});
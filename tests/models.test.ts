@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { generateText } from "ai";
+import { getModel, parseModelSpec, requiresOpenAIKey } from "../src/models";
+
+describe("parseModelSpec", () => {
+  it("splits the provider from model IDs that contain colons", () => {
+    expect(parseModelSpec("workers-ai:@cf/meta/llama:fp8")).toEqual({
+      provider: "workers-ai",
+      modelId: "@cf/meta/llama:fp8"
+    });
+    expect(parseModelSpec("gpt-4o")).toEqual({
+      provider: "openai",
+      modelId: "gpt-4o"
+    });
+  });
+});
+
+describe("getModel", () => {
+  it("uses the model configured for each role", async () => {
+    const env = { CHAT_MODEL: "mock:chat", RESEARCH_MODEL: "mock:research" };
+    expect(getModel(env, "chat").modelId).toBe("chat");
+    expect(getModel(env, "research").modelId).toBe("research");
+    expect(getModel(env, "summarization").provider).toContain("openai");
+
+    const { text } = await generateText({
+      model: getModel(env, "chat"),
+      prompt: "hello"
+    });
+    expect(text).toBe("Mock response to: hello");
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => getModel({ CHAT_MODEL: "nope:model" }, "chat")).toThrow(
+      /Unknown model provider "nope"/
+    );
+  });
+});
+
+describe("requiresOpenAIKey", () => {
+  it("is false only when no role uses OpenAI", () => {
+    expect(requiresOpenAIKey({})).toBe(true);
+    expect(
+      requiresOpenAIKey({
+        CHAT_MODEL: "mock:a",
+        RESEARCH_MODEL: "mock:b",
+        SUMMARIZATION_MODEL: "workers-ai:@cf/meta/llama"
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRepositoryMappingInput,
+  resolveMappedRepositories
+} from "../src/repository-mappings";
+import type { RepositoryMapping, TrackerIssue } from "../src/shared";
+
+function mapping(
+  field: RepositoryMapping["field"],
+  value: string,
+  repositories: string[]
+): RepositoryMapping {
+  return {
+    id: `${field}-${value}`,
+    field,
+    value,
+    repositories,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+describe("parseRepositoryMappingInput", () => {
+  it("trims and dedupes repositories", () => {
+    expect(
+      parseRepositoryMappingInput({
+        field: "team",
+        value: " Platform ",
+        repositories: ["acme/api", " acme/api", "", "acme/web"]
+      })
+    ).toEqual({
+      field: "team",
+      value: "Platform",
+      repositories: ["acme/api", "acme/web"]
+    });
+  });
+
+  it("rejects unknown fields and malformed repositories", () => {
+    expect(
+      parseRepositoryMappingInput({
+        field: "state",
+        value: "Todo",
+        repositories: ["acme/api"]
+      })
+    ).toMatch(/field must be one of/);
+    expect(
+      parseRepositoryMappingInput({
+        field: "label",
+        value: "bug",
+        repositories: ["https://github.com/acme/api"]
+      })
+    ).toMatch(/expected owner\/repo/);
+  });
+});
+
+describe("resolveMappedRepositories", () => {
+  it("orders project, team then label mappings and ends with the issue's repo", () => {
+    const issue: TrackerIssue = {
+      tracker: "github",
+      id: "acme/web#7",
+      title: "Fix login",
+      url: "https://github.com/acme/web/issues/7",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      team: "Platform",
+      project: "Auth",
+      labels: [{ id: "1", name: "Bug" }]
+    };
+    const mappings = [
+      mapping("label", "bug", ["acme/docs"]),
+      mapping("team", "platform", ["acme/api", "acme/web"]),
+      mapping("project", "auth", ["acme/auth"]),
+      mapping("project", "billing", ["acme/billing"])
+    ];
+    expect(resolveMappedRepositories(issue, mappings)).toEqual([
+      "acme/auth",
+      "acme/api",
+      "acme/web",
+      "acme/docs"
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+import {
+  addResearchSources,
+  extractResearchSources,
+  locateQuote,
+  renderResearchReport,
+  resolveResearchReport,
+  type ResearchSource
+} from "../src/research-report";
+
+const SHA = "0123456789abcdef0123456789abcdef01234567";
+
+const FILE = [
+  "export function login(user: User) {",
+  "  const session = createSession(user);",
+  "",
+  "  return redirect(session.returnTo);",
+  "}"
+].join("\n");
+
+describe("extractResearchSources", () => {
+  it("reads the commit SHA from an embedded file resource", () => {
+    const sources = extractResearchSources(
+      "tool_abc_get_file_contents",
+      { owner: "acme", repo: "web", path: "src/auth.ts" },
+      {
+        content: [
+          { type: "text", text: "successfully downloaded text file" },
+          {
+            type: "resource",
+            resource: {
+              uri: `repo://acme/web/sha/${SHA}/contents/src/auth.ts`,
+              text: FILE
+            }
+          }
+        ]
+      }
+    );
+
+    expect(sources).toEqual([
+      {
+        repository: "acme/web",
+        path: "src/auth.ts",
+        commitSha: SHA,
+        tool: "get_file_contents",
+        content: FILE
+      }
+    ]);
+  });
+
+  it("takes search matches and their commit from the match URL", () => {
+    const sources = extractResearchSources(
+      "search_code",
+      { query: "login" },
+      {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              items: [
+                {
+                  path: "src/auth.ts",
+                  sha: "blobsha",
+                  html_url: `https://github.com/acme/web/blob/${SHA}/src/auth.ts`,
+                  repository: { full_name: "acme/web" }
+                }
+              ]
+            })
+          }
+        ]
+      }
+    );
+
+    expect(sources).toEqual([
+      {
+        repository: "acme/web",
+        path: "src/auth.ts",
+        commitSha: SHA,
+        tool: "search_code",
+        content: null
+      }
+    ]);
+  });
+});
+
+describe("locateQuote", () => {
+  it("finds a multi-line quote ignoring indentation and blank lines", () => {
+    const quote =
+      "const session = createSession(user);\nreturn redirect(session.returnTo);";
+    expect(locateQuote(FILE, quote)).toEqual({ startLine: 2, endLine: 4 });
+  });
+
+  it("does not match code that is not in the file", () => {
+    expect(locateQuote(FILE, 'return redirect("/home");')).toBeNull();
+  });
+});
+
+describe("resolveResearchReport", () => {
+  const sources: ResearchSource[] = [];
+  addResearchSources(
+    sources,
+    [
+      {
+        repository: "acme/web",
+        path: "src/auth.ts",
+        commitSha: SHA,
+        tool: "get_file_contents",
+        content: FILE
+      }
+    ],
+    0
+  );
+
+  it("verifies quoted citations and drops unknown sources", () => {
+    const report = resolveResearchReport(
+      {
+        summary: "Login redirects to the stored URL [Step 1]",
+        findings: [
+          {
+            title: "Redirect",
+            detail: "The session's returnTo is used",
+            steps: [1, 7],
+            citations: [
+              {
+                source: "S1",
+                quote: "return redirect(session.returnTo);",
+                startLine: null,
+                endLine: null
+              },
+              { source: "S9", quote: null, startLine: 1, endLine: 2 }
+            ]
+          }
+        ]
+      },
+      sources,
+      2
+    );
+
+    expect(report.findings[0].steps).toEqual([1]);
+    expect(report.findings[0].citations).toEqual([
+      {
+        repository: "acme/web",
+        path: "src/auth.ts",
+        commitSha: SHA,
+        startLine: 4,
+        endLine: 4,
+        url: `https://github.com/acme/web/blob/${SHA}/src/auth.ts#L4`,
+        verified: true
+      }
+    ]);
+  });
+
+  it("tags findings with their repositories when several were researched", () => {
+    const draft = {
+      summary: "The API builds the redirect [Step 2]",
+      findings: [
+        {
+          title: "Redirect",
+          detail: "The web app follows returnTo",
+          steps: [1],
+          citations: [{ source: "S1", quote: null, startLine: 4, endLine: 4 }]
+        },
+        {
+          title: "Session",
+          detail: "The API stores returnTo",
+          steps: [2],
+          citations: []
+        }
+      ]
+    };
+
+    const report = resolveResearchReport(draft, sources, 2, [
+      "acme/web",
+      "acme/api"
+    ]);
+    expect(report.findings.map((f) => f.repositories)).toEqual([
+      ["acme/web"],
+      ["acme/api"]
+    ]);
+
+    // A single repository needs no tags
+    const single = resolveResearchReport(draft, sources, 2, [
+      "acme/web",
+      "acme/web"
+    ]);
+    expect(single.findings[0].repositories).toBeUndefined();
+  });
+
+  it("pins sources without a commit to the head, or leaves them unlinked", () => {
+    const unpinned: ResearchSource[] = [];
+    addResearchSources(
+      unpinned,
+      [
+        {
+          repository: "acme/web",
+          path: "src/auth.ts",
+          commitSha: null,
+          tool: "search_code",
+          content: null
+        }
+      ],
+      0
+    );
+    const draft = {
+      summary: "Login redirects [Step 1]",
+      findings: [
+        {
+          title: "Redirect",
+          detail: "The session's returnTo is used",
+          steps: [1],
+          citations: [
+            { source: "S1", quote: null, startLine: null, endLine: null }
+          ]
+        }
+      ]
+    };
+
+    const pinned = resolveResearchReport(draft, unpinned, 1, [], {
+      "acme/web": SHA
+    });
+    expect(pinned.findings[0].citations[0]).toMatchObject({
+      commitSha: SHA,
+      url: `https://github.com/acme/web/blob/${SHA}/src/auth.ts`
+    });
+
+    const unknown = resolveResearchReport(draft, unpinned, 1);
+    expect(unknown.findings[0].citations[0]).toMatchObject({
+      commitSha: null,
+      url: null
+    });
+    expect(renderResearchReport(unknown)).toContain(
+      "Sources: `src/auth.ts` (unverified)"
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { inferRepositories, inferSearchTerms } from "../src/task-manager";
+
+describe("inferRepositories", () => {
+  it("extracts repositories from GitHub URLs", () => {
+    const text =
+      "See https://github.com/acme/web-app/blob/main/src/app.tsx and github.com/acme/api.git";
+    expect(inferRepositories(text)).toEqual(["acme/web-app", "acme/api"]);
+  });
+
+  it("matches known repositories by full name or repo name", () => {
+    const known = ["acme/web-app", "acme/api", "acme/sdk"];
+    const text = "The sdk types break the acme/api build";
+    expect(inferRepositories(text, known)).toEqual(["acme/api", "acme/sdk"]);
+  });
+
+  it("does not match repo names inside paths or longer words", () => {
+    const known = ["acme/api"];
+    expect(
+      inferRepositories("Update src/api/client.ts and rapid", known)
+    ).toEqual([]);
+  });
+});
+
+describe("inferSearchTerms", () => {
+  it("prefers code-like tokens over plain words", () => {
+    const terms = inferSearchTerms(
+      "Fix login redirect in AuthProvider",
+      "The `useSession` hook in src/auth/session.ts ignores redirect_url"
+    );
+    expect(terms.slice(0, 4)).toEqual([
+      "useSession",
+      "src/auth/session.ts",
+      "AuthProvider",
+      "redirect_url"
+    ]);
+    expect(terms).toContain("login");
+    expect(terms).not.toContain("fix");
+  });
+
+  it("caps the number of terms", () => {
+    const title = Array.from({ length: 20 }, (_, i) => `word${i}x`).join(" ");
+    expect(inferSearchTerms(title).length).toBeLessThanOrEqual(8);
+  });
+});
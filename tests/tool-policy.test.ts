@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TOOL_POLICY,
+  parseToolPolicyInput,
+  resolveToolAction
+} from "../src/tool-policy";
+import type { ToolPolicy } from "../src/shared";
+
+describe("parseToolPolicyInput", () => {
+  it("trims names and keeps the last entry for a tool or pattern", () => {
+    expect(
+      parseToolPolicyInput({
+        defaultAction: "auto",
+        servers: { " GitHub ": "confirm" },
+        tools: [
+          { server: "GitHub", tool: "get_me", action: "disabled" },
+          { server: "github", tool: " get_me ", action: "auto" },
+          { tool: "getLocalTime", action: "confirm" }
+        ],
+        patterns: [
+          { pattern: "*issue*", action: "confirm" },
+          { pattern: "delete_*", action: "disabled" },
+          { pattern: "*ISSUE*", action: "auto" }
+        ]
+      })
+    ).toEqual({
+      defaultAction: "auto",
+      servers: { GitHub: "confirm" },
+      tools: [
+        { server: "github", tool: "get_me", action: "auto" },
+        { server: null, tool: "getLocalTime", action: "confirm" }
+      ],
+      patterns: [
+        { pattern: "*ISSUE*", action: "auto" },
+        { pattern: "delete_*", action: "disabled" }
+      ]
+    });
+  });
+
+  it("rejects unknown actions and empty names", () => {
+    expect(parseToolPolicyInput({ defaultAction: "ask" })).toMatch(
+      /defaultAction must be one of/
+    );
+    expect(
+      parseToolPolicyInput({
+        defaultAction: "auto",
+        tools: [{ server: "GitHub", tool: "get_me", action: "maybe" }]
+      })
+    ).toMatch(/Action for tool get_me/);
+    expect(
+      parseToolPolicyInput({
+        defaultAction: "auto",
+        patterns: [{ pattern: " ", action: "auto" }]
+      })
+    ).toBe("Patterns must not be empty");
+  });
+});
+
+describe("resolveToolAction", () => {
+  const policy: ToolPolicy = {
+    defaultAction: "auto",
+    servers: { Linear: "confirm" },
+    tools: [{ server: "Linear", tool: "list_issues", action: "auto" }],
+    patterns: [
+      { pattern: "delete_*", action: "disabled" },
+      { pattern: "*_issue", action: "confirm" }
+    ]
+  };
+
+  it("prefers the tool's own entry, then patterns, then its server", () => {
+    expect(resolveToolAction(policy, "linear", "list_issues")).toBe("auto");
+    expect(resolveToolAction(policy, "GitHub", "delete_issue")).toBe(
+      "disabled"
+    );
+    expect(resolveToolAction(policy, "GitHub", "update_issue")).toBe("confirm");
+    expect(resolveToolAction(policy, "Linear", "list_comments")).toBe(
+      "confirm"
+    );
+    expect(resolveToolAction(policy, "GitHub", "get_me")).toBe("auto");
+    // Server defaults don't apply to built-in tools
+    expect(resolveToolAction(policy, null, "list_comments")).toBe("auto");
+  });
+
+  it("asks before issue and comment writes by default", () => {
+    expect(
+      resolveToolAction(DEFAULT_TOOL_POLICY, "Linear", "update_issue")
+    ).toBe("confirm");
+    expect(
+      resolveToolAction(DEFAULT_TOOL_POLICY, null, "tool_abc123_create_comment")
+    ).toBe("confirm");
+    expect(
+      resolveToolAction(DEFAULT_TOOL_POLICY, "GitHub", "search_code")
+    ).toBe("auto");
+  });
+});
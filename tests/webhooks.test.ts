@@ -0,0 +1,119 @@
+import { SELF } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { parseLinearWebhook } from "../src/webhooks";
+
+async function sign(secret: string, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(body)
+  );
+  return [...new Uint8Array(signature)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const ASSIGNED = JSON.stringify({
+  action: "assigned",
+  issue: {
+    number: 42,
+    title: "Login ignores returnTo",
+    html_url: "https://github.com/acme/web/issues/42"
+  },
+  assignee: { id: 1, login: "octocat" },
+  repository: { full_name: "acme/web" }
+});
+
+describe("GitHub webhook", () => {
+  const deliver = (signature: string, query = "?agent=webhooks") =>
+    SELF.fetch(`http://example.com/webhooks/github${query}`, {
+      method: "POST",
+      headers: {
+        "X-GitHub-Event": "issues",
+        "X-Hub-Signature-256": `sha256=${signature}`
+      },
+      body: ASSIGNED
+    });
+
+  it("accepts signed deliveries", async () => {
+    const response = await deliver(
+      await sign("github-webhook-secret", ASSIGNED)
+    );
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ received: 1 });
+  });
+
+  it("rejects deliveries that don't name an agent", async () => {
+    const response = await deliver(
+      await sign("github-webhook-secret", ASSIGNED),
+      ""
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects deliveries with a bad signature", async () => {
+    const response = await deliver(await sign("wrong-secret", ASSIGNED));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe("parseLinearWebhook", () => {
+  it("reports assignee changes and comments", () => {
+    const issue = {
+      id: "issue-1",
+      identifier: "ENG-1",
+      title: "Login ignores returnTo",
+      assigneeId: "user-1",
+      assignee: { id: "user-1", name: "Ada" }
+    };
+
+    expect(
+      parseLinearWebhook({
+        action: "update",
+        type: "Issue",
+        data: issue,
+        updatedFrom: { assigneeId: null }
+      })
+    ).toEqual([
+      {
+        type: "issue.assigned",
+        issue: {
+          tracker: "linear",
+          id: "issue-1",
+          identifier: "ENG-1",
+          title: "Login ignores returnTo",
+          url: undefined
+        },
+        assignee: { id: "user-1", name: "Ada" }
+      }
+    ]);
+    expect(
+      parseLinearWebhook({
+        action: "update",
+        type: "Issue",
+        data: { ...issue, assigneeId: null },
+        updatedFrom: { assigneeId: "user-1" }
+      })[0].type
+    ).toBe("issue.unassigned");
+    expect(
+      parseLinearWebhook({
+        action: "create",
+        type: "Comment",
+        data: { id: "comment-2", body: "Fixed", issueId: "issue-1" }
+      })
+    ).toMatchObject([
+      {
+        type: "issue.commented",
+        issue: { id: "issue-1" },
+        comment: { id: "comment-2", body: "Fixed" }
+      }
+    ]);
+  });
+});
@@ -17,7 +17,24 @@ export default defineWorkersConfig({
     },
     poolOptions: {
       workers: {
-        wrangler: { configPath: "./wrangler.jsonc" }
+        wrangler: { configPath: "./wrangler.jsonc" },
+        // Tests run offline: models come from the mock provider and MCP
+        // servers from tests/fake-mcp.ts
+        remoteBindings: false,
+        // SQLite-backed Durable Objects can't use isolated storage, so each
+        // test talks to its own agent instance instead
+        isolatedStorage: false,
+        miniflare: {
+          bindings: {
+            CHAT_MODEL: "mock:chat",
+            RESEARCH_MODEL: "mock:research",
+            SUMMARIZATION_MODEL: "mock:summarization",
+            GITHUB_WEBHOOK_SECRET: "github-webhook-secret",
+            MCP_TOKEN_KEY: "mcp-token-key",
+            // Agent routes are tested without Cloudflare Access in front
+            ALLOW_ANONYMOUS: "true"
+          }
+        }
       }
     }
   }